@@ -1,26 +1,63 @@
+import path from "node:path";
+import { pathToFileURL } from "node:url";
 import { build } from "esbuild";
 import { nodeExternalsPlugin } from "esbuild-node-externals";
 
-build({
-  entryPoints: ["./src/index.js"],
-  outfile: "dist/cjs/index.cjs",
-  bundle: true,
-  minify: true,
-  treeShaking: true,
-  platform: "node",
-  format: "cjs",
-  target: "node16",
-  plugins: [nodeExternalsPlugin()],
-}).catch(() => process.exit(1));
+/**
+ * Replace the Node.js built-in module loaders with their browser versions
+ * @type {import("esbuild").Plugin}
+ */
+const browserModulesPlugin = {
+  name: "browser-modules",
+  setup(build) {
+    build.onResolve({ filter: /\/node-modules\.js$/ }, (args) => ({
+      path: path.join(
+        args.resolveDir,
+        args.path.replace(/\.js$/, ".browser.js")
+      ),
+    }));
+  },
+};
 
-build({
+// browsers and edge runtimes; Node.js modules are never imported
+export const browserBuildOptions = {
   entryPoints: ["./src/index.js"],
-  outfile: "dist/mjs/index.js",
+  outfile: "dist/browser/index.js",
   bundle: true,
   minify: true,
   treeShaking: true,
-  platform: "node",
+  platform: "browser",
   format: "esm",
-  target: "node16",
-  plugins: [nodeExternalsPlugin()],
-}).catch(() => process.exit(1));
+  target: "es2020",
+  plugins: [browserModulesPlugin],
+};
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  for (const entry of ["index", "testing"]) {
+    build({
+      entryPoints: [`./src/${entry}.js`],
+      outfile: `dist/cjs/${entry}.cjs`,
+      bundle: true,
+      minify: true,
+      treeShaking: true,
+      platform: "node",
+      format: "cjs",
+      target: "node16",
+      plugins: [nodeExternalsPlugin()],
+    }).catch(() => process.exit(1));
+
+    build({
+      entryPoints: [`./src/${entry}.js`],
+      outfile: `dist/mjs/${entry}.js`,
+      bundle: true,
+      minify: true,
+      treeShaking: true,
+      platform: "node",
+      format: "esm",
+      target: "node16",
+      plugins: [nodeExternalsPlugin()],
+    }).catch(() => process.exit(1));
+  }
+
+  build(browserBuildOptions).catch(() => process.exit(1));
+}
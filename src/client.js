@@ -13,26 +13,147 @@
 /** @typedef {import("./index.js").MeshesOptions} MeshesOptions */
 /** @typedef {import("./index.js").MeshesRequestOptions} MeshesRequestOptions */
 /** @typedef {import("./index.js").MeshesOptionalRequestOptions} MeshesOptionalRequestOptions */
-/** @typedef {import("./index.js").MeshesEventBody} MeshesEventBody */
+/** @typedef {import("./index.js").MeshesEventBody<any>} MeshesEventBody */
+/** @typedef {import("./index.js").MeshesEventCatalog} MeshesEventCatalog */
 /** @typedef {import("./index.js").CreateEventResponseSingle} CreateEventResponseSingle */
 /** @typedef {import("./index.js").BulkCreateEventsResult} BulkCreateEventsResult */
+/** @typedef {import("./index.js").MeshesBulkChunkFailure} MeshesBulkChunkFailure */
 /** @typedef {import("./index.js").CallbackFunction<CreateEventResponseSingle>} CallbackFunctionSingle */
 /** @typedef {import("./index.js").CallbackFunction<BulkCreateEventsResult>} CallbackFunctionBulk */
+/** @typedef {import("./index.js").MeshesEmitManyOptions} MeshesEmitManyOptions */
+/** @typedef {import("./index.js").MeshesBulkRequestOptions} MeshesBulkRequestOptions */
 /** @typedef {import("./index.js").CallbackFunction<any>} CallbackAny */
-/** @typedef {{ method: string, headers: Headers, body: string | null, signal?: AbortSignal }} MeshesRequestInit */
+/** @typedef {import("./index.js").MeshesMiddleware} MeshesMiddleware */
+/** @typedef {import("./index.js").MeshesMiddlewareOptions} MeshesMiddlewareOptions */
+/** @typedef {import("./index.js").MeshesEventContext} MeshesEventContext */
+/** @typedef {import("./index.js").MeshesBeforeSend} MeshesBeforeSend */
+/** @typedef {import("./index.js").MeshesMiddlewareRequest} MeshesMiddlewareRequest */
+/** @typedef {import("./index.js").MeshesMiddlewareResponse} MeshesMiddlewareResponse */
+/** @typedef {import("./index.js").MeshesHooks} MeshesHooks */
+/** @typedef {import("./index.js").MeshesRequestInfo} MeshesRequestInfo */
+/** @typedef {import("./index.js").MeshesSpan} MeshesSpan */
+/** @typedef {import("./index.js").MeshesMode} MeshesMode */
+/** @typedef {import("./index.js").MeshesRecordedRequest} MeshesRecordedRequest */
+/** @typedef {import("./index.js").MeshesFetch} MeshesFetch */
+/** @typedef {import("./index.js").MeshesFetchResponse} MeshesFetchResponse */
+/** @typedef {{ attempts: number, idempotencyKey?: string }} MeshesAttemptMeta */
+/** @typedef {{ kind: "status" | "parse" | "timeout" | "network" | "cancelled", status?: number }} MeshesAttemptFailure */
+/** @typedef {{ data: unknown, status?: number, error?: undefined } | { error: MeshesApiError, kind: "status" | "parse" | "timeout" | "network" | "cancelled" | "middleware", status?: number, retryAfter?: number }} MeshesAttemptOutcome */
 
-import { MeshesApiError } from "./lib/errors.js";
-import { isNonEmpty, readBody } from "./lib/helpers.js";
+import {
+  MeshesApiError,
+  MeshesAuthError,
+  MeshesCancelledError,
+  MeshesCircuitOpenError,
+  MeshesConfigurationError,
+  MeshesHttpError,
+  MeshesNetworkError,
+  MeshesParseError,
+  MeshesPartialFailureError,
+  MeshesRateLimitError,
+  MeshesTimeoutError,
+  MeshesValidationError,
+} from "./lib/errors.js";
+import {
+  droppedRecord,
+  failedRecord,
+  isMeshesErrorResponse,
+  isMeshesEvent,
+  MAX_BULK_EVENTS,
+  MISSING_RECORD_MESSAGE,
+  partitionBulkResult,
+  withDroppedRecords,
+} from "./lib/bulk.js";
+import { CircuitBreaker } from "./lib/circuit-breaker.js";
+import { compressBody, resolveCompressionOptions } from "./lib/compression.js";
+import { applyContext, resolveEventContext } from "./lib/context.js";
+import { dryRunResult, validModes } from "./lib/dry-run.js";
+import { byteLength, randomUUID, readBody, sleep } from "./lib/helpers.js";
+import { createLogWriter } from "./lib/logger.js";
+import {
+  hashIdentity,
+  normalizeEmail,
+  normalizeIdentity,
+  normalizeIpAddress,
+  normalizeName,
+  normalizePhone,
+  resolveNormalizeOptions,
+} from "./lib/normalize.js";
+import { composeMiddleware, validMiddlewareStages } from "./lib/middleware.js";
+import { RateLimiter } from "./lib/rate-limiter.js";
+import { resolveFetchOptions, resolveTransport } from "./lib/transport.js";
+import {
+  onPageHide,
+  resolveUnloadOptions,
+  sendOnUnload,
+} from "./lib/unload.js";
+import {
+  applyTraceContext,
+  resolveTracer,
+  SPAN_KIND_CLIENT,
+  SPAN_STATUS_ERROR,
+} from "./lib/tracing.js";
+import {
+  defaultRetryOptions,
+  getBackoffDelay,
+  isRetryable,
+  isRetryableError,
+  parseRateLimitReset,
+  parseRetryAfter,
+  resolveRetryOptions,
+} from "./lib/retry.js";
+import {
+  resolveValidators,
+  runValidator,
+  validateEvent,
+} from "./lib/validate.js";
+import {
+  MeshesFileOutboxStorage,
+  MeshesMemoryOutboxStorage,
+} from "./lib/outbox-storage.js";
+import {
+  createRequestEmitter,
+  meshesExpress,
+  meshesFastify,
+  withMeshes,
+} from "./integrations.js";
+import { MeshesOutbox } from "./outbox.js";
+import { MeshesEventsQueue } from "./queue.js";
+import { MeshesScopedClient } from "./scoped-client.js";
 
 const MESHES_PUBLISHABLE_KEY_REGEX =
   /^mesh_pub_([A-Za-z0-9\-.]+)_([A-Za-z0-9\-.]+)_([^_]+)$/;
 
 const MAX_TIMEOUT_MS = 30000;
 
+const MAX_CONCURRENCY = 10;
+
+const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * Failures raised by the built-in middleware, used to classify attempt errors
+ * @type {WeakMap<object, MeshesAttemptFailure>}
+ * @constant
+ */
+const attemptFailures = new WeakMap();
+
+/**
+ * Create the error for an invalid events array
+ * @param {unknown} events - The invalid events
+ * @param {string} message - Error message
+ * @returns {MeshesValidationError}
+ */
+const invalidEvents = (events, message) =>
+  new MeshesValidationError(message, {
+    events,
+    issues: [{ path: [], message }],
+  });
+
 const forbiddenHeaders = new Set([
   "x-meshes-publishable-key",
   "x-meshes-client",
   "content-type",
+  "content-encoding",
   "accept",
 ]);
 
@@ -57,6 +178,7 @@ const defaultOptions = {
 /**
  * Meshes API Client
  * @class
+ * @template {object} [TEvents=MeshesEventCatalog] - Map of event names to payload shapes
  */
 export class MeshesEventsClient {
   #publishableKey;
@@ -64,7 +186,40 @@ export class MeshesEventsClient {
   #apiBaseUrl;
   #apiHeaders;
   #apiTimeout;
-  #debug;
+  #idempotencyKeyGenerator;
+  /** @type {MeshesEventsQueue | undefined} */
+  #queue;
+  /** @type {MeshesOutbox | undefined} */
+  #outbox;
+  #validators;
+  /** @type {MeshesEventContext | undefined} */
+  #defaults;
+  /** @type {MeshesBeforeSend | undefined} */
+  #beforeSendHook;
+  #normalize;
+  /** @type {MeshesMiddleware[]} */
+  #middleware = [];
+  /** @type {MeshesMiddleware[]} */
+  #transportMiddleware = [];
+  /** @type {MeshesHooks} */
+  #hooks;
+  #tracer;
+  #logWriter;
+  /** @type {CircuitBreaker | undefined} */
+  #circuitBreaker;
+  /** @type {RateLimiter | undefined} */
+  #rateLimiter;
+  /** @type {MeshesMode} */
+  #mode;
+  /** @type {MeshesRecordedRequest[]} */
+  #recordedRequests = [];
+  /** @type {MeshesFetch} */
+  #transport;
+  /** @type {Record<string, unknown>} */
+  #fetchOptions;
+  #compression;
+  /** @type {() => void} */
+  #removeUnloadListener = () => undefined;
 
   /**
    * Create the Meshes API Client.
@@ -80,13 +235,13 @@ export class MeshesEventsClient {
       typeof publishableKey !== "string" ||
       !regex.publishableKey.test(publishableKey)
     ) {
-      throw new MeshesApiError(
+      throw new MeshesConfigurationError(
         `Missing or invalid publishable key: ${publishableKey}`
       );
     }
 
     if (!options || typeof options !== "object") {
-      throw new MeshesApiError(
+      throw new MeshesConfigurationError(
         `Invalid options object: ${typeof options}`,
         options
       );
@@ -94,15 +249,21 @@ export class MeshesEventsClient {
     options = { ...defaultOptions, ...options };
 
     if (typeof options.version !== "string") {
-      throw new MeshesApiError(`Invalid API version: ${options.version}`);
+      throw new MeshesConfigurationError(
+        `Invalid API version: ${options.version}`
+      );
     } else if (options.version !== "v1") {
-      throw new MeshesApiError(`Unsupported API version: ${options.version}`);
+      throw new MeshesConfigurationError(
+        `Unsupported API version: ${options.version}`
+      );
     }
     if (typeof options.timeout !== "undefined") {
       if (typeof options.timeout !== "number") {
-        throw new MeshesApiError(`Invalid request timeout: ${options.timeout}`);
+        throw new MeshesConfigurationError(
+          `Invalid request timeout: ${options.timeout}`
+        );
       } else if (options.timeout < 1000 || options.timeout > MAX_TIMEOUT_MS) {
-        throw new MeshesApiError(
+        throw new MeshesConfigurationError(
           `Unsupported request timeout: ${options.timeout}`
         );
       }
@@ -114,24 +275,91 @@ export class MeshesEventsClient {
         typeof options.headers !== "object" ||
         Array.isArray(options.headers)
       ) {
-        throw new MeshesApiError(
+        throw new MeshesConfigurationError(
           `Invalid additional request headers: ${typeof options.headers}`,
           options.headers
         );
       }
       for (const [k, v] of Object.entries(options.headers)) {
         if (typeof v !== "string") {
-          throw new MeshesApiError(
+          throw new MeshesConfigurationError(
             `Invalid request header value for ${k}: ${typeof v}`,
             options.headers
           );
         }
         if (forbiddenHeaders.has(k.toLowerCase())) {
-          throw new MeshesApiError(`Header not allowed: ${k}`, options.headers);
+          throw new MeshesConfigurationError(
+            `Header not allowed: ${k}`,
+            options.headers
+          );
         }
       }
     }
 
+    // throws on an invalid retry policy
+    resolveRetryOptions(options.retry);
+
+    if (
+      typeof options.queue !== "undefined" &&
+      (!options.queue ||
+        typeof options.queue !== "object" ||
+        Array.isArray(options.queue))
+    ) {
+      throw new MeshesConfigurationError(
+        `Invalid queue options: ${typeof options.queue}`,
+        options.queue
+      );
+    }
+
+    if (
+      typeof options.idempotencyKeyGenerator !== "undefined" &&
+      options.idempotencyKeyGenerator !== false &&
+      typeof options.idempotencyKeyGenerator !== "function"
+    ) {
+      throw new MeshesConfigurationError(
+        `Invalid idempotency key generator: ${typeof options.idempotencyKeyGenerator}`
+      );
+    }
+
+    if (typeof options.hooks !== "undefined") {
+      if (
+        !options.hooks ||
+        typeof options.hooks !== "object" ||
+        Array.isArray(options.hooks)
+      ) {
+        throw new MeshesConfigurationError(
+          `Invalid hooks: ${typeof options.hooks}`,
+          options.hooks
+        );
+      }
+      for (const [k, v] of Object.entries(options.hooks)) {
+        if (typeof v !== "undefined" && typeof v !== "function") {
+          throw new MeshesConfigurationError(
+            `Invalid hook ${k}: ${typeof v}`,
+            options.hooks
+          );
+        }
+      }
+    }
+
+    if (
+      typeof options.beforeSend !== "undefined" &&
+      typeof options.beforeSend !== "function"
+    ) {
+      throw new MeshesConfigurationError(
+        `Invalid beforeSend hook: ${typeof options.beforeSend}`
+      );
+    }
+
+    if (
+      typeof options.mode !== "undefined" &&
+      !validModes.includes(options.mode)
+    ) {
+      throw new MeshesConfigurationError(
+        `Unsupported client mode: ${options.mode}`
+      );
+    }
+
     this.#options = options;
     this.#publishableKey = publishableKey;
     this.#apiBaseUrl =
@@ -143,76 +371,654 @@ export class MeshesEventsClient {
       "Accept": "application/json",
     };
     this.#apiTimeout = options.timeout;
-    this.#debug = options.debug === true;
+    this.#validators = resolveValidators(options.validators);
+    this.#defaults = resolveEventContext(options.defaults, "defaults");
+    this.#beforeSendHook = options.beforeSend;
+    this.#normalize = resolveNormalizeOptions(options.normalize);
+    this.#idempotencyKeyGenerator =
+      options.idempotencyKeyGenerator ?? (() => randomUUID());
+    this.#hooks = options.hooks ?? {};
+    if (options.queue) {
+      // throws on invalid queue options
+      this.#queue = new MeshesEventsQueue(this, options.queue);
+    }
+    if (options.outbox) {
+      this.#outbox = new MeshesOutbox(
+        this,
+        options.outbox === true ? {} : options.outbox
+      );
+    }
+    this.#tracer = resolveTracer(options.tracer);
+    this.#logWriter = createLogWriter(options);
+    if (options.circuitBreaker) {
+      this.#circuitBreaker = new CircuitBreaker(
+        options.circuitBreaker,
+        (state, previousState) =>
+          this.#warn("Circuit Breaker State Changed", { state, previousState })
+      );
+    }
+    if (typeof options.rateLimit !== "undefined") {
+      this.#rateLimiter = new RateLimiter(options.rateLimit);
+    }
+    this.#mode = options.mode ?? "live";
+    this.#transport = resolveTransport(options.transport);
+    this.#fetchOptions = resolveFetchOptions(options.fetchOptions);
+    this.#compression = resolveCompressionOptions(options.compression);
+    const unload = resolveUnloadOptions(options.flushOnUnload);
+    if (unload) {
+      this.#removeUnloadListener = onPageHide(() =>
+        this.#flushOnUnload(unload.method)
+      );
+    }
   }
 
   /**
    * Log debug messages
-   * @param {string} message - Debug message
+   * @param {string} message - Log message
+   * @param {Record<string, unknown>} [fields] - Structured log fields
    * @returns {void}
    */
-  #log(message) {
-    if (this.#debug) {
-      console.debug(...arguments);
-    }
+  #log(message, fields) {
+    this.#logWriter("debug", message, fields);
+  }
+
+  /**
+   * Log warning messages
+   * @param {string} message - Log message
+   * @param {Record<string, unknown>} [fields] - Structured log fields
+   * @returns {void}
+   */
+  #warn(message, fields) {
+    this.#logWriter("warn", message, fields);
   }
 
   /**
    * Log error messages
-   * @param {string} message - Debug message
+   * @param {string} message - Log message
+   * @param {Record<string, unknown>} [fields] - Structured log fields
    * @returns {void}
    */
-  #error(message) {
-    if (this.#debug) {
-      console.error(...arguments);
+  #error(message, fields) {
+    this.#logWriter("error", message, fields);
+  }
+
+  /**
+   * Call a lifecycle hook, if configured; hook errors are logged and ignored
+   * @template {keyof MeshesHooks} K
+   * @param {K} name - Hook name
+   * @param {Parameters<NonNullable<MeshesHooks[K]>>[0]} info - Hook details
+   * @returns {void}
+   */
+  #hook(name, info) {
+    const hook = this.#hooks[name];
+    if (!hook) {
+      return;
+    }
+    try {
+      /** @type {(info: unknown) => void} */ (hook)(info);
+    } catch (err) {
+      this.#warn("Hook Error", { hook: name, error: err });
     }
   }
 
   /**
-   * Add the publishable key to all outgoing API requests
-   * @param {MeshesRequestInit} request
-   * @returns {MeshesRequestInit}
-   * @throws {MeshesApiError} - No Authentication Data
+   * Start a client span for the request and add the trace context headers
+   * @param {MeshesRequestInfo} info - Request details
+   * @param {unknown} body - Request body
+   * @param {Headers} headers - Request headers (modified in place)
+   * @returns {MeshesSpan | undefined} - The span, if a tracer is configured
    */
-  #includeApiPublishableKey(request) {
+  #startSpan(info, body, headers) {
+    if (!this.#tracer) {
+      return undefined;
+    }
+    /** @type {Record<string, string | number | boolean | string[]>} */
+    const attributes = {
+      "http.request.method": info.method,
+      "url.full": info.url,
+      "meshes.batch.size": info.eventCount,
+    };
+    if (Array.isArray(body)) {
+      attributes["meshes.event.names"] = [
+        ...new Set(
+          body.map((e) => e?.event).filter((e) => typeof e === "string")
+        ),
+      ];
+    } else if (
+      body &&
+      typeof body === "object" &&
+      "event" in body &&
+      typeof body.event === "string"
+    ) {
+      attributes["meshes.event.name"] = body.event;
+    }
+    if (info.idempotencyKey) {
+      attributes["meshes.idempotency_key"] = info.idempotencyKey;
+    }
+
+    try {
+      const span = this.#tracer.startSpan(`${info.method} ${info.path}`, {
+        kind: SPAN_KIND_CLIENT,
+        attributes,
+      });
+      applyTraceContext(span, headers);
+      return span;
+    } catch (err) {
+      this.#warn("Tracing Error", { error: err });
+      return undefined;
+    }
+  }
+
+  /**
+   * Record the request outcome on the span and end it
+   * @param {MeshesSpan | undefined} span - The request span
+   * @param {number} attempts - Number of attempts made
+   * @param {number | undefined} status - Last HTTP status, if any
+   * @param {unknown} [error] - The request error, if it failed
+   * @returns {void}
+   */
+  #endSpan(span, attempts, status, error = undefined) {
+    if (!span) {
+      return;
+    }
+    try {
+      span.setAttribute("http.request.resend_count", Math.max(0, attempts - 1));
+      if (typeof status === "number") {
+        span.setAttribute("http.response.status_code", status);
+      }
+      if (error) {
+        if (error instanceof Error) {
+          span.recordException(error);
+        }
+        span.setStatus({
+          code: SPAN_STATUS_ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      span.end();
+    } catch (err) {
+      this.#warn("Tracing Error", { error: err });
+    }
+  }
+
+  /**
+   * Add the publishable key to all outgoing API requests (built-in middleware)
+   * @param {MeshesMiddlewareRequest} request - Outgoing request
+   * @param {(request: MeshesMiddlewareRequest) => Promise<MeshesMiddlewareResponse>} next - Next middleware
+   * @returns {Promise<MeshesMiddlewareResponse>}
+   * @throws {MeshesConfigurationError} - No Authentication Data
+   */
+  #includeApiPublishableKey(request, next) {
     if (this.#publishableKey) {
       request.headers["X-Meshes-Publishable-Key"] = this.#publishableKey;
     } else {
-      throw new MeshesApiError("No Publishable Key Data");
+      throw new MeshesConfigurationError("No Publishable Key Data");
     }
-    return request;
+    return next(request);
   }
 
   /**
-   * Validate the event object
-   * @param {MeshesEventBody} event
+   * Serialize the request body as JSON (built-in middleware)
+   * @param {MeshesMiddlewareRequest} request - Outgoing request
+   * @param {(request: MeshesMiddlewareRequest) => Promise<MeshesMiddlewareResponse>} next - Next middleware
+   * @returns {Promise<MeshesMiddlewareResponse>}
+   * @throws {MeshesValidationError} - Body can't be serialized
    */
-  #validateEvent(event) {
-    if (!event || typeof event !== "object") {
-      throw new MeshesApiError("Invalid event: must be an object", event);
-    }
-    if (typeof event.event !== "string" || !event.event.trim()) {
-      throw new MeshesApiError("Invalid event: missing 'event' string", event);
+  #serializeBody(request, next) {
+    let body = null;
+    if (request.body) {
+      try {
+        body =
+          typeof request.body === "string"
+            ? request.body
+            : JSON.stringify(request.body);
+      } catch (err) {
+        this.#error("Request Body Serialization Error", { error: err });
+        throw new MeshesValidationError("Invalid request body", {
+          events: request.body,
+          issues: [
+            {
+              path: [],
+              message: err instanceof Error ? err.message : `${err}`,
+            },
+          ],
+        });
+      }
     }
+    return next({ ...request, body });
+  }
+
+  /**
+   * Compress request bodies above the threshold, if enabled (built-in middleware).
+   * Bodies are sent uncompressed if the runtime can't compress them.
+   * @param {MeshesMiddlewareRequest} request - Outgoing request
+   * @param {(request: MeshesMiddlewareRequest) => Promise<MeshesMiddlewareResponse>} next - Next middleware
+   * @returns {Promise<MeshesMiddlewareResponse>}
+   */
+  #compressBody(request, next) {
+    const compression = this.#compression;
+    // dry-run and record modes keep the body readable
     if (
-      !event.payload ||
-      typeof event.payload !== "object" ||
-      Array.isArray(event.payload)
+      !compression ||
+      this.#mode !== "live" ||
+      typeof request.body !== "string" ||
+      byteLength(request.body) < compression.threshold
     ) {
-      throw new MeshesApiError(
-        "Invalid event: missing 'payload' object",
-        event
+      return next(request);
+    }
+    return compressBody(request.body, compression.encoding).then((body) => {
+      if (!body) {
+        this.#log("Compression Unavailable", {
+          encoding: compression.encoding,
+        });
+        return next(request);
+      }
+      return next({
+        ...request,
+        headers: {
+          ...request.headers,
+          "Content-Encoding": compression.encoding,
+        },
+        body,
+      });
+    });
+  }
+
+  /**
+   * Report the attempt to the onRequest and onResponse hooks (built-in middleware)
+   * @param {MeshesMiddlewareRequest} request - Outgoing request
+   * @param {(request: MeshesMiddlewareRequest) => Promise<MeshesMiddlewareResponse>} next - Next middleware
+   * @param {MeshesRequestInfo} info - Request details
+   * @returns {Promise<MeshesMiddlewareResponse>}
+   */
+  #observe(request, next, info) {
+    const attemptInfo = {
+      ...info,
+      attempt: request.attempt,
+      bytes:
+        typeof request.body === "string"
+          ? byteLength(request.body)
+          : request.body instanceof Uint8Array
+            ? request.body.byteLength
+            : 0,
+    };
+    const started = Date.now();
+    this.#hook("onRequest", attemptInfo);
+    return next(request).then((response) => {
+      this.#hook("onResponse", {
+        ...attemptInfo,
+        ok: response.ok,
+        status: response.status,
+        duration: Date.now() - started,
+      });
+      return response;
+    });
+  }
+
+  /**
+   * Read and parse the response body (built-in middleware)
+   * @param {MeshesMiddlewareRequest} request - Outgoing request
+   * @param {(request: MeshesMiddlewareRequest) => Promise<MeshesFetchResponse>} next - Next middleware
+   * @returns {Promise<MeshesMiddlewareResponse>}
+   * @throws {MeshesParseError} - Response body can't be read
+   */
+  #parseResponse(request, next) {
+    return next(request).then((response) =>
+      readBody(response).then(
+        (data) => ({
+          ok: response.ok,
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers,
+          data,
+        }),
+        (err) => {
+          if (response.ok) {
+            this.#error("Response Parsing Error", { error: err });
+            const error = new MeshesParseError("Error parsing response data", {
+              error: err,
+              ...this.#attemptMeta(request),
+            });
+            attemptFailures.set(error, { kind: "parse" });
+            throw error;
+          }
+          this.#error("Response Parsing Failure", {
+            status: response.status,
+            error: err,
+          });
+          const error = new MeshesParseError("Error parsing request failure", {
+            status: response.status,
+            statusText: response.statusText,
+            error: err,
+            ...this.#attemptMeta(request),
+          });
+          attemptFailures.set(error, {
+            kind: "status",
+            status: response.status,
+          });
+          throw error;
+        }
+      )
+    );
+  }
+
+  /**
+   * Send the request with the transport (innermost built-in middleware)
+   * @param {MeshesMiddlewareRequest} request - Outgoing request
+   * @param {AbortSignal | undefined} signal - Caller signal, to tell cancellations from timeouts
+   * @returns {Promise<MeshesFetchResponse>}
+   * @throws {MeshesTimeoutError | MeshesNetworkError | MeshesCancelledError} - Request Failure or Request Cancelled
+   */
+  #fetch(request, signal) {
+    this.#log("Fetch Options", {
+      method: request.method,
+      url: request.url,
+      attempt: request.attempt,
+    });
+    /** @type {Promise<MeshesFetchResponse>} */
+    let sent;
+    try {
+      sent = Promise.resolve(
+        this.#transport(request.url, {
+          ...this.#fetchOptions,
+          method: request.method,
+          headers: request.headers,
+          body: /** @type {string | Uint8Array | null} */ (request.body),
+          signal: request.signal,
+        })
       );
+    } catch (err) {
+      // a transport that throws fails like a rejected fetch
+      sent = Promise.reject(err);
     }
-    const hasAtLeastOneValue = Object.values(event.payload).some(isNonEmpty);
-    if (!hasAtLeastOneValue) {
-      throw new MeshesApiError(
-        "Invalid event: payload must contain at least one value",
-        event
+    return sent.catch((err) => {
+      if (signal?.aborted) {
+        const error = this.#cancelled(signal, this.#attemptMeta(request));
+        attemptFailures.set(error, { kind: "cancelled" });
+        throw error;
+      }
+      this.#error("Request Failure", {
+        url: request.url,
+        attempt: request.attempt,
+        error: err,
+      });
+      const timedOut = !!request.signal?.aborted;
+      const data = { error: err, ...this.#attemptMeta(request) };
+      const error = timedOut
+        ? new MeshesTimeoutError("Request Failure", data)
+        : new MeshesNetworkError("Request Failure", data);
+      attemptFailures.set(error, { kind: timedOut ? "timeout" : "network" });
+      throw error;
+    });
+  }
+
+  /**
+   * Skip sending the request in the dry-run and record modes (innermost built-in middleware)
+   * @param {MeshesMiddlewareRequest} request - Outgoing request
+   * @returns {Promise<Response>} - Synthetic successful response
+   */
+  #dryRun(request) {
+    this.#log("Dry Run", {
+      method: request.method,
+      url: request.url,
+      attempt: request.attempt,
+    });
+    const body = /** @type {string | null} */ (request.body);
+    if (this.#mode === "record") {
+      this.#recordedRequests.push({
+        method: request.method,
+        url: request.url,
+        path: request.path,
+        headers: { ...request.headers },
+        body,
+        attempt: request.attempt,
+        ...(request.idempotencyKey
+          ? { idempotencyKey: request.idempotencyKey }
+          : {}),
+        timestamp: Date.now(),
+      });
+    }
+    return Promise.resolve(
+      new Response(JSON.stringify(dryRunResult(body)), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+  }
+
+  /**
+   * Send the events in the background queue as the page unloads.  The
+   * requests outlive the page, so they skip middleware, retries and
+   * lifecycle hooks.
+   * @param {"keepalive" | "beacon"} method - Delivery method
+   * @returns {void}
+   */
+  #flushOnUnload(method) {
+    if (this.#mode !== "live") {
+      return;
+    }
+    const taken = this.#queue?.take() ?? [];
+    /** @param {(MeshesEventBody | null)[]} sent */
+    const send = (sent) => {
+      const events = sent.filter((evt) => evt !== null);
+      this.#sendOnUnload(events, method);
+    };
+    try {
+      const sent = this.#beforeSend(taken);
+      if (sent instanceof Promise) {
+        sent.then(send, (err) =>
+          this.#error("Flush On Unload Failure", { error: err })
+        );
+      } else {
+        send(sent);
+      }
+    } catch (err) {
+      this.#error("Flush On Unload Failure", { error: err });
+    }
+  }
+
+  /**
+   * Send events in bulk requests that outlive the page
+   * @param {MeshesEventBody[]} events - The events to send
+   * @param {"keepalive" | "beacon"} method - Delivery method
+   * @returns {void}
+   */
+  #sendOnUnload(events, method) {
+    for (let i = 0; i < events.length; i += MAX_BULK_EVENTS) {
+      const batch = events.slice(i, i + MAX_BULK_EVENTS);
+      /** @type {Headers} */
+      const headers = {
+        ...this.#apiHeaders,
+        "X-Meshes-Publishable-Key": this.#publishableKey,
+      };
+      this.#applyIdempotencyKey(
+        { method: "POST", path: "/events/bulk", body: batch },
+        headers
+      );
+      const sent = sendOnUnload(
+        this.#transport,
+        `${this.#apiBaseUrl}/events/bulk`,
+        {
+          ...this.#fetchOptions,
+          method: "POST",
+          headers,
+          body: JSON.stringify(batch),
+        },
+        method
       );
+      this.#log("Flush On Unload", { method, events: batch.length, sent });
     }
   }
 
+  /**
+   * Normalize the identity fields of each event if enabled, then run the
+   * beforeSend hook.  Both get a copy of the event; the copies are what is
+   * sent, and what is stored in the outbox if the request fails.
+   * @param {MeshesEventBody[]} events - The validated events
+   * @returns {(MeshesEventBody | null)[] | Promise<(MeshesEventBody | null)[]>} - The events to send, null if dropped; a promise if either step is async
+   * @throws {MeshesValidationError} - Invalid identity fields, an invalid normalized event, or the hook returned an invalid event
+   */
+  #beforeSend(events) {
+    const beforeSend = this.#beforeSendHook;
+    const normalize = this.#normalize;
+    if (!beforeSend && !normalize) {
+      return events;
+    }
+
+    /**
+     * @param {MeshesEventBody | null} result - The hook result
+     * @param {number} index - The event index
+     * @returns {MeshesEventBody | null}
+     */
+    const check = (result, index) => {
+      if (result === null) {
+        this.#log("Event Dropped", { event: events[index].event, index });
+        return null;
+      }
+      validateEvent(result);
+      return result;
+    };
+
+    /**
+     * @param {MeshesEventBody} event - The event to send
+     * @param {number} index - The event index
+     * @returns {MeshesEventBody | null | Promise<MeshesEventBody | null>}
+     */
+    const transform = (event, index) => {
+      if (!beforeSend) {
+        return event;
+      }
+      const result = beforeSend(event);
+      return result instanceof Promise
+        ? result.then((r) => check(r, index))
+        : check(result, index);
+    };
+
+    const results = events.map((event, index) => {
+      const copy = { ...event, payload: { ...event.payload } };
+      if (!normalize) {
+        return transform(copy, index);
+      }
+      return normalizeIdentity(copy.payload, normalize).then((result) => {
+        this.#log("Payload Normalized", {
+          event: event.event,
+          fields: result.fields,
+        });
+        if (normalize.onNormalize) {
+          try {
+            normalize.onNormalize(result, event);
+          } catch (err) {
+            this.#warn("onNormalize Error", { error: err });
+          }
+        }
+        const normalized = { ...copy, payload: result.payload };
+        // removed values may leave nothing to send
+        validateEvent(normalized);
+        return transform(normalized, index);
+      });
+    });
+    return results.some((r) => r instanceof Promise)
+      ? Promise.all(results)
+      : /** @type {(MeshesEventBody | null)[]} */ (results);
+  }
+
+  /**
+   * Run the beforeSend hook, then send the events it kept.  Hook failures,
+   * sync or async, reject the returned promise.
+   * @template T
+   * @param {MeshesEventBody[]} events - The validated events
+   * @param {(sent: (MeshesEventBody | null)[]) => Promise<T>} send - Sends the events; null for dropped events
+   * @param {boolean} [prepared] - True to send events this client already prepared as given
+   * @returns {Promise<T>} - Rejects with a MeshesValidationError if the hook returned an invalid event
+   */
+  #withBeforeSend(events, send, prepared = false) {
+    /** @type {(MeshesEventBody | null)[] | Promise<(MeshesEventBody | null)[]>} */
+    let sent;
+    try {
+      sent = prepared ? events : this.#beforeSend(events);
+    } catch (err) {
+      // a hook that throws fails like a hook that rejects
+      return Promise.reject(err);
+    }
+    return sent instanceof Promise ? sent.then(send) : send(sent);
+  }
+
+  /**
+   * Create the error for a request cancelled by the caller
+   * @param {AbortSignal} signal - The aborted caller signal
+   * @param {MeshesAttemptMeta} meta - Attempt metadata
+   * @returns {MeshesCancelledError}
+   */
+  #cancelled(signal, meta) {
+    this.#warn("Request Cancelled", { ...meta, reason: signal.reason });
+    return new MeshesCancelledError("Request Cancelled", {
+      reason: signal.reason,
+      ...meta,
+    });
+  }
+
+  /**
+   * Get the attempt metadata included in error data
+   * @param {MeshesMiddlewareRequest} request - Outgoing request
+   * @returns {MeshesAttemptMeta}
+   */
+  #attemptMeta(request) {
+    return request.idempotencyKey
+      ? { attempts: request.attempt, idempotencyKey: request.idempotencyKey }
+      : { attempts: request.attempt };
+  }
+
+  /**
+   * Run the configured validator for the event, if any
+   * @param {MeshesEventBody} event - The event to validate
+   * @param {number | undefined} index - The event index in a bulk request
+   * @returns {Promise<void> | undefined} - A promise if the validator is async
+   * @throws {MeshesValidationError} - Invalid event payload
+   */
+  #validate(event, index = undefined) {
+    if (
+      !this.#validators ||
+      !Object.prototype.hasOwnProperty.call(this.#validators, event.event)
+    ) {
+      return undefined;
+    }
+
+    /** @param {import("./index.js").MeshesValidationIssue[]} issues */
+    const check = (issues) => {
+      if (issues.length > 0) {
+        this.#log("Validation Failure", { event: event.event, issues });
+        throw new MeshesValidationError(
+          `Invalid event: ${event.event} payload failed validation`,
+          typeof index === "number"
+            ? { event, index, issues }
+            : { event, issues }
+        );
+      }
+    };
+
+    const issues = runValidator(this.#validators[event.event], event);
+    if (issues instanceof Promise) {
+      return issues.then(check);
+    }
+    check(issues);
+    return undefined;
+  }
+
+  /**
+   * Run the configured validators for the events in a bulk request
+   * @param {MeshesEventBody[]} events - The events to validate
+   * @returns {Promise<void> | undefined} - A promise if any validator is async
+   * @throws {MeshesValidationError} - Invalid event payload
+   */
+  #validateAll(events) {
+    const pending = events
+      .map((event, index) => this.#validate(event, index))
+      .filter((p) => p !== undefined);
+    return pending.length > 0
+      ? Promise.all(pending).then(() => undefined)
+      : undefined;
+  }
+
   /**
    * Clean the input headers
    * @param {Headers | undefined} headers - Request headers
@@ -227,7 +1033,7 @@ export class MeshesEventsClient {
     const cleanHeaders = {};
     for (const [key, value] of Object.entries(headers)) {
       if (typeof key !== "string" || typeof value !== "string") {
-        this.#log("Invalid Header", key, value);
+        this.#log("Invalid Header", { key, value });
         continue;
       }
 
@@ -244,40 +1050,96 @@ export class MeshesEventsClient {
     return cleanHeaders;
   }
 
+  /**
+   * Find the Idempotency-Key header sent with a request, if any
+   * @param {Headers | undefined} headers - Request headers
+   * @returns {string | undefined} - The header value
+   */
+  #idempotencyKeyHeader(headers) {
+    const cleaned = this.#cleanHeaders(headers);
+    const existing = Object.keys(cleaned).filter(
+      (k) => k.toLowerCase() === IDEMPOTENCY_KEY_HEADER.toLowerCase()
+    );
+    return existing.length > 0
+      ? cleaned[existing[existing.length - 1]]
+      : undefined;
+  }
+
+  /**
+   * Resolve the idempotency key for a logical request and set it on the headers.
+   * An explicit key wins over an Idempotency-Key header, which wins over a generated key.
+   * @param {MeshesRequestOptions} options - Request options
+   * @param {Headers} headers - Request headers (modified in place)
+   * @returns {string | undefined} - The idempotency key used, if any
+   * @throws {MeshesConfigurationError} - Invalid idempotency key
+   */
+  #applyIdempotencyKey(options, headers) {
+    const existing = Object.keys(headers).filter(
+      (k) => k.toLowerCase() === IDEMPOTENCY_KEY_HEADER.toLowerCase()
+    );
+
+    /** @type {unknown} */
+    let key = options.idempotencyKey;
+    if (typeof key === "undefined" && existing.length > 0) {
+      return headers[existing[existing.length - 1]];
+    }
+    if (key === false) {
+      return undefined;
+    }
+    if (typeof key === "undefined") {
+      if (this.#idempotencyKeyGenerator === false) {
+        return undefined;
+      }
+      key = this.#idempotencyKeyGenerator({
+        path: options.path,
+        body: options.body,
+      });
+    }
+    if (typeof key !== "string" || !key.trim()) {
+      throw new MeshesConfigurationError("Invalid idempotency key", key);
+    }
+
+    for (const k of existing) {
+      delete headers[k];
+    }
+    headers[IDEMPOTENCY_KEY_HEADER] = key.trim();
+    return key.trim();
+  }
+
   /**
    * Make an API request
    * @param {MeshesRequestOptions} options - Request options
-   * @param {CallbackAny | undefined} done - Callback function
-   * @returns {Promise<any> | undefined} - Request promise or undefined if a callback is provided
-   * @throws {MeshesApiError} - Invalid request
+   * @returns {Promise<any>} - Request promise
    */
-  #request(options, done) {
-    this.#log("Request Options", options, done ? "Callback" : "Promise");
+  #request(options) {
+    this.#log("Request Options", {
+      method: options?.method,
+      path: options?.path,
+      timeout: options?.timeout,
+      body: options?.body,
+    });
 
-    // AbortController was added in node v14.17.0 globally; if not available, don't support timeouts
-    const AbortController = globalThis.AbortController ?? undefined;
-    const controller = AbortController ? new AbortController() : undefined;
     const effectiveTimeout =
       typeof options?.timeout === "number" ? options.timeout : this.#apiTimeout;
-    const timeout = AbortController
-      ? setTimeout(() => controller?.abort(), effectiveTimeout)
-      : undefined;
-    if (controller === undefined) {
-      this.#log("AbortController", "Not Supported; Timeouts won't be enforced");
+    if (!globalThis.AbortController) {
+      this.#warn("AbortController Not Supported; Timeouts won't be enforced");
     }
 
-    const requestPromise = new Promise((resolve, reject) => {
+    return new Promise((resolve, reject) => {
       if (typeof options !== "object") {
-        this.#log("Invalid Request Options", options);
-        throw new MeshesApiError("Invalid request options", options);
+        this.#log("Invalid Request Options", { options });
+        throw new MeshesConfigurationError("Invalid request options", options);
       }
       const method = options?.method?.toUpperCase();
       if (!method || typeof method !== "string") {
-        this.#log("Invalid Request Method", options);
-        throw new MeshesApiError("Invalid request method", options);
+        this.#log("Invalid Request Method", { method: options?.method });
+        throw new MeshesConfigurationError("Invalid request method", options);
       } else if (!validMethods.includes(method)) {
-        this.#log("Invalid Request Method Option", options);
-        throw new MeshesApiError("Unsupported request method", options);
+        this.#log("Invalid Request Method Option", { method });
+        throw new MeshesConfigurationError(
+          "Unsupported request method",
+          options
+        );
       }
 
       if (
@@ -286,20 +1148,40 @@ export class MeshesEventsClient {
         options.path.trim().length === 0 ||
         options.path.trim() === "/"
       ) {
-        this.#log("Invalid Request Path", options);
-        throw new MeshesApiError("Invalid request path", options);
+        this.#log("Invalid Request Path", { path: options?.path });
+        throw new MeshesConfigurationError("Invalid request path", options);
       }
 
       if (typeof options?.timeout !== "undefined") {
         if (typeof options.timeout !== "number") {
-          this.#log("Invalid Request Timeout", options);
-          throw new MeshesApiError("Invalid request timeout", options);
+          this.#log("Invalid Request Timeout", { timeout: options.timeout });
+          throw new MeshesConfigurationError(
+            "Invalid request timeout",
+            options
+          );
         }
         if (options.timeout < 1000 || options.timeout > MAX_TIMEOUT_MS) {
-          this.#log("Unsupported Request Timeout", options);
-          throw new MeshesApiError("Unsupported request timeout", options);
+          this.#log("Unsupported Request Timeout", {
+            timeout: options.timeout,
+          });
+          throw new MeshesConfigurationError(
+            "Unsupported request timeout",
+            options
+          );
+        }
+      }
+
+      if (typeof options.signal !== "undefined") {
+        if (
+          !options.signal ||
+          typeof options.signal !== "object" ||
+          typeof options.signal.addEventListener !== "function"
+        ) {
+          this.#log("Invalid Request Signal", { signal: options.signal });
+          throw new MeshesConfigurationError("Invalid request signal", options);
         }
       }
+      const signal = options.signal;
 
       if (typeof options.query !== "undefined") {
         if (
@@ -307,95 +1189,193 @@ export class MeshesEventsClient {
           typeof options.query !== "object" ||
           Array.isArray(options.query)
         ) {
-          this.#log("Invalid Request Query Params", options);
-          throw new MeshesApiError("Invalid request query params", options);
+          this.#log("Invalid Request Query Params", { query: options.query });
+          throw new MeshesConfigurationError(
+            "Invalid request query params",
+            options
+          );
         }
       }
 
+      const retry = resolveRetryOptions(options.retry);
+
+      /** @type {Headers} */
+      const headers = {
+        ...this.#cleanHeaders(options.headers),
+        ...this.#apiHeaders,
+      };
+      const idempotencyKey = this.#applyIdempotencyKey(options, headers);
+
       try {
         const queryString = options.query
           ? // @ts-ignore
             `?${new URLSearchParams(options.query).toString()}`
           : "";
 
-        const requestOptions = this.#includeApiPublishableKey({
-          method: method,
-          headers: {
-            ...this.#cleanHeaders(options.headers),
-            ...this.#apiHeaders,
-          },
-          body: options.body
-            ? typeof options.body === "string"
-              ? options.body
-              : JSON.stringify(options.body)
-            : null,
-          signal: controller?.signal,
-        });
-
         const requestPath =
           options.path.charAt(0) !== "/" ? `/${options.path}` : options.path;
 
-        this.#log("Fetch Options", {
-          method: requestOptions.method,
+        /** @type {MeshesMiddlewareRequest} */
+        const request = {
+          url: `${this.#apiBaseUrl}${requestPath}${queryString}`,
+          method: method,
           path: requestPath,
-          query: queryString,
-        });
-        return fetch(
-          `${this.#apiBaseUrl}${requestPath}${queryString}`,
-          requestOptions
-        )
-          .then((response) => {
-            if (response.ok) {
-              readBody(response)
-                .then((data) => {
-                  this.#log("Response Success");
-                  resolve(data);
-                })
-                .catch((err) => {
-                  this.#error("Response Parsing Error", err);
-                  reject(
-                    new MeshesApiError("Error parsing response data", err)
-                  );
-                });
-            } else {
-              readBody(response)
-                .then((data) => {
-                  this.#log("Response Error", data);
-                  reject(
-                    new MeshesApiError("Meshes API request failed", {
-                      status: response.status,
-                      statusText: response.statusText,
-                      data,
-                    })
-                  );
-                })
-                .catch((err) => {
-                  this.#error("Response Parsing Failure", err);
-                  reject(
-                    new MeshesApiError("Error parsing request failure", {
-                      status: response.status,
-                      statusText: response.statusText,
-                      error: err,
-                    })
-                  );
+          headers,
+          body: options.body ?? null,
+          attempt: 1,
+          ...(idempotencyKey ? { idempotencyKey } : {}),
+        };
+
+        /** @type {MeshesRequestInfo} */
+        const info = {
+          method: method,
+          path: requestPath,
+          url: request.url,
+          ...(idempotencyKey ? { idempotencyKey } : {}),
+          eventCount: Array.isArray(options.body)
+            ? options.body.length
+            : options.body
+              ? 1
+              : 0,
+        };
+        const span = this.#startSpan(info, options.body, headers);
+        const started = Date.now();
+        let attempts = 0;
+        /** @type {number | undefined} */
+        let status;
+
+        /**
+         * Send the request, retrying retryable failures per the retry policy
+         * @param {number} attempt - The current attempt (1-based)
+         * @returns {Promise<unknown>}
+         */
+        const send = (attempt) => {
+          if (signal?.aborted) {
+            return Promise.reject(
+              this.#cancelled(
+                signal,
+                this.#attemptMeta({ ...request, attempt: attempts })
+              )
+            );
+          }
+          const circuitError = this.#circuitBreaker?.check();
+          if (circuitError) {
+            this.#log("Circuit Breaker Open", { path: requestPath });
+            return Promise.reject(circuitError);
+          }
+          attempts = attempt;
+          return this.#attempt(
+            // each attempt gets its own copy, so middleware changes don't leak
+            { ...request, headers: { ...headers }, attempt },
+            effectiveTimeout,
+            info,
+            signal
+          ).then((outcome) => {
+            status = outcome.status;
+            this.#circuitBreaker?.record(
+              outcome.error && isRetryable(defaultRetryOptions, outcome)
+                ? "failure"
+                : outcome.error && outcome.kind !== "status"
+                  ? "ignored"
+                  : "success"
+            );
+            if (!outcome.error) {
+              return idempotencyKey &&
+                outcome.data &&
+                typeof outcome.data === "object" &&
+                !Array.isArray(outcome.data)
+                ? { ...outcome.data, idempotencyKey }
+                : outcome.data;
+            }
+            if (
+              !retry ||
+              attempt >= retry.maxAttempts ||
+              !isRetryable(retry, outcome)
+            ) {
+              throw outcome.error;
+            }
+
+            let delay = getBackoffDelay(retry, attempt);
+            if (typeof outcome.retryAfter === "number") {
+              if (outcome.retryAfter > retry.maxDelay) {
+                this.#warn("Retry-After Exceeds Max Delay", {
+                  retryAfter: outcome.retryAfter,
                 });
+                throw outcome.error;
+              }
+              delay = outcome.retryAfter;
             }
-          })
-          .catch((err) => {
-            this.#error("Request Failure", err);
-            reject(new MeshesApiError("Request Failure", err));
+            this.#warn("Retrying Request", {
+              path: requestPath,
+              attempt,
+              delay,
+              error: outcome.error,
+            });
+            this.#hook("onRetry", {
+              ...info,
+              attempt,
+              delay,
+              error: outcome.error,
+            });
+            return sleep(delay, signal).then(() => throttle(attempt + 1));
           });
+        };
+
+        /**
+         * Wait for the rate limiter, if enabled, then send the request
+         * @param {number} attempt - The current attempt (1-based)
+         * @returns {Promise<unknown>}
+         */
+        const throttle = (attempt) =>
+          this.#rateLimiter
+            ? this.#rateLimiter
+                .acquire(info.eventCount, signal)
+                .then(() => send(attempt))
+            : send(attempt);
+
+        return throttle(1).then(
+          (result) => {
+            this.#endSpan(span, attempts, status);
+            this.#hook("onSuccess", {
+              ...info,
+              attempts,
+              duration: Date.now() - started,
+              ...(typeof status === "number" ? { status } : {}),
+            });
+            resolve(result);
+          },
+          (err) => {
+            this.#endSpan(span, attempts, status, err);
+            this.#hook("onError", {
+              ...info,
+              attempts,
+              duration: Date.now() - started,
+              error: err,
+            });
+            reject(err);
+          }
+        );
       } catch (err) {
-        this.#error("Unexpected Error", err);
+        this.#error("Unexpected Error", { error: err });
         reject(new MeshesApiError("Unexpected Error", err));
         throw err;
       }
-    })
+    });
+  }
+
+  /**
+   * Settle a request promise with the callback, if provided
+   * @param {Promise<any>} promise - Request promise
+   * @param {CallbackAny | undefined} done - Callback function
+   * @returns {Promise<any> | undefined} - Request promise or undefined if a callback is provided
+   */
+  #settle(promise, done) {
+    const requestPromise = promise
       .then((result) => {
-        this.#log("Promise Success", result);
+        this.#log("Promise Success", { result });
 
         if (done) {
-          this.#log("Promise Success", "Callback Success");
+          this.#log("Promise Success: Callback Success");
           done(null, result);
           return;
         }
@@ -403,90 +1383,611 @@ export class MeshesEventsClient {
         return result;
       })
       .catch((err) => {
-        this.#log("Promise Error", err);
+        this.#log("Promise Error", { error: err });
 
         if (done) {
-          this.#log("Promise Error", "Callback Error");
+          this.#log("Promise Error: Callback Error");
           done(err);
           return;
         }
 
         throw err;
-      })
-      .finally(() => {
-        if (timeout) {
-          clearTimeout(timeout);
-        }
       });
 
     if (done) {
       return undefined;
     }
-    this.#log("Promise Returned", "No callback");
+    this.#log("Promise Returned: No callback");
     return requestPromise;
   }
 
+  /**
+   * Check a bulk result for partial failures
+   * @param {MeshesEventBody[]} events - The events that were sent
+   * @param {BulkCreateEventsResult} result - The bulk result
+   * @param {boolean | undefined} failOnPartialError - If true, rejects when any event failed
+   * @returns {BulkCreateEventsResult} - The bulk result
+   * @throws {MeshesPartialFailureError} - Some events failed
+   */
+  #checkBulkResult(events, result, failOnPartialError) {
+    if (failOnPartialError !== true) {
+      return result;
+    }
+    const { failed } = partitionBulkResult(events, result);
+    if (failed.length > 0) {
+      this.#warn("Partial Failure", { failed: failed.length });
+      throw new MeshesPartialFailureError(
+        "Meshes bulk request partially failed",
+        { result, failed }
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Store the events in the outbox if the request failed with a retryable
+   * error, with the request's idempotency key so the replay reuses it
+   * @param {MeshesEventBody[]} events - The events that were sent, after normalization and the beforeSend hook
+   * @param {unknown} err - The request error
+   * @param {{ outbox?: false } | undefined} options - Request options
+   * @param {boolean} [single] - True for an emit() request
+   * @returns {Promise<never>} - Rejects with the request error
+   */
+  #storeFailed(events, err, options, single = false) {
+    if (!this.#outbox || options?.outbox === false || !isRetryableError(err)) {
+      return Promise.reject(err);
+    }
+    const data = err.data;
+    const idempotencyKey =
+      data &&
+      typeof data === "object" &&
+      "idempotencyKey" in data &&
+      typeof data.idempotencyKey === "string"
+        ? data.idempotencyKey
+        : undefined;
+    return this.#outbox.add(events, { idempotencyKey, single }).then(
+      () => {
+        if (data && typeof data === "object") {
+          Object.assign(data, { outboxed: true });
+        }
+        this.#warn("Events Stored In Outbox", { count: events.length });
+        throw err;
+      },
+      (storeErr) => {
+        this.#error("Outbox Error", { error: storeErr });
+        throw err;
+      }
+    );
+  }
+
+  /**
+   * Make a single API request attempt through the middleware chain
+   * @param {MeshesMiddlewareRequest} request - Outgoing request
+   * @param {number | undefined} timeout - Request timeout in milliseconds
+   * @param {MeshesRequestInfo} info - Request details reported to hooks
+   * @param {AbortSignal | undefined} signal - Caller signal that cancels the attempt
+   * @returns {Promise<MeshesAttemptOutcome>} - Attempt outcome; never rejects
+   */
+  #attempt(request, timeout, info, signal) {
+    // AbortController was added in node v14.17.0 globally; if not available, don't support timeouts
+    const AbortController = globalThis.AbortController ?? undefined;
+    const controller = AbortController ? new AbortController() : undefined;
+    const timer =
+      controller && timeout
+        ? setTimeout(() => controller.abort(), timeout)
+        : undefined;
+    // the caller signal aborts the same controller as the timeout
+    const onAbort = () => controller?.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const handler = composeMiddleware(
+      [
+        ...this.#middleware,
+        (request, next) => this.#includeApiPublishableKey(request, next),
+        (request, next) => this.#serializeBody(request, next),
+        (request, next) => this.#compressBody(request, next),
+        ...this.#transportMiddleware,
+        (request, next) => this.#observe(request, next, info),
+        (request, next) => this.#parseResponse(request, next),
+      ],
+      this.#mode === "live"
+        ? (request) => this.#fetch(request, signal)
+        : (request) => this.#dryRun(request)
+    );
+
+    return handler({ ...request, signal: controller?.signal ?? signal })
+      .then(
+        /**
+         * @param {MeshesMiddlewareResponse} response
+         * @returns {MeshesAttemptOutcome}
+         */
+        (response) => {
+          if (response.ok) {
+            this.#log("Response Success");
+            return { data: response.data, status: response.status };
+          }
+          this.#log("Response Error", {
+            status: response.status,
+            data: response.data,
+          });
+          const errorData = {
+            status: response.status,
+            statusText: response.statusText,
+            data: response.data,
+            ...this.#attemptMeta(request),
+          };
+          if (response.status === 429) {
+            const retryAfter = parseRateLimitReset(response.headers);
+            return {
+              error: new MeshesRateLimitError(
+                "Meshes API rate limit exceeded",
+                {
+                  ...errorData,
+                  ...(typeof retryAfter === "number"
+                    ? { retryAfterMs: retryAfter }
+                    : {}),
+                }
+              ),
+              kind: "status",
+              status: response.status,
+              retryAfter,
+            };
+          }
+          return {
+            error:
+              response.status === 401 || response.status === 403
+                ? new MeshesAuthError("Meshes API request failed", errorData)
+                : new MeshesHttpError("Meshes API request failed", errorData),
+            kind: "status",
+            status: response.status,
+            retryAfter: parseRetryAfter(response.headers?.get?.("retry-after")),
+          };
+        },
+        /** @returns {MeshesAttemptOutcome} */
+        (err) => {
+          const failure = err && attemptFailures.get(err);
+          if (failure) {
+            return { error: err, ...failure };
+          }
+          // errors thrown by middleware are not retried
+          this.#error("Middleware Error", { error: err });
+          return {
+            error:
+              err instanceof MeshesApiError
+                ? err
+                : new MeshesApiError("Middleware Error", {
+                    error: err,
+                    ...this.#attemptMeta(request),
+                  }),
+            kind: "middleware",
+          };
+        }
+      )
+      .finally(() => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener("abort", onAbort);
+      });
+  }
+
   /**
    * Create (emit) a single event
-   * @param {MeshesEventBody} event - The event to emit
-   * @param {MeshesOptionalRequestOptions} event - Request options
+   * @param {import("./index.js").MeshesEventBody<TEvents>} event - The event to emit
+   * @param {MeshesOptionalRequestOptions} options - Request options
    * @param {CallbackFunctionSingle | undefined} done - Callback function
    * @returns {Promise<CreateEventResponseSingle> | undefined} - Request promise or undefined if a callback is provided
    * @throws {MeshesApiError} - Invalid request
    */
   emit(event, options = {}, done = undefined) {
-    this.#validateEvent(event);
-    return this.#request(
-      {
-        ...this.#options,
-        ...options,
-        path: "/events",
-        method: "POST",
-        body: event,
-      },
+    const prepared = options?.prepared === true;
+    event = prepared ? event : applyContext(event, this.#defaults);
+    validateEvent(event);
+    const validation = prepared ? undefined : this.#validate(event);
+    const request = () =>
+      this.#withBeforeSend(
+        [event],
+        ([sent]) =>
+          sent === null
+            ? Promise.resolve({ dropped: true })
+            : this.#request({
+                ...this.#options,
+                ...options,
+                path: "/events",
+                method: "POST",
+                body: sent,
+              }).catch((err) => this.#storeFailed([sent], err, options, true)),
+        prepared
+      );
+    return this.#settle(
+      validation ? validation.then(request) : request(),
       done
     );
   }
 
   /**
    * Create (emit) multiple events up to 100 at a time
-   * @param {MeshesEventBody[]} events - The events to emit
-   * @param {MeshesOptionalRequestOptions} options - Request options
+   * @param {import("./index.js").MeshesEventBody<TEvents>[]} events - The events to emit
+   * @param {MeshesBulkRequestOptions} options - Request options
    * @param {CallbackFunctionBulk | undefined} done - Callback function
    * @returns {Promise<BulkCreateEventsResult> | undefined} - Request promise or undefined if a callback is provided
    * @throws {MeshesApiError} - Invalid request
    */
   emitBatch(events, options = {}, done = undefined) {
     if (!Array.isArray(events)) {
-      throw new MeshesApiError("Events must be an array", events);
+      throw invalidEvents(events, "Events must be an array");
     }
     if (events.length === 0) {
-      throw new MeshesApiError("Events array cannot be empty");
+      throw invalidEvents(events, "Events array cannot be empty");
     }
-    if (events.length > 100) {
-      throw new MeshesApiError(
-        "Bulk emit supports up to 100 events per request",
-        {
-          count: events.length,
-        }
+    if (events.length > MAX_BULK_EVENTS) {
+      throw invalidEvents(
+        events,
+        "Bulk emit supports up to 100 events per request"
       );
     }
+    const { failOnPartialError, ...requestOptions } = options ?? {};
+    const prepared = requestOptions.prepared === true;
+    if (!prepared) {
+      events = events.map((evt) => applyContext(evt, this.#defaults));
+    }
     for (const evt of events) {
-      this.#validateEvent(evt);
-    }
-    return this.#request(
-      {
-        ...this.#options,
-        ...options,
-        path: "/events/bulk",
-        method: "POST",
-        body: events,
-      },
+      validateEvent(evt);
+    }
+    const validation = prepared ? undefined : this.#validateAll(events);
+    const request = () =>
+      this.#withBeforeSend(
+        events,
+        (sent) => {
+          /** @param {BulkCreateEventsResult} result */
+          const check = (result) =>
+            this.#checkBulkResult(
+              events,
+              withDroppedRecords(sent, result),
+              failOnPartialError
+            );
+          const kept = sent.filter((evt) => evt !== null);
+          if (kept.length === 0) {
+            return Promise.resolve({ count: 0, records: [] }).then(check);
+          }
+          return this.#request({
+            ...this.#options,
+            ...requestOptions,
+            path: "/events/bulk",
+            method: "POST",
+            body: kept,
+          }).then(check, (err) => this.#storeFailed(kept, err, requestOptions));
+        },
+        prepared
+      );
+    return this.#settle(
+      validation ? validation.then(request) : request(),
+      done
+    );
+  }
+
+  /**
+   * Create (emit) any number of events, sent in chunks of up to 100 events
+   * @param {import("./index.js").MeshesEventBody<TEvents>[]} events - The events to emit
+   * @param {MeshesEmitManyOptions} options - Request options and chunk concurrency
+   * @param {CallbackFunctionBulk | undefined} done - Callback function
+   * @returns {Promise<BulkCreateEventsResult> | undefined} - Request promise or undefined if a callback is provided
+   * @throws {MeshesApiError} - Invalid request
+   */
+  emitMany(events, options = {}, done = undefined) {
+    if (!Array.isArray(events)) {
+      throw invalidEvents(events, "Events must be an array");
+    }
+    if (events.length === 0) {
+      throw invalidEvents(events, "Events array cannot be empty");
+    }
+    const {
+      concurrency = 4,
+      failOnPartialError,
+      ...requestOptions
+    } = options ?? {};
+    if (
+      !Number.isInteger(concurrency) ||
+      concurrency < 1 ||
+      concurrency > MAX_CONCURRENCY
+    ) {
+      throw new MeshesConfigurationError(
+        `Unsupported concurrency: ${concurrency}`
+      );
+    }
+    const prepared = requestOptions.prepared === true;
+    if (!prepared) {
+      events = events.map((evt) => applyContext(evt, this.#defaults));
+    }
+    for (const evt of events) {
+      validateEvent(evt);
+    }
+    const validation = prepared ? undefined : this.#validateAll(events);
+
+    /** @type {BulkCreateEventsResult["records"]} */
+    const records = new Array(events.length);
+    let count = 0;
+    let errorCount = 0;
+    let droppedCount = 0;
+    /** @type {MeshesBulkChunkFailure[]} */
+    const failures = [];
+    // each chunk is its own logical request, with a key derived from an
+    // explicit key or an Idempotency-Key header
+    const {
+      idempotencyKey = this.#idempotencyKeyHeader(requestOptions.headers),
+    } = requestOptions;
+
+    /**
+     * Send the events kept by the beforeSend hook in chunks
+     * @param {(MeshesEventBody | null)[]} sent - The events to send; null for dropped events
+     * @returns {Promise<void>}
+     */
+    const send = (sent) => {
+      // input indexes of the events to send, so records keep the input order
+      /** @type {number[][]} */
+      const chunks = [];
+      /** @type {number[]} */
+      const indexes = [];
+      sent.forEach((evt, index) => {
+        if (evt === null) {
+          records[index] = droppedRecord();
+          droppedCount++;
+        } else {
+          indexes.push(index);
+        }
+      });
+      for (let i = 0; i < indexes.length; i += MAX_BULK_EVENTS) {
+        chunks.push(indexes.slice(i, i + MAX_BULK_EVENTS));
+      }
+      this.#log("Emit Many", {
+        count: events.length,
+        chunks: chunks.length,
+        dropped: droppedCount,
+      });
+      let next = 0;
+
+      /**
+       * Send chunks one at a time until none are left
+       * @returns {Promise<void>}
+       */
+      const worker = async () => {
+        while (next < chunks.length) {
+          const index = next++;
+          const chunk = chunks[index];
+          // chunks only hold the indexes of the events kept by the hook
+          const body = chunk.flatMap((i) => sent[i] ?? []);
+          try {
+            /** @type {BulkCreateEventsResult} */
+            const result = await this.#request({
+              ...this.#options,
+              ...requestOptions,
+              ...(typeof idempotencyKey === "string"
+                ? { idempotencyKey: `${idempotencyKey}-${index}` }
+                : {}),
+              path: "/events/bulk",
+              method: "POST",
+              body,
+            });
+            const chunkRecords = Array.isArray(result?.records)
+              ? result.records
+              : [];
+            // counted from the chunk's own records, so a response with more
+            // records than events can't inflate the totals
+            chunk.forEach((inputIndex, i) => {
+              if (!chunkRecords[i]) {
+                records[inputIndex] = { message: MISSING_RECORD_MESSAGE };
+                errorCount++;
+              } else {
+                records[inputIndex] = chunkRecords[i];
+                if (isMeshesErrorResponse(chunkRecords[i])) {
+                  errorCount++;
+                } else {
+                  count++;
+                }
+              }
+            });
+          } catch (err) {
+            if (requestOptions.signal?.aborted) {
+              // cancel the whole call instead of reporting each chunk as failed
+              throw err;
+            }
+            this.#error("Emit Many Chunk Failure", {
+              chunk: index,
+              error: err,
+            });
+            await this.#storeFailed(body, err, requestOptions).catch(
+              () => undefined
+            );
+            const error =
+              err instanceof MeshesApiError
+                ? err
+                : new MeshesApiError("Request Failure", { error: err });
+            chunk.forEach((inputIndex) => {
+              records[inputIndex] = failedRecord(error);
+            });
+            failures.push({ chunk: index, indexes: chunk, error });
+            errorCount += chunk.length;
+          }
+        }
+      };
+
+      return Promise.all(
+        Array.from({ length: Math.min(concurrency, chunks.length) }, worker)
+      ).then(() => undefined);
+    };
+
+    const request = () => this.#withBeforeSend(events, send, prepared);
+    return this.#settle(
+      (validation ? validation.then(request) : request()).then(() =>
+        this.#checkBulkResult(
+          events,
+          {
+            count,
+            records,
+            error_count: errorCount,
+            ...(droppedCount > 0 ? { dropped_count: droppedCount } : {}),
+            ...(failures.length > 0
+              ? { failures: failures.sort((a, b) => a.chunk - b.chunk) }
+              : {}),
+          },
+          failOnPartialError
+        )
+      ),
       done
     );
   }
+
+  /**
+   * Add an event to the background queue, which sends events in bulk
+   * @param {import("./index.js").MeshesEventBody<TEvents>} event - The event to enqueue
+   * @returns {Promise<void>} - Resolves once the event is buffered (or dropped)
+   * @throws {MeshesApiError} - Invalid event or closed queue
+   */
+  enqueue(event) {
+    if (!this.#queue) {
+      this.#queue = new MeshesEventsQueue(this);
+    }
+    const queue = this.#queue;
+    event = applyContext(event, this.#defaults);
+    validateEvent(event);
+    const validation = this.#validate(event);
+    return validation
+      ? validation.then(() => queue.enqueue(event))
+      : queue.enqueue(event);
+  }
+
+  /**
+   * Create a lightweight client that merges the context into each event
+   * before it is validated.  Event values take precedence over the context,
+   * and the context over the `defaults` option.
+   * @param {MeshesEventContext} context - Context merged into each event
+   * @returns {MeshesScopedClient<TEvents>} - The scoped client
+   * @throws {MeshesConfigurationError} - Invalid context
+   */
+  withContext(context) {
+    return new MeshesScopedClient(this, context);
+  }
+
+  /**
+   * Add a middleware to the request chain.  Middleware run in the order they
+   * are added, once per attempt.  `request` middleware run before the
+   * built-in steps (key injection, body serialization, compression, response
+   * parsing and fetch); `transport` middleware run after key injection,
+   * serialization and compression, with the headers and body that are sent.
+   * @param {MeshesMiddleware} middleware - The middleware to add
+   * @param {MeshesMiddlewareOptions} [options] - Where the middleware runs
+   * @returns {this} - The client, for chaining
+   * @throws {MeshesConfigurationError} - Invalid middleware or options
+   */
+  use(middleware, options = {}) {
+    if (typeof middleware !== "function") {
+      throw new MeshesConfigurationError(
+        `Invalid middleware: ${typeof middleware}`
+      );
+    }
+    const { stage = "request" } = options ?? {};
+    if (!validMiddlewareStages.includes(stage)) {
+      throw new MeshesConfigurationError(
+        `Unsupported middleware stage: ${stage}`
+      );
+    }
+    (stage === "transport" ? this.#transportMiddleware : this.#middleware).push(
+      middleware
+    );
+    return this;
+  }
+
+  /**
+   * The outbox that stores events that failed to send, if enabled
+   * @returns {MeshesOutbox | undefined}
+   */
+  get outbox() {
+    return this.#outbox;
+  }
+
+  /**
+   * The circuit breaker state, if enabled
+   * @returns {"closed" | "open" | "half-open" | undefined}
+   */
+  get circuitState() {
+    return this.#circuitBreaker?.state;
+  }
+
+  /**
+   * The client mode
+   * @returns {MeshesMode}
+   */
+  get mode() {
+    return this.#mode;
+  }
+
+  /**
+   * Requests that would have been sent, in record mode
+   * @returns {MeshesRecordedRequest[]}
+   */
+  get recordedRequests() {
+    return [...this.#recordedRequests];
+  }
+
+  /**
+   * Clear the recorded requests
+   * @returns {void}
+   */
+  clearRecordedRequests() {
+    this.#recordedRequests = [];
+  }
+
+  /**
+   * Send all events in the background queue
+   * @returns {Promise<void>} - Resolves once the queue is drained
+   */
+  flush() {
+    return this.#queue ? this.#queue.flush() : Promise.resolve();
+  }
+
+  /**
+   * Close the background queue and send all remaining events, then stop the outbox and the page unload listeners
+   * @returns {Promise<void>} - Resolves once the queue is drained
+   */
+  close() {
+    this.#removeUnloadListener();
+    return (this.#queue ? this.#queue.close() : Promise.resolve()).then(() =>
+      this.#outbox ? this.#outbox.close() : undefined
+    );
+  }
 }
 
 export default MeshesEventsClient;
 
-export { MeshesApiError };
+export {
+  MeshesApiError,
+  MeshesPartialFailureError,
+  MeshesValidationError,
+  MeshesCircuitOpenError,
+  MeshesRateLimitError,
+  MeshesConfigurationError,
+  MeshesTimeoutError,
+  MeshesNetworkError,
+  MeshesCancelledError,
+  MeshesHttpError,
+  MeshesAuthError,
+  MeshesParseError,
+  MeshesEventsQueue,
+  MeshesScopedClient,
+  MeshesOutbox,
+  MeshesFileOutboxStorage,
+  MeshesMemoryOutboxStorage,
+  isMeshesEvent,
+  isMeshesErrorResponse,
+  partitionBulkResult,
+  createRequestEmitter,
+  meshesExpress,
+  meshesFastify,
+  withMeshes,
+  normalizeIdentity,
+  normalizeEmail,
+  normalizePhone,
+  normalizeName,
+  normalizeIpAddress,
+  hashIdentity,
+};
@@ -0,0 +1,576 @@
+"use strict";
+
+/** @typedef {import("./index.js").MeshesEvent} MeshesEvent */
+/** @typedef {import("./index.js").MeshesEventBody<any>} MeshesEventBody */
+/** @typedef {import("./index.js").MeshesErrorResponse} MeshesErrorResponse */
+/** @typedef {import("./index.js").MeshesFakeServerOptions} MeshesFakeServerOptions */
+/** @typedef {import("./index.js").MeshesFakeFailure} MeshesFakeFailure */
+/** @typedef {import("./index.js").MeshesFakeRequest} MeshesFakeRequest */
+
+/**
+ * Response from the fake server, or a connection failure
+ * @typedef {{ status: number, headers?: Record<string, string>, body: unknown } | { failure: "timeout" | "network" }} FakeResponse
+ */
+
+import { MAX_BULK_EVENTS } from "./lib/bulk.js";
+import { MeshesConfigurationError } from "./lib/errors.js";
+import { randomUUID } from "./lib/helpers.js";
+
+/**
+ * Meshes Fake Server Options
+ * @type {Required<Pick<MeshesFakeServerOptions, "workspace">>}
+ * @constant
+ */
+const defaultFakeServerOptions = {
+  workspace: "ws_test",
+};
+
+/**
+ * Valid scripted failure types
+ * @type {string[]}
+ * @constant
+ */
+const validFailureTypes = [
+  "http",
+  "rate_limit",
+  "timeout",
+  "network",
+  "partial",
+];
+
+/**
+ * Check an event body, like the Meshes API does
+ * @param {unknown} event - The event body
+ * @returns {string | undefined} - The error message, if the event is invalid
+ */
+const invalidEvent = (event) => {
+  if (!event || typeof event !== "object" || Array.isArray(event)) {
+    return "Invalid event";
+  }
+  const { event: name, payload } = /** @type {Record<string, unknown>} */ (
+    event
+  );
+  if (typeof name !== "string" || name.length === 0) {
+    return "Missing event";
+  }
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return "Missing payload";
+  }
+  return undefined;
+};
+
+/**
+ * Create an error response
+ * @param {number} status - HTTP status
+ * @param {string} message - Error message
+ * @param {Record<string, string>} [headers] - Response headers
+ * @returns {FakeResponse}
+ */
+const errorResponse = (status, message, headers) => ({
+  status,
+  headers,
+  body: /** @type {MeshesErrorResponse} */ ({ message }),
+});
+
+/**
+ * Parse a request body as JSON, if possible
+ * @param {unknown} body - Request body
+ * @returns {unknown}
+ */
+const parseBody = (body) => {
+  if (typeof body !== "string") {
+    return body ?? null;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+/**
+ * Read a request body, decompressing it per its `Content-Encoding`
+ * @param {Uint8Array} bytes - Request body
+ * @param {string | undefined} encoding - Content encoding
+ * @returns {Promise<string | null>} - The body text; null if it can't be decompressed
+ */
+const decodeBody = async (bytes, encoding) => {
+  if (encoding !== "gzip" && encoding !== "deflate") {
+    return new TextDecoder().decode(bytes);
+  }
+  const zlib = await import("node:zlib");
+  try {
+    const decoded =
+      encoding === "gzip" ? zlib.gunzipSync(bytes) : zlib.inflateSync(bytes);
+    return decoded.toString("utf8");
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Get the API path of a request URL, without the `/api/<version>` prefix
+ * @param {string} url - Request URL
+ * @returns {string}
+ */
+const apiPath = (url) =>
+  new URL(url, "http://localhost").pathname.replace(/^\/api\/[^/]+/, "");
+
+/**
+ * The error `fetch` rejects with once the request is aborted
+ * @param {AbortSignal} [signal] - The request signal
+ * @returns {unknown}
+ */
+const abortError = (signal) =>
+  signal?.reason ??
+  new DOMException("This operation was aborted", "AbortError");
+
+/**
+ * Meshes Fake Server - in-memory Meshes ingestion API for tests.  Handles
+ * `POST /events` and `POST /events/bulk` in-process through `fetch`, or on a
+ * local port.
+ * @class
+ */
+export class MeshesFakeServer {
+  #options;
+  /** @type {MeshesEventBody[]} */
+  #events = [];
+  /** @type {MeshesFakeRequest[]} */
+  #requests = [];
+  /** @type {MeshesFakeFailure[]} */
+  #failures = [];
+  /** @type {Map<string, FakeResponse>} */
+  #idempotent = new Map();
+  /** @type {import("node:http").Server | undefined} */
+  #server;
+  /** @type {typeof fetch | undefined} */
+  #originalFetch;
+
+  /**
+   * Create the Meshes Fake Server.
+   * @param {MeshesFakeServerOptions} options - Fake server options
+   * @constructor - Meshes Fake Server constructor
+   * @throws {MeshesConfigurationError} - Invalid fake server options
+   */
+  constructor(options = {}) {
+    if (!options || typeof options !== "object" || Array.isArray(options)) {
+      throw new MeshesConfigurationError(
+        `Invalid fake server options object: ${typeof options}`,
+        options
+      );
+    }
+    const serverOptions = { ...defaultFakeServerOptions, ...options };
+    for (const key of /** @type {const} */ (["publishableKey", "workspace"])) {
+      if (
+        typeof serverOptions[key] !== "undefined" &&
+        (typeof serverOptions[key] !== "string" || !serverOptions[key])
+      ) {
+        throw new MeshesConfigurationError(
+          `Invalid fake server ${key}: ${serverOptions[key]}`
+        );
+      }
+    }
+    this.#options = serverOptions;
+  }
+
+  /**
+   * Events created by the server, in order
+   * @returns {MeshesEventBody[]}
+   */
+  get events() {
+    return [...this.#events];
+  }
+
+  /**
+   * All requests received by the server, including failed ones
+   * @returns {MeshesFakeRequest[]}
+   */
+  get requests() {
+    return [...this.#requests];
+  }
+
+  /**
+   * `fetch`-compatible function handled in-process by the server
+   * @returns {typeof fetch}
+   */
+  get fetch() {
+    return this.#fetch;
+  }
+
+  /**
+   * Fail the next requests
+   * @param {MeshesFakeFailure} failure - The failure
+   * @param {number} times - Number of requests to fail
+   * @returns {this}
+   * @throws {MeshesConfigurationError} - Invalid failure
+   */
+  fail(failure, times = 1) {
+    if (
+      !failure ||
+      typeof failure !== "object" ||
+      !validFailureTypes.includes(failure.type)
+    ) {
+      throw new MeshesConfigurationError(
+        "Invalid fake server failure",
+        failure
+      );
+    }
+    if (
+      failure.type === "http" &&
+      (!Number.isInteger(failure.status) ||
+        failure.status < 400 ||
+        failure.status > 599)
+    ) {
+      throw new MeshesConfigurationError(
+        `Unsupported fake server failure status: ${failure.status}`
+      );
+    }
+    if (failure.type === "partial" && !Array.isArray(failure.indexes)) {
+      throw new MeshesConfigurationError(
+        "Invalid fake server failure indexes",
+        failure
+      );
+    }
+    if (!Number.isInteger(times) || times < 1) {
+      throw new MeshesConfigurationError(
+        `Unsupported fake server failure times: ${times}`
+      );
+    }
+    for (let i = 0; i < times; i++) {
+      this.#failures.push(failure);
+    }
+    return this;
+  }
+
+  /**
+   * Clear recorded requests and events, scripted failures and idempotency keys
+   * @returns {void}
+   */
+  reset() {
+    this.#events = [];
+    this.#requests = [];
+    this.#failures = [];
+    this.#idempotent.clear();
+  }
+
+  /**
+   * Replace the global `fetch` with the in-process server
+   * @returns {() => void} - Restores the original `fetch`
+   */
+  install() {
+    if (!this.#originalFetch) {
+      this.#originalFetch = globalThis.fetch;
+      globalThis.fetch = this.#fetch;
+    }
+    return () => this.#uninstall();
+  }
+
+  /**
+   * Listen on a local port
+   * @param {number} port - Port to listen on; a free port by default
+   * @returns {Promise<string>} - The API base URL to use as `apiBaseUrl`
+   */
+  async listen(port = 0) {
+    if (this.#server) {
+      throw new MeshesConfigurationError("Fake server is already listening");
+    }
+    const { createServer } = await import("node:http");
+    const server = createServer((req, res) => this.#serve(req, res));
+    await new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => resolve(undefined));
+    });
+    this.#server = server;
+    const address = /** @type {import("node:net").AddressInfo} */ (
+      server.address()
+    );
+    return `http://127.0.0.1:${address.port}/api/v1`;
+  }
+
+  /**
+   * Stop listening and restore the global `fetch`, if installed
+   * @returns {Promise<void>}
+   */
+  close() {
+    this.#uninstall();
+    const server = this.#server;
+    this.#server = undefined;
+    if (!server) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      server.close(() => resolve());
+      // hung (timed out) requests would keep the server open
+      server.closeAllConnections?.();
+    });
+  }
+
+  /**
+   * Handle a request in-process
+   * @param {Parameters<typeof fetch>[0]} input - Request URL
+   * @param {RequestInit} [init] - Request options
+   * @returns {Promise<Response>}
+   */
+  #fetch = (input, init = {}) => {
+    const signal = init.signal ?? undefined;
+    if (signal?.aborted) {
+      return Promise.reject(abortError(signal));
+    }
+    const url =
+      typeof input === "string"
+        ? input
+        : input instanceof URL
+          ? input.href
+          : input.url;
+    /** @type {Record<string, string>} */
+    const headers = {};
+    new Headers(init.headers).forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    /** @type {Omit<MeshesFakeRequest, "body">} */
+    const request = {
+      method: (init.method ?? "GET").toUpperCase(),
+      path: apiPath(url),
+      headers,
+    };
+    if (ArrayBuffer.isView(init.body)) {
+      const { buffer, byteOffset, byteLength } = init.body;
+      return decodeBody(
+        new Uint8Array(buffer, byteOffset, byteLength),
+        headers["content-encoding"]
+      ).then((body) =>
+        this.#respond({ ...request, body: parseBody(body) }, signal)
+      );
+    }
+    return this.#respond({ ...request, body: parseBody(init.body) }, signal);
+  };
+
+  /**
+   * Handle an in-process request and create its fetch response
+   * @param {MeshesFakeRequest} request - The request
+   * @param {AbortSignal | undefined} signal - The request signal
+   * @returns {Promise<Response>}
+   */
+  #respond(request, signal) {
+    const response = this.#handle(request);
+    if ("failure" in response) {
+      if (response.failure === "network") {
+        return Promise.reject(new TypeError("fetch failed"));
+      }
+      return new Promise((_, reject) => {
+        signal?.addEventListener("abort", () => reject(abortError(signal)), {
+          once: true,
+        });
+      });
+    }
+    return Promise.resolve(
+      new Response(JSON.stringify(response.body), {
+        status: response.status,
+        headers: { "Content-Type": "application/json", ...response.headers },
+      })
+    );
+  }
+
+  /**
+   * Handle a request on the local port
+   * @param {import("node:http").IncomingMessage} req - The request
+   * @param {import("node:http").ServerResponse} res - The response
+   * @returns {void}
+   */
+  #serve(req, res) {
+    /** @type {Buffer[]} */
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", async () => {
+      /** @type {Record<string, string>} */
+      const headers = {};
+      for (const [key, value] of Object.entries(req.headers)) {
+        if (typeof value !== "undefined") {
+          headers[key] = Array.isArray(value) ? value.join(", ") : value;
+        }
+      }
+
+      const response = this.#handle({
+        method: req.method ?? "GET",
+        path: apiPath(req.url ?? "/"),
+        headers,
+        body: chunks.length
+          ? parseBody(
+              await decodeBody(
+                Buffer.concat(chunks),
+                headers["content-encoding"]
+              )
+            )
+          : null,
+      });
+      if ("failure" in response) {
+        // a timeout never responds; the client closes the connection
+        if (response.failure === "network") {
+          req.socket.destroy();
+        }
+        return;
+      }
+      res.writeHead(response.status, {
+        "Content-Type": "application/json",
+        ...response.headers,
+      });
+      res.end(JSON.stringify(response.body));
+    });
+  }
+
+  /**
+   * Record a request and create its response
+   * @param {MeshesFakeRequest} request - The request
+   * @returns {FakeResponse}
+   */
+  #handle(request) {
+    this.#requests.push(request);
+
+    const failure = this.#failures.shift();
+    switch (failure?.type) {
+      case "timeout":
+      case "network":
+        return { failure: failure.type };
+      case "http":
+        return {
+          status: failure.status,
+          headers: failure.headers,
+          body: failure.body ?? { message: "Fake Meshes server failure" },
+        };
+      case "rate_limit":
+        return errorResponse(
+          429,
+          "Too Many Requests",
+          typeof failure.retryAfter === "number"
+            ? { "Retry-After": String(failure.retryAfter) }
+            : undefined
+        );
+    }
+
+    const route = request.path.endsWith("/events/bulk")
+      ? "bulk"
+      : request.path.endsWith("/events")
+        ? "single"
+        : undefined;
+    if (!route) {
+      return errorResponse(404, "Not Found");
+    }
+    if (request.method !== "POST") {
+      return errorResponse(405, "Method Not Allowed");
+    }
+    const publishableKey = request.headers["x-meshes-publishable-key"];
+    if (
+      !publishableKey ||
+      (this.#options.publishableKey &&
+        publishableKey !== this.#options.publishableKey)
+    ) {
+      return errorResponse(401, "Unauthorized");
+    }
+
+    // replayed requests get the original response, without creating events again
+    const idempotencyKey = request.headers["idempotency-key"];
+    const cacheKey = idempotencyKey && `${route}:${idempotencyKey}`;
+    const cached = cacheKey ? this.#idempotent.get(cacheKey) : undefined;
+    if (cached) {
+      return cached;
+    }
+
+    const rejected = failure?.type === "partial" ? failure : undefined;
+    const response =
+      route === "bulk"
+        ? this.#createMany(request.body, rejected)
+        : this.#createOne(request.body, rejected);
+    if (cacheKey && "status" in response && response.status < 300) {
+      this.#idempotent.set(cacheKey, response);
+    }
+    return response;
+  }
+
+  /**
+   * Create a single event
+   * @param {unknown} body - Request body
+   * @param {Extract<MeshesFakeFailure, { type: "partial" }>} [rejected] - Scripted rejection
+   * @returns {FakeResponse}
+   */
+  #createOne(body, rejected) {
+    const invalid = invalidEvent(body);
+    if (invalid) {
+      return errorResponse(400, invalid);
+    }
+    if (rejected?.indexes.includes(0)) {
+      return errorResponse(400, rejected.message ?? "Event rejected");
+    }
+    return {
+      status: 201,
+      body: { event: this.#create(/** @type {MeshesEventBody} */ (body)) },
+    };
+  }
+
+  /**
+   * Create events in bulk; invalid events are rejected individually
+   * @param {unknown} body - Request body
+   * @param {Extract<MeshesFakeFailure, { type: "partial" }>} [rejected] - Scripted rejections
+   * @returns {FakeResponse}
+   */
+  #createMany(body, rejected) {
+    if (!Array.isArray(body) || body.length === 0) {
+      return errorResponse(400, "Invalid events");
+    }
+    if (body.length > MAX_BULK_EVENTS) {
+      return errorResponse(
+        400,
+        `Too many events: a maximum of ${MAX_BULK_EVENTS} is allowed`
+      );
+    }
+
+    /** @type {(MeshesEvent | MeshesErrorResponse)[]} */
+    const records = body.map((event, index) => {
+      const invalid = invalidEvent(event);
+      if (invalid) {
+        return { message: invalid };
+      }
+      if (rejected?.indexes.includes(index)) {
+        return { message: rejected.message ?? "Event rejected" };
+      }
+      return this.#create(event);
+    });
+    const count = records.filter((r) => "id" in r).length;
+    return {
+      status: 201,
+      body: { count, records, error_count: body.length - count },
+    };
+  }
+
+  /**
+   * Record an event and create its Meshes event record
+   * @param {MeshesEventBody} event - The event
+   * @returns {MeshesEvent}
+   */
+  #create(event) {
+    this.#events.push(event);
+    return {
+      type: "event",
+      event: event.event,
+      id: randomUUID(),
+      workspace: this.#options.workspace,
+      created_by: "publishable_key",
+      created_at: new Date().toISOString(),
+      resource: event.resource ?? "global",
+      ...(event.resource_id ? { resource_id: event.resource_id } : {}),
+    };
+  }
+
+  /**
+   * Restore the global `fetch`, if installed
+   * @returns {void}
+   */
+  #uninstall() {
+    if (this.#originalFetch) {
+      globalThis.fetch = this.#originalFetch;
+      this.#originalFetch = undefined;
+    }
+  }
+}
+
+export default MeshesFakeServer;
@@ -1,4 +1,67 @@
-import MeshesEventsClient, { MeshesApiError } from "./client.js";
+import MeshesEventsClient, {
+  MeshesApiError,
+  MeshesPartialFailureError,
+  MeshesValidationError,
+  MeshesCircuitOpenError,
+  MeshesRateLimitError,
+  MeshesConfigurationError,
+  MeshesTimeoutError,
+  MeshesNetworkError,
+  MeshesCancelledError,
+  MeshesHttpError,
+  MeshesAuthError,
+  MeshesParseError,
+  MeshesEventsQueue,
+  MeshesScopedClient,
+  MeshesOutbox,
+  MeshesFileOutboxStorage,
+  MeshesMemoryOutboxStorage,
+  isMeshesEvent,
+  isMeshesErrorResponse,
+  partitionBulkResult,
+  createRequestEmitter,
+  meshesExpress,
+  meshesFastify,
+  withMeshes,
+  normalizeIdentity,
+  normalizeEmail,
+  normalizePhone,
+  normalizeName,
+  normalizeIpAddress,
+  hashIdentity,
+} from "./client.js";
 
-export { MeshesEventsClient, MeshesApiError };
+export {
+  MeshesEventsClient,
+  MeshesApiError,
+  MeshesPartialFailureError,
+  MeshesValidationError,
+  MeshesCircuitOpenError,
+  MeshesRateLimitError,
+  MeshesConfigurationError,
+  MeshesTimeoutError,
+  MeshesNetworkError,
+  MeshesCancelledError,
+  MeshesHttpError,
+  MeshesAuthError,
+  MeshesParseError,
+  MeshesEventsQueue,
+  MeshesScopedClient,
+  MeshesOutbox,
+  MeshesFileOutboxStorage,
+  MeshesMemoryOutboxStorage,
+  isMeshesEvent,
+  isMeshesErrorResponse,
+  partitionBulkResult,
+  createRequestEmitter,
+  meshesExpress,
+  meshesFastify,
+  withMeshes,
+  normalizeIdentity,
+  normalizeEmail,
+  normalizePhone,
+  normalizeName,
+  normalizeIpAddress,
+  hashIdentity,
+};
 export default MeshesEventsClient;
@@ -1,9 +1,43 @@
-export { MeshesEventsClient, MeshesApiError } from "./client.js";
+export {
+  MeshesEventsClient,
+  MeshesApiError,
+  MeshesPartialFailureError,
+  MeshesValidationError,
+  MeshesCircuitOpenError,
+  MeshesRateLimitError,
+  MeshesConfigurationError,
+  MeshesTimeoutError,
+  MeshesNetworkError,
+  MeshesCancelledError,
+  MeshesHttpError,
+  MeshesAuthError,
+  MeshesParseError,
+  MeshesEventsQueue,
+  MeshesScopedClient,
+  MeshesOutbox,
+  MeshesFileOutboxStorage,
+  MeshesMemoryOutboxStorage,
+  isMeshesEvent,
+  isMeshesErrorResponse,
+  partitionBulkResult,
+  createRequestEmitter,
+  meshesExpress,
+  meshesFastify,
+  withMeshes,
+  normalizeIdentity,
+  normalizeEmail,
+  normalizePhone,
+  normalizeName,
+  normalizeIpAddress,
+  hashIdentity,
+} from "./client.js";
 export { default } from "./client.js";
 
 export type {
   MeshesEvent,
   MeshesErrorResponse,
+  MeshesDroppedRecord,
+  MeshesDroppedResponse,
   CreateEventResponseSingle,
   BulkCreateEventsResult,
   CallbackFunction,
@@ -12,6 +46,75 @@ export type {
   MeshesOptions,
   MeshesOptionalRequestOptions,
   MeshesRequestOptions,
+  MeshesBulkRequestOptions,
+  MeshesEmitManyOptions,
+  MeshesBulkSuccess,
+  MeshesBulkFailure,
+  MeshesBulkChunkFailure,
+  MeshesBulkDropped,
+  MeshesBulkOutcomes,
+  MeshesRetryOptions,
+  MeshesRetryErrorKind,
+  IdempotencyKeyGenerator,
+  MeshesQueueOptions,
+  MeshesQueueOverflow,
+  MeshesErrorCode,
+  MeshesCircuitBreakerOptions,
+  MeshesCircuitState,
+  MeshesRateLimitOptions,
+  MeshesOutboxOptions,
+  MeshesOutboxStorage,
+  MeshesOutboxEntry,
+  MeshesOutboxRequest,
+  MeshesOutboxDropReason,
   MeshesEventPayload,
   MeshesEventBody,
+  MeshesEventCatalog,
+  MeshesValidationIssue,
+  MeshesValidatorFunction,
+  MeshesValidatorSchema,
+  MeshesValidator,
+  MeshesValidators,
+  MeshesMiddleware,
+  MeshesMiddlewareNext,
+  MeshesMiddlewareOptions,
+  MeshesMiddlewareRequest,
+  MeshesMiddlewareResponse,
+  MeshesMiddlewareStage,
+  MeshesLogger,
+  MeshesLogFunction,
+  MeshesLogLevel,
+  MeshesTracer,
+  MeshesSpan,
+  MeshesSpanContext,
+  MeshesHooks,
+  MeshesRequestInfo,
+  MeshesAttemptInfo,
+  MeshesResponseInfo,
+  MeshesRetryInfo,
+  MeshesErrorInfo,
+  MeshesSuccessInfo,
+  MeshesCompressionEncoding,
+  MeshesCompressionOptions,
+  MeshesFetch,
+  MeshesUnloadOptions,
+  MeshesFetchInit,
+  MeshesFetchResponse,
+  MeshesTransport,
+  MeshesTransportRequest,
+  MeshesMode,
+  MeshesRecordedRequest,
+  MeshesEventContext,
+  MeshesBeforeSend,
+  MeshesIdentityField,
+  MeshesIdentityFieldResult,
+  MeshesNormalizeOptions,
+  MeshesNormalizeResult,
+  MeshesRequestContext,
+  MeshesRequestEmitter,
+  MeshesIntegrationOptions,
+  MeshesFastifyOptions,
+  MeshesFakeServerOptions,
+  MeshesFakeFailure,
+  MeshesFakeRequest,
 } from "./types.js";
@@ -0,0 +1,342 @@
+"use strict";
+
+/** @typedef {import("./index.js").MeshesEventBody<any>} MeshesEventBody */
+/** @typedef {import("./index.js").MeshesOptionalRequestOptions} MeshesOptionalRequestOptions */
+/** @typedef {import("./index.js").MeshesBulkRequestOptions} MeshesBulkRequestOptions */
+/** @typedef {import("./index.js").MeshesRequestContext} MeshesRequestContext */
+/** @typedef {import("./index.js").MeshesRequestEmitter<any>} MeshesRequestEmitter */
+/** @typedef {import("./index.js").MeshesIntegrationOptions} MeshesIntegrationOptions */
+/** @typedef {import("./client.js").MeshesEventsClient<any>} MeshesEventsClient */
+
+import { MeshesConfigurationError } from "./lib/errors.js";
+import { randomUUID } from "./lib/helpers.js";
+
+/**
+ * Header sent with the request ID
+ * @type {string}
+ * @constant
+ */
+const REQUEST_ID_HEADER = "X-Request-Id";
+
+/**
+ * Default integration options
+ * @type {Required<MeshesIntegrationOptions>}
+ * @constant
+ */
+export const defaultIntegrationOptions = {
+  requestIdHeader: "x-request-id",
+  flushBeforeResponse: true,
+};
+
+/**
+ * Validate the client and resolve the integration options
+ * @param {unknown} client - Meshes events client
+ * @param {unknown} options - Integration options
+ * @returns {Required<MeshesIntegrationOptions>} - The resolved options
+ * @throws {MeshesConfigurationError} - Invalid client or options
+ */
+export const resolveIntegrationOptions = (client, options) => {
+  if (
+    !client ||
+    typeof client !== "object" ||
+    !("emit" in client) ||
+    typeof client.emit !== "function"
+  ) {
+    throw new MeshesConfigurationError(
+      "Integrations require a MeshesEventsClient",
+      client
+    );
+  }
+  if (
+    typeof options !== "undefined" &&
+    (!options || typeof options !== "object" || Array.isArray(options))
+  ) {
+    throw new MeshesConfigurationError(
+      `Invalid integration options: ${typeof options}`,
+      options
+    );
+  }
+  /** @type {Required<MeshesIntegrationOptions>} */
+  const resolved = { ...defaultIntegrationOptions };
+  const { requestIdHeader, flushBeforeResponse } =
+    /** @type {MeshesIntegrationOptions} */ (options ?? {});
+  if (typeof requestIdHeader !== "undefined") {
+    if (typeof requestIdHeader !== "string" || !requestIdHeader.trim()) {
+      throw new MeshesConfigurationError(
+        `Invalid request ID header: ${requestIdHeader}`
+      );
+    }
+    resolved.requestIdHeader = requestIdHeader.trim().toLowerCase();
+  }
+  if (typeof flushBeforeResponse !== "undefined") {
+    if (typeof flushBeforeResponse !== "boolean") {
+      throw new MeshesConfigurationError(
+        `Invalid flushBeforeResponse option: ${typeof flushBeforeResponse}`
+      );
+    }
+    resolved.flushBeforeResponse = flushBeforeResponse;
+  }
+  return resolved;
+};
+
+/**
+ * Read the first value of a Node.js request header
+ * @param {any} headers - Incoming request headers
+ * @param {string} name - Lower case header name
+ * @returns {string | undefined} - The header value
+ */
+const nodeHeader = (headers, name) => {
+  const value = headers?.[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === "string" && first ? first : undefined;
+};
+
+/**
+ * Read the request context from a Node.js request, such as Express or Fastify
+ * @param {any} req - Incoming request
+ * @param {Required<MeshesIntegrationOptions>} options - Integration options
+ * @returns {MeshesRequestContext} - The request context
+ */
+export const nodeRequestContext = (req, options) => ({
+  requestId:
+    nodeHeader(req?.headers, options.requestIdHeader) ??
+    (typeof req?.id === "string" && req.id ? req.id : randomUUID()),
+  ipAddress: req?.ip ?? req?.socket?.remoteAddress ?? undefined,
+  userAgent: nodeHeader(req?.headers, "user-agent"),
+});
+
+/**
+ * Read the request context from a fetch API request, such as Next.js
+ * @param {Request & { ip?: string }} request - Incoming request
+ * @param {Required<MeshesIntegrationOptions>} options - Integration options
+ * @returns {MeshesRequestContext} - The request context
+ */
+export const fetchRequestContext = (request, options) => {
+  const headers = request.headers;
+  const forwardedFor = headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return {
+    requestId: headers.get(options.requestIdHeader) || randomUUID(),
+    ipAddress:
+      request.ip || forwardedFor || headers.get("x-real-ip") || undefined,
+    userAgent: headers.get("user-agent") || undefined,
+  };
+};
+
+/**
+ * Add the request context to an event payload.  Payload values take
+ * precedence.
+ * @param {MeshesEventBody} event - The event to emit
+ * @param {MeshesRequestContext} context - The request context
+ * @returns {MeshesEventBody} - The event with the request context
+ */
+const withContext = (event, context) => {
+  const payload = event?.payload;
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return event;
+  }
+  return {
+    ...event,
+    payload: {
+      ...(context.ipAddress ? { ip_address: context.ipAddress } : {}),
+      ...(context.userAgent ? { user_agent: context.userAgent } : {}),
+      ...payload,
+    },
+  };
+};
+
+/**
+ * Add the request ID header to the request options.  Request headers take
+ * precedence.
+ * @template {MeshesOptionalRequestOptions} T
+ * @param {T} options - Request options
+ * @param {MeshesRequestContext} context - The request context
+ * @returns {T} - The request options with the request ID header
+ */
+const withRequestId = (options, context) => {
+  if (!context.requestId) {
+    return options;
+  }
+  const headers = options.headers ?? {};
+  const exists = Object.keys(headers).some(
+    (k) => k.toLowerCase() === REQUEST_ID_HEADER.toLowerCase()
+  );
+  return exists
+    ? options
+    : {
+        ...options,
+        headers: { [REQUEST_ID_HEADER]: context.requestId, ...headers },
+      };
+};
+
+/**
+ * Create an emitter that adds the request context to the events sent for a
+ * request, and can wait for them before the response is sent
+ * @param {MeshesEventsClient} client - Meshes events client
+ * @param {MeshesRequestContext} context - The request context
+ * @returns {MeshesRequestEmitter} - The request-scoped emitter
+ */
+export const createRequestEmitter = (client, context = {}) => {
+  /** @type {Set<Promise<unknown>>} */
+  const pending = new Set();
+
+  /**
+   * Track a send until it settles
+   * @template T
+   * @param {Promise<T>} promise - The send
+   * @returns {Promise<T>} - The same send
+   */
+  const track = (promise) => {
+    pending.add(promise);
+    const settled = () => pending.delete(promise);
+    promise.then(settled, settled);
+    return promise;
+  };
+
+  return {
+    context,
+    emit(event, options = {}) {
+      return track(
+        /** @type {Promise<any>} */ (
+          client.emit(
+            withContext(event, context),
+            withRequestId(options, context)
+          )
+        )
+      );
+    },
+    emitBatch(events, options = {}) {
+      return track(
+        /** @type {Promise<any>} */ (
+          client.emitBatch(
+            Array.isArray(events)
+              ? events.map((event) => withContext(event, context))
+              : events,
+            withRequestId(options, context)
+          )
+        )
+      );
+    },
+    async flush() {
+      // sends may start while waiting
+      while (pending.size > 0) {
+        await Promise.allSettled([...pending]);
+      }
+    },
+  };
+};
+
+/**
+ * Express middleware that attaches a request-scoped emitter as `req.meshes`.
+ * Pending sends finish before the response ends.
+ * @param {MeshesEventsClient} client - Meshes events client
+ * @param {MeshesIntegrationOptions | undefined} options - Integration options
+ * @returns {(req: any, res: any, next: (err?: unknown) => void) => void} - Express middleware
+ * @throws {MeshesConfigurationError} - Invalid client or options
+ */
+export const meshesExpress = (client, options = undefined) => {
+  const resolved = resolveIntegrationOptions(client, options);
+  return (req, res, next) => {
+    const meshes = createRequestEmitter(
+      client,
+      nodeRequestContext(req, resolved)
+    );
+    req.meshes = meshes;
+    if (resolved.flushBeforeResponse && typeof res?.end === "function") {
+      const end = res.end;
+      /** @param {...unknown} args */
+      res.end = function (...args) {
+        res.end = end;
+        meshes.flush().then(() => end.apply(res, args));
+        return res;
+      };
+    }
+    next();
+  };
+};
+
+/**
+ * Fastify plugin that decorates requests with a request-scoped emitter as
+ * `request.meshes`.  Pending sends finish before the response is sent.
+ * @param {any} fastify - Fastify instance
+ * @param {MeshesIntegrationOptions & { client: MeshesEventsClient }} options - Plugin options
+ * @param {(err?: Error) => void} done - Plugin callback
+ * @returns {void}
+ * @throws {MeshesConfigurationError} - Invalid client or options
+ */
+export const meshesFastify = (fastify, options, done) => {
+  const { client, ...rest } = options ?? {};
+  const resolved = resolveIntegrationOptions(client, rest);
+  fastify.decorateRequest("meshes", null);
+  fastify.addHook(
+    "onRequest",
+    /**
+     * @param {any} request - Incoming request
+     * @param {any} _reply - Reply
+     * @param {() => void} next - Hook callback
+     */
+    (request, _reply, next) => {
+      request.meshes = createRequestEmitter(
+        client,
+        nodeRequestContext(request, resolved)
+      );
+      next();
+    }
+  );
+  if (resolved.flushBeforeResponse) {
+    fastify.addHook(
+      "onSend",
+      /**
+       * @param {any} request - Incoming request
+       * @param {any} _reply - Reply
+       * @param {unknown} payload - Response payload
+       * @returns {Promise<unknown>} - The unchanged payload
+       */
+      async (request, _reply, payload) => {
+        await request.meshes?.flush();
+        return payload;
+      }
+    );
+  }
+  done();
+};
+
+// decorate the parent instance rather than an encapsulated child
+Object.assign(meshesFastify, {
+  [Symbol.for("skip-override")]: true,
+  [Symbol.for("fastify.display-name")]: "meshes",
+});
+
+/**
+ * Wrap a Next.js route handler to attach a request-scoped emitter as
+ * `request.meshes`.  Pending sends finish before the response is returned.
+ * @template {Request} R
+ * @template {unknown[]} A
+ * @param {MeshesEventsClient} client - Meshes events client
+ * @param {(request: R & { meshes: MeshesRequestEmitter }, ...args: A) => Response | Promise<Response>} handler - Route handler
+ * @param {MeshesIntegrationOptions | undefined} options - Integration options
+ * @returns {(request: R, ...args: A) => Promise<Response>} - The wrapped route handler
+ * @throws {MeshesConfigurationError} - Invalid client or options
+ */
+export const withMeshes = (client, handler, options = undefined) => {
+  const resolved = resolveIntegrationOptions(client, options);
+  if (typeof handler !== "function") {
+    throw new MeshesConfigurationError(
+      `Invalid route handler: ${typeof handler}`,
+      handler
+    );
+  }
+  return async (request, ...args) => {
+    const meshes = createRequestEmitter(
+      client,
+      fetchRequestContext(request, resolved)
+    );
+    const scoped = Object.assign(request, { meshes });
+    try {
+      return await handler(scoped, ...args);
+    } finally {
+      if (resolved.flushBeforeResponse) {
+        await meshes.flush();
+      }
+    }
+  };
+};
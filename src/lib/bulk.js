@@ -0,0 +1,140 @@
+/** @typedef {import("../index.js").MeshesEvent} MeshesEvent */
+/** @typedef {import("../index.js").MeshesErrorResponse} MeshesErrorResponse */
+/** @typedef {import("../index.js").MeshesDroppedRecord} MeshesDroppedRecord */
+/** @typedef {import("../index.js").MeshesEventBody<any>} MeshesEventBody */
+/** @typedef {import("../index.js").BulkCreateEventsResult} BulkCreateEventsResult */
+/** @typedef {import("../index.js").MeshesBulkOutcomes} MeshesBulkOutcomes */
+/** @typedef {import("./errors.js").MeshesApiError} MeshesApiError */
+
+/**
+ * Maximum number of events per bulk request
+ * @type {number}
+ * @export constant
+ */
+export const MAX_BULK_EVENTS = 100;
+
+/**
+ * Message used for events without a matching bulk record
+ * @type {string}
+ * @constant
+ */
+export const MISSING_RECORD_MESSAGE = "No record returned for event";
+
+/**
+ * Message used for events dropped by the beforeSend hook
+ * @type {string}
+ * @constant
+ */
+export const DROPPED_RECORD_MESSAGE = "Event dropped by beforeSend";
+
+/**
+ * Create the bulk record for an event dropped by the beforeSend hook
+ * @returns {MeshesDroppedRecord} - The dropped record
+ */
+export const droppedRecord = () => ({
+  message: DROPPED_RECORD_MESSAGE,
+  dropped: true,
+});
+
+/**
+ * Create the bulk record for an event whose request failed.  The record is
+ * plain data; the error itself isn't kept.
+ * @param {MeshesApiError} error - The request error
+ * @returns {MeshesErrorResponse} - The failed record
+ */
+export const failedRecord = (error) => {
+  const { message, code, retryable, status } = error.toJSON();
+  return {
+    message,
+    code,
+    retryable,
+    ...(typeof status === "number" ? { status } : {}),
+  };
+};
+
+/**
+ * Determine if a bulk record is the record of an event dropped by the beforeSend hook
+ * @param {unknown} record - The bulk record
+ * @returns {record is MeshesDroppedRecord} - Whether or not the record is a dropped record
+ */
+const isDroppedRecord = (record) =>
+  !!record &&
+  typeof record === "object" &&
+  /** @type {MeshesDroppedRecord} */ (record).dropped === true;
+
+/**
+ * Add the records of the events dropped by the beforeSend hook to a bulk
+ * result, so the records are in the same order as the input events
+ * @param {(MeshesEventBody | null)[]} sent - The events sent; null for dropped events
+ * @param {BulkCreateEventsResult} result - The bulk result for the events sent
+ * @returns {BulkCreateEventsResult} - The bulk result for all events
+ */
+export const withDroppedRecords = (sent, result) => {
+  const droppedCount = sent.filter((evt) => evt === null).length;
+  if (droppedCount === 0) {
+    return result;
+  }
+  const records = Array.isArray(result?.records) ? result.records : [];
+  let next = 0;
+  return {
+    ...result,
+    count: result?.count ?? 0,
+    records: sent.map((evt) =>
+      evt === null
+        ? droppedRecord()
+        : (records[next++] ?? { message: MISSING_RECORD_MESSAGE })
+    ),
+    dropped_count: droppedCount,
+  };
+};
+
+/**
+ * Determine if a bulk record is a created event
+ * @param {unknown} record - The bulk record
+ * @returns {record is MeshesEvent} - Whether or not the record is a created event
+ */
+export const isMeshesEvent = (record) =>
+  !!record &&
+  typeof record === "object" &&
+  /** @type {MeshesEvent} */ (record).type === "event";
+
+/**
+ * Determine if a bulk record is an error response
+ * @param {unknown} record - The bulk record
+ * @returns {record is MeshesErrorResponse} - Whether or not the record is an error response
+ */
+export const isMeshesErrorResponse = (record) =>
+  !!record &&
+  typeof record === "object" &&
+  !isMeshesEvent(record) &&
+  typeof (/** @type {MeshesErrorResponse} */ (record).message) === "string";
+
+/**
+ * Pair each input event with its bulk record and split them into succeeded, failed and dropped outcomes
+ * @param {MeshesEventBody[]} events - The events that were sent
+ * @param {BulkCreateEventsResult} result - The bulk result
+ * @returns {MeshesBulkOutcomes} - The succeeded and failed outcomes, with the input index
+ */
+export const partitionBulkResult = (events, result) => {
+  const records = Array.isArray(result?.records) ? result.records : [];
+
+  /** @type {MeshesBulkOutcomes} */
+  const outcomes = { succeeded: [], failed: [], dropped: [] };
+  events.forEach((input, index) => {
+    const record = records[index];
+    if (isMeshesEvent(record)) {
+      outcomes.succeeded.push({ index, input, event: record });
+    } else if (isDroppedRecord(record)) {
+      outcomes.dropped.push({ index, input, record });
+    } else {
+      outcomes.failed.push({
+        index,
+        input,
+        error: isMeshesErrorResponse(record)
+          ? record
+          : { message: MISSING_RECORD_MESSAGE, error: record },
+      });
+    }
+  });
+  return outcomes;
+};
@@ -0,0 +1,222 @@
+/** @typedef {import("../index.js").MeshesCircuitBreakerOptions} MeshesCircuitBreakerOptions */
+/** @typedef {import("../index.js").MeshesCircuitState} MeshesCircuitState */
+
+import { MeshesCircuitOpenError, MeshesConfigurationError } from "./errors.js";
+
+/**
+ * Default circuit breaker policy
+ * @type {Required<Omit<MeshesCircuitBreakerOptions, "failureRate" | "onStateChange">>}
+ * @constant
+ */
+export const defaultCircuitBreakerOptions = {
+  failureThreshold: 5,
+  windowSize: 20,
+  resetTimeout: 30000,
+};
+
+/**
+ * Circuit breaker for the requests of a client.  Opens after too many
+ * consecutive failures (or too high a failure rate), fails fast while open,
+ * and lets a single probe request through once `resetTimeout` has elapsed.
+ * @class
+ */
+export class CircuitBreaker {
+  #options;
+  /** @type {MeshesCircuitState} */
+  #state = "closed";
+  #consecutiveFailures = 0;
+  /** @type {boolean[]} */
+  #window = [];
+  #openedAt = 0;
+  #probing = false;
+  #listener;
+
+  /**
+   * Create the circuit breaker.
+   * @param {boolean | MeshesCircuitBreakerOptions} options - Circuit breaker options
+   * @param {(state: MeshesCircuitState, previousState: MeshesCircuitState) => void} [listener] - Internal state change listener, called before `onStateChange`
+   * @constructor - Circuit Breaker constructor
+   * @throws {MeshesConfigurationError} - Invalid circuit breaker options
+   */
+  constructor(options, listener) {
+    if (
+      options !== true &&
+      (!options || typeof options !== "object" || Array.isArray(options))
+    ) {
+      throw new MeshesConfigurationError(
+        `Invalid circuit breaker options: ${typeof options}`,
+        options
+      );
+    }
+    const resolved = {
+      ...defaultCircuitBreakerOptions,
+      ...(options === true ? {} : options),
+    };
+
+    for (const key of /** @type {const} */ ([
+      "failureThreshold",
+      "windowSize",
+    ])) {
+      if (!Number.isInteger(resolved[key]) || resolved[key] < 1) {
+        throw new MeshesConfigurationError(
+          `Unsupported circuit breaker ${key}: ${resolved[key]}`,
+          options
+        );
+      }
+    }
+    if (
+      typeof resolved.resetTimeout !== "number" ||
+      resolved.resetTimeout < 0
+    ) {
+      throw new MeshesConfigurationError(
+        `Invalid circuit breaker resetTimeout: ${resolved.resetTimeout}`,
+        options
+      );
+    }
+    if (
+      typeof resolved.failureRate !== "undefined" &&
+      (typeof resolved.failureRate !== "number" ||
+        resolved.failureRate <= 0 ||
+        resolved.failureRate > 1)
+    ) {
+      throw new MeshesConfigurationError(
+        `Unsupported circuit breaker failureRate: ${resolved.failureRate}`,
+        options
+      );
+    }
+    if (
+      typeof resolved.onStateChange !== "undefined" &&
+      typeof resolved.onStateChange !== "function"
+    ) {
+      throw new MeshesConfigurationError(
+        `Invalid circuit breaker onStateChange: ${typeof resolved.onStateChange}`
+      );
+    }
+    this.#options = resolved;
+    this.#listener = listener;
+  }
+
+  /**
+   * The current state
+   * @returns {MeshesCircuitState}
+   */
+  get state() {
+    if (this.#state === "open" && this.#remaining() === 0) {
+      return "half-open";
+    }
+    return this.#state;
+  }
+
+  /**
+   * Check if a request may be sent
+   * @returns {MeshesCircuitOpenError | undefined} - The error to fail with, if the request may not be sent
+   */
+  check() {
+    if (this.#state === "open" && this.#remaining() === 0) {
+      this.#transition("half-open");
+    }
+    if (this.#state === "closed") {
+      return undefined;
+    }
+    if (this.#state === "half-open" && !this.#probing) {
+      this.#probing = true;
+      return undefined;
+    }
+    return new MeshesCircuitOpenError("Meshes circuit breaker is open", {
+      state: this.#state,
+      retryAfter: this.#remaining(),
+    });
+  }
+
+  /**
+   * Record the outcome of a request that was allowed by `check()`
+   * @param {"success" | "failure" | "ignored"} outcome - The request outcome
+   * @returns {void}
+   */
+  record(outcome) {
+    if (this.#state === "half-open") {
+      this.#probing = false;
+      if (outcome === "success") {
+        this.#reset();
+        this.#transition("closed");
+      } else if (outcome === "failure") {
+        this.#open();
+      }
+      return;
+    }
+    if (outcome === "ignored" || this.#state === "open") {
+      return;
+    }
+
+    const failed = outcome === "failure";
+    this.#consecutiveFailures = failed ? this.#consecutiveFailures + 1 : 0;
+    this.#window.push(failed);
+    if (this.#window.length > this.#options.windowSize) {
+      this.#window.shift();
+    }
+
+    if (!failed) {
+      return;
+    }
+    const { failureRate, failureThreshold, windowSize } = this.#options;
+    const rate =
+      this.#window.length >= windowSize
+        ? this.#window.filter(Boolean).length / this.#window.length
+        : 0;
+    if (
+      this.#consecutiveFailures >= failureThreshold ||
+      (typeof failureRate === "number" && rate >= failureRate)
+    ) {
+      this.#open();
+    }
+  }
+
+  /**
+   * Time until the open circuit lets a probe request through
+   * @returns {number} - Milliseconds
+   */
+  #remaining() {
+    return Math.max(
+      0,
+      this.#openedAt + this.#options.resetTimeout - Date.now()
+    );
+  }
+
+  /**
+   * Open the circuit
+   * @returns {void}
+   */
+  #open() {
+    this.#reset();
+    this.#openedAt = Date.now();
+    this.#transition("open");
+  }
+
+  /**
+   * Clear the failure counts
+   * @returns {void}
+   */
+  #reset() {
+    this.#consecutiveFailures = 0;
+    this.#window = [];
+  }
+
+  /**
+   * Change the state and report it
+   * @param {MeshesCircuitState} state - The new state
+   * @returns {void}
+   */
+  #transition(state) {
+    const previous = this.#state;
+    if (previous === state) {
+      return;
+    }
+    this.#state = state;
+    this.#listener?.(state, previous);
+    try {
+      this.#options.onStateChange?.(state, previous);
+    } catch {
+      // state change listeners can't break requests
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/** @typedef {import("../index.js").MeshesCompressionOptions} MeshesCompressionOptions */
+/** @typedef {import("../index.js").MeshesCompressionEncoding} MeshesCompressionEncoding */
+
+import { MeshesConfigurationError } from "./errors.js";
+import { loadZlib } from "./node-modules.js";
+
+/**
+ * Default compression options
+ * @type {Required<MeshesCompressionOptions>}
+ * @constant
+ */
+export const defaultCompressionOptions = {
+  threshold: 1024,
+  encoding: "gzip",
+};
+
+/**
+ * Valid content encodings
+ * @type {string[]}
+ * @constant
+ */
+const validEncodings = ["gzip", "deflate"];
+
+/**
+ * Resolve the compression option
+ * @param {unknown} compression - Compression option
+ * @returns {Required<MeshesCompressionOptions> | undefined} - The compression options, if enabled
+ * @throws {MeshesConfigurationError} - Invalid compression options
+ */
+export const resolveCompressionOptions = (compression) => {
+  if (typeof compression === "undefined" || compression === false) {
+    return undefined;
+  }
+  if (
+    compression !== true &&
+    (!compression ||
+      typeof compression !== "object" ||
+      Array.isArray(compression))
+  ) {
+    throw new MeshesConfigurationError(
+      `Invalid compression options: ${typeof compression}`,
+      compression
+    );
+  }
+  /** @type {Required<MeshesCompressionOptions>} */
+  const resolved = {
+    ...defaultCompressionOptions,
+    ...(compression === true ? {} : compression),
+  };
+  if (!Number.isInteger(resolved.threshold) || resolved.threshold < 0) {
+    throw new MeshesConfigurationError(
+      `Invalid compression threshold: ${resolved.threshold}`
+    );
+  }
+  if (!validEncodings.includes(resolved.encoding)) {
+    throw new MeshesConfigurationError(
+      `Unsupported compression encoding: ${resolved.encoding}`
+    );
+  }
+  return resolved;
+};
+
+/**
+ * Compress a request body with `CompressionStream`, or `node:zlib` where it
+ * isn't available
+ * @param {string} body - The serialized request body
+ * @param {MeshesCompressionEncoding} encoding - The content encoding
+ * @returns {Promise<Uint8Array | undefined>} - The compressed body; undefined if the runtime can't compress
+ */
+export const compressBody = async (body, encoding) => {
+  if (typeof globalThis.CompressionStream === "function") {
+    try {
+      const stream = new Blob([body])
+        .stream()
+        .pipeThrough(new CompressionStream(encoding));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    } catch {
+      // fall back to zlib
+    }
+  }
+  try {
+    const zlib = await loadZlib();
+    const compress = encoding === "gzip" ? zlib.gzip : zlib.deflate;
+    const compressed = await new Promise((resolve, reject) =>
+      compress(body, (err, result) => (err ? reject(err) : resolve(result)))
+    );
+    return new Uint8Array(compressed);
+  } catch {
+    return undefined;
+  }
+};
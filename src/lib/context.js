@@ -0,0 +1,102 @@
+/** @typedef {import("../index.js").MeshesEventBody<any>} MeshesEventBody */
+/** @typedef {import("../index.js").MeshesEventContext} MeshesEventContext */
+
+import { MeshesConfigurationError } from "./errors.js";
+
+/**
+ * Whether the value is a plain object (not an array, date, class instance...)
+ * @param {unknown} value - The value to check
+ * @returns {value is Record<string, any>}
+ */
+const isPlainObject = (value) => {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Validate the defaults option or a withContext() context
+ * @param {unknown} context - Event context
+ * @param {string} name - Option name, for error messages
+ * @returns {MeshesEventContext | undefined} - The context, if any
+ * @throws {MeshesConfigurationError} - Invalid context
+ */
+export const resolveEventContext = (context, name) => {
+  if (typeof context === "undefined") {
+    return undefined;
+  }
+  if (!isPlainObject(context)) {
+    throw new MeshesConfigurationError(
+      `Invalid ${name}: ${typeof context}`,
+      context
+    );
+  }
+  for (const key of Object.keys(context)) {
+    if (!["resource", "resource_id", "payload"].includes(key)) {
+      throw new MeshesConfigurationError(
+        `Unsupported ${name} field: ${key}`,
+        context
+      );
+    }
+  }
+  for (const key of ["resource", "resource_id"]) {
+    if (
+      typeof context[key] !== "undefined" &&
+      typeof context[key] !== "string"
+    ) {
+      throw new MeshesConfigurationError(
+        `Invalid ${name} ${key}: ${typeof context[key]}`,
+        context
+      );
+    }
+  }
+  if (
+    typeof context.payload !== "undefined" &&
+    !isPlainObject(context.payload)
+  ) {
+    throw new MeshesConfigurationError(
+      `Invalid ${name} payload: ${typeof context.payload}`,
+      context
+    );
+  }
+  return /** @type {MeshesEventContext} */ (context);
+};
+
+/**
+ * Deep merge plain objects.  Values take precedence over the context, except
+ * undefined values; arrays and other objects replace the context value.
+ * @param {Record<string, any>} context - The context
+ * @param {Record<string, any>} values - The values
+ * @returns {Record<string, any>} - A new merged object
+ */
+export const mergeContext = (context, values) => {
+  /** @type {Record<string, any>} */
+  const merged = { ...context };
+  for (const [key, value] of Object.entries(values)) {
+    if (typeof value === "undefined") {
+      continue;
+    }
+    merged[key] =
+      isPlainObject(value) && isPlainObject(merged[key])
+        ? mergeContext(merged[key], value)
+        : value;
+  }
+  return merged;
+};
+
+/**
+ * Merge the context into an event.  Invalid events are returned as is, to be
+ * rejected by event validation.
+ * @template {MeshesEventBody} T
+ * @param {T} event - The event
+ * @param {MeshesEventContext | undefined} context - The context
+ * @returns {T} - The event with the context
+ */
+export const applyContext = (event, context) => {
+  if (!context || !isPlainObject(event)) {
+    return event;
+  }
+  return /** @type {T} */ (mergeContext(context, event));
+};
@@ -0,0 +1,62 @@
+/** @typedef {import("../index.js").MeshesEvent} MeshesEvent */
+/** @typedef {import("../index.js").MeshesMode} MeshesMode */
+/** @typedef {import("../index.js").CreateEventResponseSingle} CreateEventResponseSingle */
+/** @typedef {import("../index.js").BulkCreateEventsResult} BulkCreateEventsResult */
+
+import { randomUUID } from "./helpers.js";
+
+/**
+ * Valid client modes
+ * @type {MeshesMode[]}
+ * @constant
+ */
+export const validModes = ["live", "dry-run", "record"];
+
+/**
+ * Workspace and creator of synthetic event records
+ * @type {string}
+ * @constant
+ */
+export const DRY_RUN_WORKSPACE = "dry-run";
+
+/**
+ * Create the synthetic record of an event that was not sent
+ * @param {any} event - The event body
+ * @returns {MeshesEvent}
+ */
+const syntheticEvent = (event) => ({
+  type: "event",
+  event: typeof event?.event === "string" ? event.event : "",
+  id: randomUUID(),
+  workspace: DRY_RUN_WORKSPACE,
+  created_by: DRY_RUN_WORKSPACE,
+  created_at: new Date().toISOString(),
+  resource: typeof event?.resource === "string" ? event.resource : "global",
+  ...(typeof event?.resource_id === "string"
+    ? { resource_id: event.resource_id }
+    : {}),
+});
+
+/**
+ * Create the synthetic response data for a request that was not sent
+ * @param {unknown} body - The serialized request body
+ * @returns {CreateEventResponseSingle | BulkCreateEventsResult} - A bulk result for an array body, otherwise a single event
+ */
+export const dryRunResult = (body) => {
+  let parsed = body;
+  if (typeof body === "string") {
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      // middleware may send bodies that aren't JSON
+    }
+  }
+  if (Array.isArray(parsed)) {
+    return {
+      count: parsed.length,
+      records: parsed.map(syntheticEvent),
+      error_count: 0,
+    };
+  }
+  return { event: syntheticEvent(parsed) };
+};
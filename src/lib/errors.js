@@ -1,3 +1,24 @@
+/** @typedef {import("../index.js").MeshesErrorCode} MeshesErrorCode */
+
+/**
+ * Determine if a response status can be retried (408, 429 and 5xx)
+ * @param {unknown} status - Response status
+ * @returns {boolean}
+ */
+const isRetryableStatus = (status) =>
+  typeof status === "number" &&
+  (status === 408 || status === 429 || status >= 500);
+
+/**
+ * Read the response status from error data
+ * @param {unknown} data - Error data
+ * @returns {unknown} - The status, if the data has one
+ */
+const statusOf = (data) =>
+  data && typeof data === "object" && "status" in data
+    ? data.status
+    : undefined;
+
 /**
  * Meshes Event API Error
  * @extends {Error} - Error class
@@ -17,27 +38,322 @@ export class MeshesApiError extends Error {
       this.data = data;
     }
   }
+
+  /**
+   * Error code identifying the kind of failure
+   * @returns {MeshesErrorCode}
+   */
+  get code() {
+    return "unknown";
+  }
+
+  /**
+   * Whether the request could succeed if sent again later
+   * @returns {boolean}
+   */
+  get retryable() {
+    return false;
+  }
 }
 
 /**
  * Convert error to JSON
  * @param {boolean} stack - Include stack trace
- * @returns {Record<string,any>} - JSON object with error properties
+ * @returns {{ name: string, message: string, code: MeshesErrorCode, retryable: boolean, status?: number, data?: unknown, stack?: string }} - JSON object with error properties
  */
 MeshesApiError.prototype.toJSON = function (stack = false) {
   const stackTrace = stack === true ? { stack: this.stack } : {};
-  if (typeof this.data === "undefined") {
-    return {
-      name: this.name,
-      message: this.message,
-      ...stackTrace,
-    };
-  } else {
-    return {
-      name: this.name,
-      message: this.message,
-      data: this.data,
-      ...stackTrace,
-    };
-  }
+  const status = statusOf(this.data);
+  return {
+    name: this.name,
+    message: this.message,
+    code: this.code,
+    retryable: this.retryable,
+    ...(typeof status === "number" ? { status } : {}),
+    ...(typeof this.data === "undefined" ? {} : { data: this.data }),
+    ...stackTrace,
+  };
 };
+
+/**
+ * Meshes Configuration Error - invalid client, request or component options
+ * @extends {MeshesApiError} - Meshes API Error class
+ * @param {string} message - Error message
+ * @param {unknown} data - The invalid options
+ * @class - Meshes Configuration Error
+ */
+export class MeshesConfigurationError extends MeshesApiError {
+  /** @returns {MeshesErrorCode} */
+  get code() {
+    return "configuration";
+  }
+}
+
+/**
+ * Meshes Timeout Error - the request timed out
+ * @extends {MeshesApiError} - Meshes API Error class
+ * @param {string} message - Error message
+ * @param {{ error: unknown, attempts: number, idempotencyKey?: string }} data - The fetch error and attempt metadata
+ * @class - Meshes Timeout Error
+ */
+export class MeshesTimeoutError extends MeshesApiError {
+  /** @returns {MeshesErrorCode} */
+  get code() {
+    return "timeout";
+  }
+
+  /** @returns {boolean} */
+  get retryable() {
+    return true;
+  }
+}
+
+/**
+ * Meshes Network Error - the request failed before a response was received
+ * @extends {MeshesApiError} - Meshes API Error class
+ * @param {string} message - Error message
+ * @param {{ error: unknown, attempts: number, idempotencyKey?: string }} data - The fetch error and attempt metadata
+ * @class - Meshes Network Error
+ */
+export class MeshesNetworkError extends MeshesApiError {
+  /** @returns {MeshesErrorCode} */
+  get code() {
+    return "network";
+  }
+
+  /** @returns {boolean} */
+  get retryable() {
+    return true;
+  }
+}
+
+/**
+ * Meshes Cancelled Error - the request was cancelled with the caller's AbortSignal
+ * @extends {MeshesApiError} - Meshes API Error class
+ * @param {string} message - Error message
+ * @param {{ reason: unknown, attempts: number, idempotencyKey?: string }} data - The abort reason and attempt metadata
+ * @class - Meshes Cancelled Error
+ */
+export class MeshesCancelledError extends MeshesApiError {
+  /** @returns {MeshesErrorCode} */
+  get code() {
+    return "cancelled";
+  }
+}
+
+/**
+ * Meshes HTTP Error - the API responded with an error status
+ * @extends {MeshesApiError} - Meshes API Error class
+ * @param {string} message - Error message
+ * @param {{ status: number, statusText?: string, data: unknown, attempts: number, idempotencyKey?: string }} data - The response and attempt metadata
+ * @class - Meshes HTTP Error
+ */
+export class MeshesHttpError extends MeshesApiError {
+  /**
+   * @param {string | undefined} message
+   * @param {{ status: number, statusText?: string, data: unknown, attempts: number, idempotencyKey?: string }} data
+   */
+  constructor(message, data) {
+    super(message, data);
+  }
+
+  /** @returns {MeshesErrorCode} */
+  get code() {
+    return "http";
+  }
+
+  /** @returns {boolean} */
+  get retryable() {
+    return isRetryableStatus(this.status);
+  }
+
+  /**
+   * The response status
+   * @returns {number}
+   */
+  get status() {
+    const data = /** @type {{ status: number }} */ (this.data);
+    return data.status;
+  }
+
+  /**
+   * The parsed response body
+   * @returns {unknown}
+   */
+  get body() {
+    const data = /** @type {{ data: unknown }} */ (this.data);
+    return data.data;
+  }
+}
+
+/**
+ * Meshes Auth Error - the publishable key was rejected (401 or 403)
+ * @extends {MeshesHttpError} - Meshes HTTP Error class
+ * @param {string} message - Error message
+ * @param {{ status: number, statusText?: string, data: unknown, attempts: number, idempotencyKey?: string }} data - The response and attempt metadata
+ * @class - Meshes Auth Error
+ */
+export class MeshesAuthError extends MeshesHttpError {
+  /** @returns {MeshesErrorCode} */
+  get code() {
+    return "auth";
+  }
+
+  /** @returns {boolean} */
+  get retryable() {
+    return false;
+  }
+}
+
+/**
+ * Meshes Parse Error - the response body could not be read or parsed
+ * @extends {MeshesApiError} - Meshes API Error class
+ * @param {string} message - Error message
+ * @param {{ error: unknown, status?: number, statusText?: string, attempts: number, idempotencyKey?: string }} data - The parsing error, the response status and attempt metadata
+ * @class - Meshes Parse Error
+ */
+export class MeshesParseError extends MeshesApiError {
+  /** @returns {MeshesErrorCode} */
+  get code() {
+    return "parse";
+  }
+
+  /**
+   * Only failed responses can be retried; a successful request was already processed
+   * @returns {boolean}
+   */
+  get retryable() {
+    return isRetryableStatus(statusOf(this.data));
+  }
+}
+
+/**
+ * Meshes Partial Failure Error - some events in a bulk request were not created
+ * @extends {MeshesApiError} - Meshes API Error class
+ * @param {string} message - Error message
+ * @param {{ result: unknown, failed: { index: number, input: any, error: unknown }[] }} data - The bulk result and failed outcomes
+ * @class - Meshes Partial Failure Error
+ */
+export class MeshesPartialFailureError extends MeshesApiError {
+  /**
+   * @param {string | undefined} message
+   * @param {{ result: unknown, failed: { index: number, input: any, error: unknown }[] }} data
+   */
+  constructor(message, data) {
+    super(message, data);
+  }
+
+  /** @returns {MeshesErrorCode} */
+  get code() {
+    return "partial_failure";
+  }
+
+  /**
+   * The input events that failed, so they can be re-sent
+   * @returns {any[]}
+   */
+  get failedEvents() {
+    const data =
+      /** @type {{ failed: { index: number, input: any, error: unknown }[] }} */ (
+        this.data
+      );
+    return data.failed.map((f) => f.input);
+  }
+}
+
+/**
+ * Meshes Validation Error - an event (or the events array) is invalid or failed payload validation
+ * @extends {MeshesApiError} - Meshes API Error class
+ * @param {string} message - Error message
+ * @param {{ event?: unknown, events?: unknown, index?: number, issues: { path: (string | number)[], message: string }[] }} data - The invalid event and its field-level issues
+ * @class - Meshes Validation Error
+ */
+export class MeshesValidationError extends MeshesApiError {
+  /**
+   * @param {string | undefined} message
+   * @param {{ event?: unknown, events?: unknown, payload?: unknown, index?: number, issues: { path: (string | number)[], message: string }[] }} data
+   */
+  constructor(message, data) {
+    super(message, data);
+  }
+
+  /** @returns {MeshesErrorCode} */
+  get code() {
+    return "validation";
+  }
+
+  /**
+   * The field-level validation issues
+   * @returns {{ path: (string | number)[], message: string }[]}
+   */
+  get issues() {
+    const data =
+      /** @type {{ issues: { path: (string | number)[], message: string }[] }} */ (
+        this.data
+      );
+    return data.issues;
+  }
+}
+
+/**
+ * Meshes Circuit Open Error - the request was not sent because the circuit breaker is open
+ * @extends {MeshesApiError} - Meshes API Error class
+ * @param {string} message - Error message
+ * @param {{ state: "open" | "half-open", retryAfter: number }} data - The circuit state and the time until a probe request is allowed
+ * @class - Meshes Circuit Open Error
+ */
+export class MeshesCircuitOpenError extends MeshesApiError {
+  /**
+   * @param {string | undefined} message
+   * @param {{ state: "open" | "half-open", retryAfter: number }} data
+   */
+  constructor(message, data) {
+    super(message, data);
+  }
+
+  /** @returns {MeshesErrorCode} */
+  get code() {
+    return "circuit_open";
+  }
+
+  /** @returns {boolean} */
+  get retryable() {
+    return true;
+  }
+}
+
+/**
+ * Meshes Rate Limit Error - the request was rate limited by the API (429) or by the client-side rate limiter
+ * @extends {MeshesApiError} - Meshes API Error class
+ * @param {string} message - Error message
+ * @param {{ retryAfterMs?: number, status?: number, limit?: "requests" | "events", [key: string]: unknown }} data - The time to wait before retrying and the response status or exceeded client-side limit
+ * @class - Meshes Rate Limit Error
+ */
+export class MeshesRateLimitError extends MeshesApiError {
+  /**
+   * @param {string | undefined} message
+   * @param {{ retryAfterMs?: number, status?: number, limit?: "requests" | "events", [key: string]: unknown }} data
+   */
+  constructor(message, data) {
+    super(message, data);
+  }
+
+  /** @returns {MeshesErrorCode} */
+  get code() {
+    return "rate_limit";
+  }
+
+  /** @returns {boolean} */
+  get retryable() {
+    return true;
+  }
+
+  /**
+   * Milliseconds to wait before retrying, if known
+   * @returns {number | undefined}
+   */
+  get retryAfterMs() {
+    const data = /** @type {{ retryAfterMs?: number }} */ (this.data);
+    return data.retryAfterMs;
+  }
+}
@@ -3,3 +3,15 @@ export function readBody(response: {
 }): Promise<unknown | string | null>;
 
 export function isNonEmpty(value: unknown): boolean;
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void>;
+
+export function unrefTimer(timer: unknown): void;
+
+export function byteLength(value: string): number;
+
+export function randomUUID(): string;
+
+export function isNodeRuntime(): boolean;
+
+export function hasFixedIdempotencyKey(requestOptions: unknown): boolean;
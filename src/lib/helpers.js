@@ -25,3 +25,98 @@ export const isNonEmpty = (v) =>
   !(typeof v === "string" && v.trim().length === 0) &&
   !(Array.isArray(v) && v.length === 0) &&
   !(typeof v === "object" && !Array.isArray(v) && Object.keys(v).length === 0);
+
+/**
+ * Helper to wait for the given number of milliseconds
+ * @param {number} ms The delay in milliseconds
+ * @param {AbortSignal} [signal] Optional signal that ends the wait early
+ * @returns {Promise<void>} Resolves after the delay, or once the signal is aborted
+ */
+export const sleep = (ms, signal = undefined) =>
+  new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Helper to keep a timer from holding the process open, where the runtime supports it
+ * @param {unknown} timer The timer returned by setTimeout
+ * @returns {void}
+ */
+export const unrefTimer = (timer) => {
+  if (
+    timer &&
+    typeof timer === "object" &&
+    "unref" in timer &&
+    typeof timer.unref === "function"
+  ) {
+    timer.unref();
+  }
+};
+
+/**
+ * Helper to get the UTF-8 byte length of a string
+ * @param {string} value The string to measure
+ * @returns {number} The byte length
+ */
+export const byteLength = (value) => new TextEncoder().encode(value).length;
+
+/**
+ * Helper to generate a random (v4) UUID; falls back to Math.random when crypto.randomUUID is unavailable
+ * @returns {string} The generated UUID
+ */
+export const randomUUID = () => {
+  const crypto = globalThis.crypto;
+  if (crypto && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+};
+
+/**
+ * Helper to determine if the code runs in Node.js, rather than a browser or edge runtime
+ * @returns {boolean} Whether or not the runtime is Node.js
+ */
+export const isNodeRuntime = () =>
+  typeof globalThis.process?.versions?.node === "string";
+
+/**
+ * Helper to determine if request options pin every request to the same
+ * idempotency key, with a string `idempotencyKey` or an Idempotency-Key header
+ * @param {unknown} requestOptions - Request options
+ * @returns {boolean} - Whether or not the options set a fixed idempotency key
+ */
+export const hasFixedIdempotencyKey = (requestOptions) => {
+  if (!requestOptions || typeof requestOptions !== "object") {
+    return false;
+  }
+  if (
+    "idempotencyKey" in requestOptions &&
+    typeof requestOptions.idempotencyKey === "string"
+  ) {
+    return true;
+  }
+  const headers =
+    "headers" in requestOptions ? requestOptions.headers : undefined;
+  return (
+    !!headers &&
+    typeof headers === "object" &&
+    Object.keys(headers).some(
+      (k) => k.trim().toLowerCase() === "idempotency-key"
+    )
+  );
+};
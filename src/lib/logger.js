@@ -0,0 +1,150 @@
+/** @typedef {import("../index.js").MeshesLogger} MeshesLogger */
+/** @typedef {import("../index.js").MeshesLogLevel} MeshesLogLevel */
+/** @typedef {Exclude<MeshesLogLevel, "silent">} MeshesLogMethod */
+/** @typedef {(level: MeshesLogMethod, message: string, fields?: Record<string, unknown>) => void} MeshesLogWriter */
+
+import { MeshesConfigurationError } from "./errors.js";
+
+/**
+ * Log levels, from most to least verbose
+ * @type {MeshesLogLevel[]}
+ * @constant
+ */
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"];
+
+/**
+ * Payload fields redacted from logs by default
+ * @type {string[]}
+ * @constant
+ */
+export const DEFAULT_REDACT_KEYS = [
+  "email",
+  "phone",
+  "ip_address",
+  "first_name",
+  "last_name",
+  "name",
+];
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Logger used when debug is enabled and no logger is provided
+ * @type {MeshesLogger}
+ * @constant
+ */
+const consoleLogger = {
+  debug: (fields, message) => console.debug(message, fields),
+  info: (fields, message) => console.info(message, fields),
+  warn: (fields, message) => console.warn(message, fields),
+  error: (fields, message) => console.error(message, fields),
+};
+
+/**
+ * Deep copy a value with the given keys redacted.  Errors are converted to
+ * plain objects so their data is redacted as well.
+ * @param {unknown} value - The value to redact
+ * @param {Set<string>} keys - Lower-cased keys to redact
+ * @param {WeakSet<object>} seen - Objects currently being copied
+ * @returns {unknown} - The redacted copy
+ */
+const redactValue = (value, keys, seen) => {
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  if (seen.has(value)) {
+    return "[Circular]";
+  }
+  seen.add(value);
+
+  /** @type {unknown} */
+  let copy;
+  if (Array.isArray(value)) {
+    copy = value.map((v) => redactValue(v, keys, seen));
+  } else {
+    /** @type {Record<string, unknown>} */
+    const obj =
+      value instanceof Error
+        ? { name: value.name, message: value.message }
+        : {};
+    for (const [k, v] of Object.entries(value)) {
+      if (Object.prototype.hasOwnProperty.call(obj, k)) {
+        continue;
+      }
+      obj[k] = keys.has(k.toLowerCase())
+        ? REDACTED
+        : redactValue(v, keys, seen);
+    }
+    copy = obj;
+  }
+  // only ancestors count as circular; repeated references are copied again
+  seen.delete(value);
+  return copy;
+};
+
+/**
+ * Redact the given keys from a value, at any depth
+ * @param {unknown} value - The value to redact
+ * @param {string[]} keys - Keys to redact (case-insensitive)
+ * @returns {unknown} - The redacted copy
+ */
+export const redact = (value, keys = DEFAULT_REDACT_KEYS) =>
+  redactValue(value, new Set(keys.map((k) => k.toLowerCase())), new WeakSet());
+
+/**
+ * Validate the logging options and create the log writer
+ * @param {{ logger?: MeshesLogger, logLevel?: MeshesLogLevel, debug?: boolean, redact?: boolean | string[] }} options - Client options
+ * @returns {MeshesLogWriter} - Writes a log entry at the given level
+ * @throws {MeshesConfigurationError} - Invalid logging options
+ */
+export const createLogWriter = (options) => {
+  const { logger, debug } = options;
+  if (typeof logger !== "undefined") {
+    if (!logger || typeof logger !== "object") {
+      throw new MeshesConfigurationError(`Invalid logger: ${typeof logger}`);
+    }
+    /** @type {Record<string, unknown>} */
+    const methods = logger;
+    for (const level of LOG_LEVELS.slice(0, -1)) {
+      if (typeof methods[level] !== "function") {
+        throw new MeshesConfigurationError(
+          `Invalid logger: missing ${level}()`
+        );
+      }
+    }
+  }
+
+  const logLevel =
+    options.logLevel ?? (debug === true ? "debug" : logger ? "info" : "silent");
+  if (!LOG_LEVELS.includes(logLevel)) {
+    throw new MeshesConfigurationError(`Unsupported log level: ${logLevel}`);
+  }
+
+  const redactOption = options.redact ?? true;
+  if (
+    typeof redactOption !== "boolean" &&
+    (!Array.isArray(redactOption) ||
+      !redactOption.every((k) => typeof k === "string"))
+  ) {
+    throw new MeshesConfigurationError("Invalid redact option", redactOption);
+  }
+  const redactKeys =
+    redactOption === true
+      ? DEFAULT_REDACT_KEYS
+      : redactOption === false
+        ? []
+        : redactOption;
+
+  const target = logger ?? consoleLogger;
+  const threshold = LOG_LEVELS.indexOf(logLevel);
+
+  return (level, message, fields = {}) => {
+    if (LOG_LEVELS.indexOf(level) < threshold) {
+      return;
+    }
+    const entry = /** @type {Record<string, unknown>} */ (
+      redactKeys.length > 0 ? redact(fields, redactKeys) : fields
+    );
+    target[level](entry, message);
+  };
+};
@@ -0,0 +1,29 @@
+/** @typedef {(request: any) => Promise<any>} MeshesHandler */
+/** @typedef {(request: any, next: MeshesHandler) => any} MeshesHandlerMiddleware */
+
+/**
+ * Valid middleware stages
+ * @type {string[]}
+ * @constant
+ */
+export const validMiddlewareStages = ["request", "transport"];
+
+/**
+ * Compose middleware into a single handler.  The first middleware is the
+ * outermost one; each middleware calls `next` to run the rest of the chain.
+ * @param {MeshesHandlerMiddleware[]} middleware - Middleware, outermost first
+ * @param {MeshesHandler} handler - Innermost handler
+ * @returns {MeshesHandler} - The composed handler; never throws synchronously
+ */
+export const composeMiddleware = (middleware, handler) => {
+  let composed = handler;
+  for (let i = middleware.length - 1; i >= 0; i--) {
+    const fn = middleware[i];
+    const next = composed;
+    composed = (request) =>
+      new Promise((resolve) => {
+        resolve(fn(request, next));
+      });
+  }
+  return composed;
+};
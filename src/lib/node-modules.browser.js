@@ -0,0 +1,32 @@
+/**
+ * Browser and edge runtime replacement of `node-modules.js`: Node.js built-in
+ * modules are never available
+ */
+
+/**
+ * Reject with an error for a Node.js module that isn't available
+ * @param {string} name - Module name, without the `node:` prefix
+ * @returns {Promise<never>}
+ */
+const unavailable = (name) =>
+  Promise.reject(
+    new Error(`The Node.js ${name} module is not available in this runtime`)
+  );
+
+/**
+ * Load `node:zlib`
+ * @returns {Promise<never>}
+ */
+export const loadZlib = () => unavailable("zlib");
+
+/**
+ * Load `node:crypto`
+ * @returns {Promise<never>}
+ */
+export const loadCrypto = () => unavailable("crypto");
+
+/**
+ * Load `node:fs/promises`
+ * @returns {Promise<never>}
+ */
+export const loadFs = () => unavailable("fs/promises");
@@ -0,0 +1,23 @@
+/**
+ * Load Node.js built-in modules on demand.  The browser build replaces this
+ * module with `node-modules.browser.js`, so bundles for browsers and edge
+ * runtimes don't import `node:` modules.
+ */
+
+/**
+ * Load `node:zlib`
+ * @returns {Promise<typeof import("node:zlib")>}
+ */
+export const loadZlib = () => import("node:zlib");
+
+/**
+ * Load `node:crypto`
+ * @returns {Promise<typeof import("node:crypto")>}
+ */
+export const loadCrypto = () => import("node:crypto");
+
+/**
+ * Load `node:fs/promises`
+ * @returns {Promise<typeof import("node:fs/promises")>}
+ */
+export const loadFs = () => import("node:fs/promises");
@@ -0,0 +1,383 @@
+/** @typedef {import("../index.js").MeshesIdentityField} MeshesIdentityField */
+/** @typedef {import("../index.js").MeshesIdentityFieldResult} MeshesIdentityFieldResult */
+/** @typedef {import("../index.js").MeshesNormalizeOptions} MeshesNormalizeOptions */
+/** @typedef {import("../index.js").MeshesNormalizeResult} MeshesNormalizeResult */
+/** @typedef {import("../index.js").MeshesValidationIssue} MeshesValidationIssue */
+
+import { MeshesConfigurationError, MeshesValidationError } from "./errors.js";
+import { loadCrypto } from "./node-modules.js";
+
+/**
+ * Default normalization options
+ * @type {MeshesNormalizeOptions & Required<Pick<MeshesNormalizeOptions, "hash" | "invalid">>}
+ * @constant
+ */
+export const defaultNormalizeOptions = {
+  hash: [],
+  invalid: "keep",
+};
+
+/**
+ * Identity fields, in the order they are normalized
+ * @type {MeshesIdentityField[]}
+ * @constant
+ */
+const identityFields = [
+  "email",
+  "phone",
+  "first_name",
+  "last_name",
+  "ip_address",
+];
+
+/**
+ * Valid handling of invalid values
+ * @type {string[]}
+ * @constant
+ */
+const validInvalidPolicies = ["keep", "remove", "reject"];
+
+/**
+ * Country calling codes by ISO 3166-1 alpha-2 country code
+ * @type {Record<string, string>}
+ * @constant
+ */
+const callingCodes = {
+  AE: "971",
+  AR: "54",
+  AT: "43",
+  AU: "61",
+  BD: "880",
+  BE: "32",
+  BG: "359",
+  BR: "55",
+  CA: "1",
+  CH: "41",
+  CL: "56",
+  CN: "86",
+  CO: "57",
+  CY: "357",
+  CZ: "420",
+  DE: "49",
+  DK: "45",
+  EE: "372",
+  EG: "20",
+  ES: "34",
+  FI: "358",
+  FR: "33",
+  GB: "44",
+  GH: "233",
+  GR: "30",
+  HK: "852",
+  HR: "385",
+  HU: "36",
+  ID: "62",
+  IE: "353",
+  IL: "972",
+  IN: "91",
+  IS: "354",
+  IT: "39",
+  JP: "81",
+  KE: "254",
+  KR: "82",
+  LT: "370",
+  LU: "352",
+  LV: "371",
+  MA: "212",
+  MT: "356",
+  MX: "52",
+  MY: "60",
+  NG: "234",
+  NL: "31",
+  NO: "47",
+  NZ: "64",
+  PE: "51",
+  PH: "63",
+  PK: "92",
+  PL: "48",
+  PR: "1",
+  PT: "351",
+  RO: "40",
+  RS: "381",
+  SA: "966",
+  SE: "46",
+  SG: "65",
+  SI: "386",
+  SK: "421",
+  TH: "66",
+  TR: "90",
+  TW: "886",
+  UA: "380",
+  US: "1",
+  VN: "84",
+  ZA: "27",
+};
+
+/**
+ * Countries whose national numbers keep their leading zero after the
+ * calling code
+ * @type {string[]}
+ * @constant
+ */
+const leadingZeroCountries = ["IT"];
+
+/**
+ * Normalize an email address: trimmed and lower case
+ * @param {unknown} email - The email address
+ * @returns {string | undefined} - The normalized email; undefined if invalid
+ */
+export const normalizeEmail = (email) => {
+  if (typeof email !== "string") {
+    return undefined;
+  }
+  const normalized = email.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized) ? normalized : undefined;
+};
+
+/**
+ * Normalize a phone number to E.164 (`+14155550123`).  Numbers without an
+ * international prefix (`+` or `00`) need a default country.
+ * @param {unknown} phone - The phone number
+ * @param {string} [defaultCountry] - ISO 3166-1 alpha-2 country code for national numbers
+ * @returns {string | undefined} - The normalized phone number; undefined if invalid
+ */
+export const normalizePhone = (phone, defaultCountry = undefined) => {
+  if (typeof phone !== "string" || !/^[\d\s().+-]+$/.test(phone.trim())) {
+    return undefined;
+  }
+  const trimmed = phone.trim();
+  let digits = trimmed.replace(/\D/g, "");
+  if (trimmed.startsWith("+")) {
+    // already international
+  } else if (digits.startsWith("00")) {
+    digits = digits.slice(2);
+  } else {
+    const country = defaultCountry?.toUpperCase();
+    const code = country ? callingCodes[country] : undefined;
+    if (!code) {
+      return undefined;
+    }
+    if (code === "1") {
+      // North American numbers may include the country code
+      digits =
+        digits.length === 11 && digits.startsWith("1") ? digits : code + digits;
+    } else {
+      const national =
+        country && leadingZeroCountries.includes(country)
+          ? digits
+          : digits.replace(/^0/, "");
+      digits = code + national;
+    }
+  }
+  const normalized = `+${digits}`;
+  return /^\+[1-9]\d{6,14}$/.test(normalized) ? normalized : undefined;
+};
+
+/**
+ * Normalize a name: trimmed, with whitespace collapsed
+ * @param {unknown} name - The name
+ * @returns {string | undefined} - The normalized name; undefined if invalid
+ */
+export const normalizeName = (name) => {
+  if (typeof name !== "string") {
+    return undefined;
+  }
+  const normalized = name.trim().replace(/\s+/g, " ");
+  return normalized ? normalized : undefined;
+};
+
+/**
+ * Whether the string is a valid IPv4 address
+ * @param {string} value - The address
+ * @returns {boolean}
+ */
+const isIPv4 = (value) => {
+  const octets = value.split(".");
+  return (
+    octets.length === 4 &&
+    octets.every((o) => /^(0|[1-9]\d{0,2})$/.test(o) && Number(o) <= 255)
+  );
+};
+
+/**
+ * Whether the string is a valid IPv6 address
+ * @param {string} value - The address
+ * @returns {boolean}
+ */
+const isIPv6 = (value) => {
+  const halves = value.split("::");
+  if (halves.length > 2) {
+    return false;
+  }
+  const groups = halves.flatMap((half) => (half ? half.split(":") : []));
+  // an embedded IPv4 address takes the place of two groups
+  const last = groups[groups.length - 1];
+  const ipv4 = !!last && last.includes(".");
+  if (ipv4 && !isIPv4(/** @type {string} */ (groups.pop()))) {
+    return false;
+  }
+  const count = groups.length + (ipv4 ? 2 : 0);
+  if (halves.length === 2 ? count > 7 : count !== 8) {
+    return false;
+  }
+  return groups.every((g) => /^[0-9a-f]{1,4}$/.test(g));
+};
+
+/**
+ * Normalize an IP address: trimmed, with IPv6 in lower case
+ * @param {unknown} ipAddress - The IPv4 or IPv6 address
+ * @returns {string | undefined} - The normalized IP address; undefined if invalid
+ */
+export const normalizeIpAddress = (ipAddress) => {
+  if (typeof ipAddress !== "string") {
+    return undefined;
+  }
+  const normalized = ipAddress.trim().toLowerCase();
+  return isIPv4(normalized) || isIPv6(normalized) ? normalized : undefined;
+};
+
+/**
+ * Hash a value with SHA-256, with the Web Crypto API or `node:crypto` where it
+ * isn't available
+ * @param {string} value - The value to hash
+ * @returns {Promise<string>} - The lower case hex digest
+ */
+export const hashIdentity = async (value) => {
+  const subtle = globalThis.crypto?.subtle;
+  if (subtle) {
+    const digest = await subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(value)
+    );
+    return Array.from(new Uint8Array(digest), (b) =>
+      b.toString(16).padStart(2, "0")
+    ).join("");
+  }
+  const { createHash } = await loadCrypto();
+  return createHash("sha256").update(value).digest("hex");
+};
+
+/**
+ * Resolve the normalize option
+ * @param {unknown} normalize - Normalize option
+ * @returns {MeshesNormalizeOptions & typeof defaultNormalizeOptions | undefined} - The normalization options, if enabled
+ * @throws {MeshesConfigurationError} - Invalid normalization options
+ */
+export const resolveNormalizeOptions = (normalize) => {
+  if (typeof normalize === "undefined" || normalize === false) {
+    return undefined;
+  }
+  if (
+    normalize !== true &&
+    (!normalize || typeof normalize !== "object" || Array.isArray(normalize))
+  ) {
+    throw new MeshesConfigurationError(
+      `Invalid normalize options: ${typeof normalize}`,
+      normalize
+    );
+  }
+  /** @type {MeshesNormalizeOptions & typeof defaultNormalizeOptions} */
+  const resolved = {
+    ...defaultNormalizeOptions,
+    ...(normalize === true ? {} : normalize),
+  };
+  if (
+    typeof resolved.defaultCountry !== "undefined" &&
+    (typeof resolved.defaultCountry !== "string" ||
+      !callingCodes[resolved.defaultCountry.toUpperCase()])
+  ) {
+    throw new MeshesConfigurationError(
+      `Unsupported default country: ${resolved.defaultCountry}`
+    );
+  }
+  if (
+    !Array.isArray(resolved.hash) ||
+    !resolved.hash.every((field) => identityFields.includes(field))
+  ) {
+    throw new MeshesConfigurationError(
+      `Invalid hashed fields: ${resolved.hash}`,
+      resolved.hash
+    );
+  }
+  if (!validInvalidPolicies.includes(resolved.invalid)) {
+    throw new MeshesConfigurationError(
+      `Unsupported invalid value handling: ${resolved.invalid}`
+    );
+  }
+  if (
+    typeof resolved.onNormalize !== "undefined" &&
+    typeof resolved.onNormalize !== "function"
+  ) {
+    throw new MeshesConfigurationError(
+      `Invalid onNormalize callback: ${typeof resolved.onNormalize}`
+    );
+  }
+  return resolved;
+};
+
+/**
+ * Normalize the identity fields of an event payload, and hash the selected
+ * fields.  Selected fields are never left in cleartext: invalid values kept
+ * with `invalid: "keep"` are hashed trimmed, or removed if not a string.
+ * @param {Record<string, unknown>} payload - The event payload
+ * @param {MeshesNormalizeOptions} [options] - Normalization options
+ * @returns {Promise<MeshesNormalizeResult>} - A new payload, and the result for each identity field in the payload
+ * @throws {MeshesValidationError} - Invalid values, with `invalid: "reject"`
+ */
+export const normalizeIdentity = async (payload, options = {}) => {
+  const { defaultCountry, hash, invalid } =
+    resolveNormalizeOptions(options) ?? defaultNormalizeOptions;
+
+  /** @type {Record<MeshesIdentityField, (value: unknown) => string | undefined>} */
+  const normalizers = {
+    email: normalizeEmail,
+    phone: (value) => normalizePhone(value, defaultCountry),
+    first_name: normalizeName,
+    last_name: normalizeName,
+    ip_address: normalizeIpAddress,
+  };
+
+  const normalized = { ...payload };
+  /** @type {MeshesNormalizeResult["fields"]} */
+  const fields = {};
+  /** @type {MeshesValidationIssue[]} */
+  const issues = [];
+
+  for (const field of identityFields) {
+    const value = payload[field];
+    if (value === undefined || value === null || value === "") {
+      continue;
+    }
+    const result = normalizers[field](value);
+    if (typeof result === "undefined") {
+      issues.push({ path: [field], message: `Invalid ${field}` });
+      if (
+        invalid !== "remove" &&
+        hash.includes(field) &&
+        typeof value === "string"
+      ) {
+        normalized[field] = await hashIdentity(value.trim());
+        fields[field] = "invalid";
+      } else if (invalid === "remove" || hash.includes(field)) {
+        delete normalized[field];
+        fields[field] = "removed";
+      } else {
+        fields[field] = "invalid";
+      }
+    } else if (hash.includes(field)) {
+      normalized[field] = await hashIdentity(result);
+      fields[field] = "hashed";
+    } else {
+      normalized[field] = result;
+      fields[field] = result === value ? "unchanged" : "normalized";
+    }
+  }
+
+  if (invalid === "reject" && issues.length > 0) {
+    throw new MeshesValidationError(
+      "Invalid event: identity fields failed validation",
+      { payload, issues }
+    );
+  }
+  return { payload: normalized, fields };
+};
@@ -0,0 +1,142 @@
+/** @typedef {import("../index.js").MeshesOutboxEntry} MeshesOutboxEntry */
+/** @typedef {import("../index.js").MeshesOutboxStorage} MeshesOutboxStorage */
+
+import { MeshesConfigurationError } from "./errors.js";
+import { loadFs } from "./node-modules.js";
+
+/**
+ * Determine if a stored value is a valid outbox entry
+ * @param {any} entry - The stored value
+ * @returns {entry is MeshesOutboxEntry}
+ */
+const isOutboxEntry = (entry) =>
+  !!entry &&
+  typeof entry === "object" &&
+  typeof entry.id === "string" &&
+  typeof entry.createdAt === "number" &&
+  !!entry.event &&
+  typeof entry.event === "object";
+
+/**
+ * Outbox storage backed by a JSONL file, one entry per line
+ * @class
+ * @implements {MeshesOutboxStorage}
+ */
+export class MeshesFileOutboxStorage {
+  #path;
+
+  /**
+   * Create the file outbox storage.
+   * @param {string} path - Path of the JSONL file
+   * @constructor - Meshes File Outbox Storage constructor
+   */
+  constructor(path) {
+    if (typeof path !== "string" || !path.trim()) {
+      throw new MeshesConfigurationError(`Invalid outbox path: ${path}`);
+    }
+    this.#path = path;
+  }
+
+  /**
+   * Read all stored entries; lines that can't be parsed are skipped
+   * @returns {Promise<MeshesOutboxEntry[]>}
+   */
+  async read() {
+    const { readFile } = await loadFs();
+    let text;
+    try {
+      text = await readFile(this.#path, "utf8");
+    } catch (err) {
+      if (/** @type {NodeJS.ErrnoException} */ (err).code === "ENOENT") {
+        return [];
+      }
+      throw err;
+    }
+
+    /** @type {MeshesOutboxEntry[]} */
+    const entries = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const entry = JSON.parse(line);
+        if (isOutboxEntry(entry)) {
+          entries.push(entry);
+        }
+      } catch {
+        // a partially written line, e.g. after a crash
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Add entries to the end of the file
+   * @param {MeshesOutboxEntry[]} entries - The entries to add
+   * @returns {Promise<void>}
+   */
+  async append(entries) {
+    if (entries.length === 0) {
+      return;
+    }
+    const { appendFile } = await loadFs();
+    await appendFile(
+      this.#path,
+      entries.map((e) => `${JSON.stringify(e)}\n`).join(""),
+      "utf8"
+    );
+  }
+
+  /**
+   * Replace the file contents; written to a temporary file and renamed
+   * @param {MeshesOutboxEntry[]} entries - The entries to store
+   * @returns {Promise<void>}
+   */
+  async write(entries) {
+    const { rename, writeFile } = await loadFs();
+    const tmp = `${this.#path}.tmp`;
+    await writeFile(
+      tmp,
+      entries.map((e) => `${JSON.stringify(e)}\n`).join(""),
+      "utf8"
+    );
+    await rename(tmp, this.#path);
+  }
+}
+
+/**
+ * In-memory outbox storage; entries don't survive process restarts
+ * @class
+ * @implements {MeshesOutboxStorage}
+ */
+export class MeshesMemoryOutboxStorage {
+  /** @type {MeshesOutboxEntry[]} */
+  #entries = [];
+
+  /**
+   * Read all stored entries
+   * @returns {Promise<MeshesOutboxEntry[]>}
+   */
+  async read() {
+    return [...this.#entries];
+  }
+
+  /**
+   * Add entries after the stored entries
+   * @param {MeshesOutboxEntry[]} entries - The entries to add
+   * @returns {Promise<void>}
+   */
+  async append(entries) {
+    this.#entries.push(...entries);
+  }
+
+  /**
+   * Replace all stored entries
+   * @param {MeshesOutboxEntry[]} entries - The entries to store
+   * @returns {Promise<void>}
+   */
+  async write(entries) {
+    this.#entries = [...entries];
+  }
+}
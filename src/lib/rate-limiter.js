@@ -0,0 +1,226 @@
+/** @typedef {import("../index.js").MeshesRateLimitOptions} MeshesRateLimitOptions */
+
+import { MeshesConfigurationError, MeshesRateLimitError } from "./errors.js";
+import { sleep } from "./helpers.js";
+
+/**
+ * Valid overflow policies
+ * @type {string[]}
+ * @constant
+ */
+const validOverflowPolicies = ["queue", "reject"];
+
+/**
+ * Token bucket that refills continuously at a fixed rate
+ * @class
+ */
+export class TokenBucket {
+  #rate;
+  #capacity;
+  #tokens;
+  #updatedAt;
+
+  /**
+   * Create a full token bucket.
+   * @param {number} rate - Tokens added per second
+   * @param {number} capacity - Maximum number of tokens
+   * @constructor - Token Bucket constructor
+   */
+  constructor(rate, capacity) {
+    this.#rate = rate;
+    this.#capacity = capacity;
+    this.#tokens = capacity;
+    this.#updatedAt = Date.now();
+  }
+
+  /**
+   * Time until the given number of tokens is available.  Takes larger than
+   * the capacity only need a full bucket, and leave it in debt.
+   * @param {number} count - Number of tokens
+   * @returns {number} - Milliseconds; 0 if available now
+   */
+  wait(count) {
+    this.#refill();
+    const needed = Math.min(count, this.#capacity) - this.#tokens;
+    return needed > 0 ? Math.ceil((needed / this.#rate) * 1000) : 0;
+  }
+
+  /**
+   * Take tokens, which must be available
+   * @param {number} count - Number of tokens
+   * @returns {void}
+   */
+  take(count) {
+    this.#refill();
+    this.#tokens -= count;
+  }
+
+  /**
+   * Add the tokens accrued since the last update
+   * @returns {void}
+   */
+  #refill() {
+    const now = Date.now();
+    this.#tokens = Math.min(
+      this.#capacity,
+      this.#tokens + ((now - this.#updatedAt) / 1000) * this.#rate
+    );
+    this.#updatedAt = now;
+  }
+}
+
+/**
+ * Client-side rate limiter for requests and events per second
+ * @class
+ */
+export class RateLimiter {
+  /** @type {TokenBucket | undefined} */
+  #requests;
+  /** @type {TokenBucket | undefined} */
+  #events;
+  #overflow;
+  /** @type {Promise<void>} */
+  #pending = Promise.resolve();
+
+  /**
+   * Create the rate limiter.
+   * @param {MeshesRateLimitOptions} options - Rate limit options
+   * @constructor - Rate Limiter constructor
+   * @throws {MeshesConfigurationError} - Invalid rate limit options
+   */
+  constructor(options) {
+    if (!options || typeof options !== "object" || Array.isArray(options)) {
+      throw new MeshesConfigurationError(
+        `Invalid rate limit options: ${typeof options}`,
+        options
+      );
+    }
+    const { requestsPerSecond, eventsPerSecond } = options;
+    for (const [key, value] of Object.entries({
+      requestsPerSecond,
+      eventsPerSecond,
+    })) {
+      if (
+        typeof value !== "undefined" &&
+        (typeof value !== "number" || !(value > 0) || value === Infinity)
+      ) {
+        throw new MeshesConfigurationError(
+          `Unsupported rate limit ${key}: ${value}`
+        );
+      }
+    }
+    if (
+      typeof requestsPerSecond === "undefined" &&
+      typeof eventsPerSecond === "undefined"
+    ) {
+      throw new MeshesConfigurationError(
+        "Invalid rate limit options: requestsPerSecond or eventsPerSecond is required",
+        options
+      );
+    }
+    const overflow = options.overflow ?? "queue";
+    if (!validOverflowPolicies.includes(overflow)) {
+      throw new MeshesConfigurationError(
+        `Unsupported rate limit overflow policy: ${overflow}`
+      );
+    }
+
+    // bursts of up to one second's worth are allowed
+    if (requestsPerSecond) {
+      this.#requests = new TokenBucket(
+        requestsPerSecond,
+        Math.max(1, requestsPerSecond)
+      );
+    }
+    if (eventsPerSecond) {
+      this.#events = new TokenBucket(
+        eventsPerSecond,
+        Math.max(1, eventsPerSecond)
+      );
+    }
+    this.#overflow = overflow;
+  }
+
+  /**
+   * Wait until a request with the given number of events may be sent.  Calls
+   * are released in order.
+   * @param {number} eventCount - Number of events in the request
+   * @param {AbortSignal} [signal] - Cancels the wait; no tokens are taken once aborted
+   * @returns {Promise<void>} - Resolves when the request may be sent, or once the signal is aborted
+   * @throws {MeshesRateLimitError} - The limit is exceeded and the overflow policy is "reject"
+   */
+  acquire(eventCount, signal = undefined) {
+    if (this.#overflow === "reject") {
+      const retryAfterMs = this.#wait(eventCount);
+      if (retryAfterMs > 0) {
+        return Promise.reject(
+          new MeshesRateLimitError("Meshes client rate limit exceeded", {
+            retryAfterMs,
+            limit: this.#limit(),
+          })
+        );
+      }
+      this.#take(eventCount);
+      return Promise.resolve();
+    }
+
+    const acquired = this.#pending.then(async () => {
+      for (
+        let delay = this.#wait(eventCount);
+        delay > 0 && !signal?.aborted;
+        delay = this.#wait(eventCount)
+      ) {
+        await sleep(delay, signal);
+      }
+      if (!signal?.aborted) {
+        this.#take(eventCount);
+      }
+    });
+    this.#pending = acquired;
+    if (!signal) {
+      return acquired;
+    }
+
+    // don't wait for the requests queued ahead once aborted
+    return new Promise((resolve) => {
+      const onAbort = () => resolve();
+      signal.addEventListener("abort", onAbort, { once: true });
+      acquired.then(() => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Time until both buckets have enough tokens
+   * @param {number} eventCount - Number of events in the request
+   * @returns {number} - Milliseconds
+   */
+  #wait(eventCount) {
+    return Math.max(
+      this.#requests?.wait(1) ?? 0,
+      eventCount > 0 ? (this.#events?.wait(eventCount) ?? 0) : 0
+    );
+  }
+
+  /**
+   * Take the tokens for a request
+   * @param {number} eventCount - Number of events in the request
+   * @returns {void}
+   */
+  #take(eventCount) {
+    this.#requests?.take(1);
+    if (eventCount > 0) {
+      this.#events?.take(eventCount);
+    }
+  }
+
+  /**
+   * The limit that is exceeded
+   * @returns {"requests" | "events"}
+   */
+  #limit() {
+    return (this.#requests?.wait(1) ?? 0) > 0 ? "requests" : "events";
+  }
+}
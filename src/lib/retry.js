@@ -0,0 +1,186 @@
+/** @typedef {import("../index.js").MeshesRetryOptions} MeshesRetryOptions */
+/** @typedef {import("../index.js").MeshesRetryErrorKind} MeshesRetryErrorKind */
+/** @typedef {Required<Omit<MeshesRetryOptions, "statuses">> & { statuses?: number[] }} ResolvedRetryOptions */
+
+import { MeshesApiError, MeshesConfigurationError } from "./errors.js";
+
+/**
+ * Maximum number of attempts allowed for a single logical request
+ * @type {number}
+ * @constant
+ */
+export const MAX_RETRY_ATTEMPTS = 10;
+
+/**
+ * Default retry policy used when retries are enabled
+ * @type {ResolvedRetryOptions}
+ * @constant
+ */
+export const defaultRetryOptions = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  jitter: true,
+  errors: ["timeout", "network"],
+};
+
+/**
+ * Validate and resolve the retry option into a full retry policy
+ * @param {boolean | MeshesRetryOptions | undefined} retry - Retry option
+ * @returns {ResolvedRetryOptions | undefined} - Resolved retry policy, or undefined if retries are disabled
+ * @throws {MeshesConfigurationError} - Invalid retry options
+ */
+export const resolveRetryOptions = (retry) => {
+  if (typeof retry === "undefined" || retry === false) {
+    return undefined;
+  }
+  if (retry === true) {
+    return { ...defaultRetryOptions };
+  }
+  if (!retry || typeof retry !== "object" || Array.isArray(retry)) {
+    throw new MeshesConfigurationError(
+      `Invalid retry options: ${typeof retry}`,
+      retry
+    );
+  }
+
+  const resolved = { ...defaultRetryOptions, ...retry };
+  if (
+    !Number.isInteger(resolved.maxAttempts) ||
+    resolved.maxAttempts < 1 ||
+    resolved.maxAttempts > MAX_RETRY_ATTEMPTS
+  ) {
+    throw new MeshesConfigurationError(
+      `Unsupported retry max attempts: ${resolved.maxAttempts}`,
+      retry
+    );
+  }
+  for (const key of /** @type {const} */ (["baseDelay", "maxDelay"])) {
+    if (typeof resolved[key] !== "number" || resolved[key] < 0) {
+      throw new MeshesConfigurationError(
+        `Invalid retry ${key}: ${resolved[key]}`,
+        retry
+      );
+    }
+  }
+  if (typeof resolved.jitter !== "boolean") {
+    throw new MeshesConfigurationError(
+      `Invalid retry jitter: ${resolved.jitter}`,
+      retry
+    );
+  }
+  if (
+    typeof resolved.statuses !== "undefined" &&
+    (!Array.isArray(resolved.statuses) ||
+      !resolved.statuses.every((s) => Number.isInteger(s)))
+  ) {
+    throw new MeshesConfigurationError("Invalid retry statuses", retry);
+  }
+  if (
+    !Array.isArray(resolved.errors) ||
+    !resolved.errors.every((e) => e === "timeout" || e === "network")
+  ) {
+    throw new MeshesConfigurationError("Invalid retry errors", retry);
+  }
+  return resolved;
+};
+
+/**
+ * Determine if a failed attempt should be retried based on the retry policy
+ * @param {ResolvedRetryOptions} retry - Resolved retry policy
+ * @param {{ kind: MeshesRetryErrorKind | "status" | "parse" | "cancelled" | "middleware", status?: number }} failure - The failed attempt
+ * @returns {boolean} - Whether or not the attempt is retryable
+ */
+export const isRetryable = (retry, failure) => {
+  if (failure.kind === "status") {
+    const status = failure.status ?? 0;
+    if (retry.statuses) {
+      return retry.statuses.includes(status);
+    }
+    return status === 408 || status === 429 || status >= 500;
+  }
+  if (
+    failure.kind === "parse" ||
+    failure.kind === "middleware" ||
+    failure.kind === "cancelled"
+  ) {
+    return false;
+  }
+  return retry.errors.includes(failure.kind);
+};
+
+/**
+ * Compute the exponential backoff delay for the given attempt
+ * @param {ResolvedRetryOptions} retry - Resolved retry policy
+ * @param {number} attempt - The attempt that just failed (1-based)
+ * @returns {number} - Delay in milliseconds
+ */
+export const getBackoffDelay = (retry, attempt) => {
+  const delay = Math.min(
+    retry.maxDelay,
+    retry.baseDelay * Math.pow(2, attempt - 1)
+  );
+  return retry.jitter ? Math.floor(Math.random() * delay) : delay;
+};
+
+/**
+ * Parse a Retry-After header value (delta seconds or HTTP date)
+ * @param {string | null | undefined} value - Header value
+ * @returns {number | undefined} - Delay in milliseconds, or undefined if missing/invalid
+ */
+export const parseRetryAfter = (value) => {
+  if (typeof value !== "string" || !value.trim()) {
+    return undefined;
+  }
+  const v = value.trim();
+  if (/^\d+(\.\d+)?$/.test(v)) {
+    return Math.ceil(Number(v) * 1000);
+  }
+  const date = Date.parse(v);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+};
+
+/**
+ * Rate limit headers with the number of seconds until the limit resets
+ * @type {string[]}
+ * @constant
+ */
+const RATE_LIMIT_RESET_HEADERS = ["ratelimit-reset", "x-ratelimit-reset"];
+
+/**
+ * Parse the time to wait before retrying a rate limited request, from the
+ * `Retry-After` header or the `RateLimit-Reset` / `X-RateLimit-Reset` headers
+ * @param {{ get(name: string): string | null } | undefined} headers - Response headers
+ * @returns {number | undefined} - Delay in milliseconds, or undefined if not present or invalid
+ */
+export const parseRateLimitReset = (headers) => {
+  const retryAfter = parseRetryAfter(
+    headers?.get?.("retry-after") ?? undefined
+  );
+  if (typeof retryAfter === "number") {
+    return retryAfter;
+  }
+  for (const name of RATE_LIMIT_RESET_HEADERS) {
+    const value = headers?.get?.(name)?.trim();
+    if (!value || !/^\d+(\.\d+)?$/.test(value)) {
+      continue;
+    }
+    const seconds = Number(value);
+    // some APIs send the reset time as a unix timestamp instead of a delay
+    return seconds > 1e9
+      ? Math.max(0, Math.ceil(seconds * 1000 - Date.now()))
+      : Math.ceil(seconds * 1000);
+  }
+  return undefined;
+};
+
+/**
+ * Determine if a request error could be retried later
+ * @param {unknown} err - The request error
+ * @returns {err is MeshesApiError & { retryable: true }} - Whether or not the error is retryable
+ */
+export const isRetryableError = (err) =>
+  err instanceof MeshesApiError && err.retryable;
@@ -0,0 +1,75 @@
+/** @typedef {import("../index.js").Headers} Headers */
+/** @typedef {import("../index.js").MeshesTracer} MeshesTracer */
+/** @typedef {import("../index.js").MeshesSpan} MeshesSpan */
+
+import { MeshesConfigurationError } from "./errors.js";
+
+/**
+ * OpenTelemetry `SpanKind.CLIENT`
+ * @type {number}
+ * @constant
+ */
+export const SPAN_KIND_CLIENT = 2;
+
+/**
+ * OpenTelemetry `SpanStatusCode.ERROR`
+ * @type {number}
+ * @constant
+ */
+export const SPAN_STATUS_ERROR = 2;
+
+/**
+ * W3C trace context headers
+ * @type {string[]}
+ * @constant
+ */
+export const TRACE_CONTEXT_HEADERS = ["traceparent", "tracestate"];
+
+/**
+ * Validate the tracer option
+ * @param {unknown} tracer - Tracer option
+ * @returns {MeshesTracer | undefined} - The tracer, if provided
+ * @throws {MeshesConfigurationError} - Invalid tracer
+ */
+export const resolveTracer = (tracer) => {
+  if (typeof tracer === "undefined") {
+    return undefined;
+  }
+  if (
+    !tracer ||
+    typeof tracer !== "object" ||
+    !("startSpan" in tracer) ||
+    typeof tracer.startSpan !== "function"
+  ) {
+    throw new MeshesConfigurationError(`Invalid tracer: ${typeof tracer}`);
+  }
+  return /** @type {MeshesTracer} */ (tracer);
+};
+
+/**
+ * Set the W3C trace context headers for the span, replacing any existing ones
+ * @param {MeshesSpan} span - The request span
+ * @param {Headers} headers - Request headers (modified in place)
+ * @returns {void}
+ */
+export const applyTraceContext = (span, headers) => {
+  const { traceId, spanId, traceFlags, traceState } = span.spanContext();
+  // all-zero ids are invalid, such as those of a no-op tracer
+  if (
+    !/^(?!0+$)[0-9a-f]{32}$/.test(traceId) ||
+    !/^(?!0+$)[0-9a-f]{16}$/.test(spanId)
+  ) {
+    return;
+  }
+  for (const k of Object.keys(headers)) {
+    if (TRACE_CONTEXT_HEADERS.includes(k.toLowerCase())) {
+      delete headers[k];
+    }
+  }
+  const flags = (traceFlags & 0xff).toString(16).padStart(2, "0");
+  headers["traceparent"] = `00-${traceId}-${spanId}-${flags}`;
+  const state = traceState?.serialize();
+  if (state) {
+    headers["tracestate"] = state;
+  }
+};
@@ -0,0 +1,60 @@
+/** @typedef {import("../index.js").MeshesFetch} MeshesFetch */
+/** @typedef {import("../index.js").MeshesTransport} MeshesTransport */
+
+import { MeshesConfigurationError } from "./errors.js";
+
+/**
+ * Send requests with the global fetch, looked up per request so it can be
+ * polyfilled or replaced after the client is created
+ * @type {MeshesFetch}
+ */
+const globalFetch = (url, init) =>
+  fetch(url, /** @type {RequestInit} */ (init));
+
+/**
+ * Validate the transport option and adapt it to a fetch function
+ * @param {unknown} transport - Transport option
+ * @returns {MeshesFetch} - The fetch function used to send requests
+ * @throws {MeshesConfigurationError} - Invalid transport
+ */
+export const resolveTransport = (transport) => {
+  if (typeof transport === "undefined") {
+    return globalFetch;
+  }
+  if (typeof transport === "function") {
+    return /** @type {MeshesFetch} */ (transport);
+  }
+  if (
+    typeof transport === "object" &&
+    transport !== null &&
+    "send" in transport &&
+    typeof transport.send === "function"
+  ) {
+    const { send } = /** @type {MeshesTransport} */ (transport);
+    return (url, init) => send.call(transport, { ...init, url });
+  }
+  throw new MeshesConfigurationError(`Invalid transport: ${typeof transport}`);
+};
+
+/**
+ * Validate the fetchOptions option
+ * @param {unknown} fetchOptions - Additional fetch options
+ * @returns {Record<string, unknown>} - The options, or an empty object
+ * @throws {MeshesConfigurationError} - Invalid fetch options
+ */
+export const resolveFetchOptions = (fetchOptions) => {
+  if (typeof fetchOptions === "undefined") {
+    return {};
+  }
+  if (
+    !fetchOptions ||
+    typeof fetchOptions !== "object" ||
+    Array.isArray(fetchOptions)
+  ) {
+    throw new MeshesConfigurationError(
+      `Invalid fetch options: ${typeof fetchOptions}`,
+      fetchOptions
+    );
+  }
+  return /** @type {Record<string, unknown>} */ (fetchOptions);
+};
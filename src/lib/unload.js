@@ -0,0 +1,113 @@
+/** @typedef {import("../index.js").MeshesFetch} MeshesFetch */
+/** @typedef {import("../index.js").MeshesFetchInit} MeshesFetchInit */
+/** @typedef {import("../index.js").MeshesUnloadOptions} MeshesUnloadOptions */
+
+import { MeshesConfigurationError } from "./errors.js";
+
+/**
+ * Default page unload delivery options
+ * @type {Required<MeshesUnloadOptions>}
+ * @constant
+ */
+export const defaultUnloadOptions = {
+  method: "keepalive",
+};
+
+/**
+ * Valid page unload delivery methods
+ * @type {string[]}
+ * @constant
+ */
+const validUnloadMethods = ["keepalive", "beacon"];
+
+/**
+ * Resolve the flushOnUnload option
+ * @param {unknown} flushOnUnload - flushOnUnload option
+ * @returns {Required<MeshesUnloadOptions> | undefined} - The unload options, if enabled
+ * @throws {MeshesConfigurationError} - Invalid unload options
+ */
+export const resolveUnloadOptions = (flushOnUnload) => {
+  if (typeof flushOnUnload === "undefined" || flushOnUnload === false) {
+    return undefined;
+  }
+  if (
+    flushOnUnload !== true &&
+    (!flushOnUnload ||
+      typeof flushOnUnload !== "object" ||
+      Array.isArray(flushOnUnload))
+  ) {
+    throw new MeshesConfigurationError(
+      `Invalid flushOnUnload options: ${typeof flushOnUnload}`,
+      flushOnUnload
+    );
+  }
+  /** @type {Required<MeshesUnloadOptions>} */
+  const resolved = {
+    ...defaultUnloadOptions,
+    ...(flushOnUnload === true ? {} : flushOnUnload),
+  };
+  if (!validUnloadMethods.includes(resolved.method)) {
+    throw new MeshesConfigurationError(
+      `Unsupported flushOnUnload method: ${resolved.method}`
+    );
+  }
+  return resolved;
+};
+
+/**
+ * Call the handler when the page is hidden or unloaded.  Does nothing outside
+ * of browsers.
+ * @param {() => void} handler - Called on `pagehide`, and when the document becomes hidden
+ * @returns {() => void} - Removes the listeners
+ */
+export const onPageHide = (handler) => {
+  if (typeof globalThis.addEventListener !== "function") {
+    return () => undefined;
+  }
+  const doc = typeof document === "undefined" ? undefined : document;
+  // mobile browsers may discard a hidden page without a pagehide event
+  const onVisibilityChange = () => {
+    if (doc?.visibilityState === "hidden") {
+      handler();
+    }
+  };
+  globalThis.addEventListener("pagehide", handler);
+  doc?.addEventListener("visibilitychange", onVisibilityChange);
+  return () => {
+    globalThis.removeEventListener("pagehide", handler);
+    doc?.removeEventListener("visibilitychange", onVisibilityChange);
+  };
+};
+
+/**
+ * Send a request that outlives the page, with `navigator.sendBeacon` or a
+ * keepalive fetch.  Beacons fall back to fetch if they can't be queued.
+ * @param {MeshesFetch} transport - The fetch function
+ * @param {string} url - Request URL
+ * @param {MeshesFetchInit} init - Request options
+ * @param {Required<MeshesUnloadOptions>["method"]} method - Delivery method
+ * @returns {boolean} - Whether the request was handed to the browser
+ */
+export const sendOnUnload = (transport, url, init, method) => {
+  if (
+    method === "beacon" &&
+    typeof init.body === "string" &&
+    typeof navigator !== "undefined" &&
+    typeof navigator.sendBeacon === "function"
+  ) {
+    try {
+      if (navigator.sendBeacon(url, init.body)) {
+        return true;
+      }
+    } catch {
+      // fall back to fetch
+    }
+  }
+  try {
+    // nobody is left to handle the response
+    transport(url, { ...init, keepalive: true }).catch(() => undefined);
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,234 @@
+/** @typedef {import("../index.js").MeshesEventBody<any>} MeshesEventBody */
+/** @typedef {import("../index.js").MeshesValidator} MeshesValidator */
+/** @typedef {import("../index.js").MeshesValidators} MeshesValidators */
+/** @typedef {import("../index.js").MeshesValidationIssue} MeshesValidationIssue */
+
+import { MeshesConfigurationError, MeshesValidationError } from "./errors.js";
+import { isNonEmpty } from "./helpers.js";
+
+/**
+ * Create the error for an event with an invalid shape
+ * @param {unknown} event - The invalid event
+ * @param {(string | number)[]} path - Path of the invalid field
+ * @param {string} message - Issue message
+ * @returns {MeshesValidationError}
+ */
+const invalidEvent = (event, path, message) =>
+  new MeshesValidationError(`Invalid event: ${message}`, {
+    event,
+    issues: [{ path, message }],
+  });
+
+/**
+ * Validate the event object
+ * @param {MeshesEventBody} event - The event to validate
+ * @returns {void}
+ * @throws {MeshesValidationError} - Invalid event
+ */
+export const validateEvent = (event) => {
+  if (!event || typeof event !== "object") {
+    throw invalidEvent(event, [], "must be an object");
+  }
+  if (typeof event.event !== "string" || !event.event.trim()) {
+    throw invalidEvent(event, ["event"], "missing 'event' string");
+  }
+  if (
+    !event.payload ||
+    typeof event.payload !== "object" ||
+    Array.isArray(event.payload)
+  ) {
+    throw invalidEvent(event, ["payload"], "missing 'payload' object");
+  }
+  const hasAtLeastOneValue = Object.values(event.payload).some(isNonEmpty);
+  if (!hasAtLeastOneValue) {
+    throw invalidEvent(
+      event,
+      ["payload"],
+      "payload must contain at least one value"
+    );
+  }
+};
+
+/**
+ * Validate the validators option
+ * @param {unknown} validators - Map of event names to validators
+ * @returns {MeshesValidators | undefined} - The validators, if any
+ * @throws {MeshesConfigurationError} - Invalid validators
+ */
+export const resolveValidators = (validators) => {
+  if (typeof validators === "undefined") {
+    return undefined;
+  }
+  if (
+    !validators ||
+    typeof validators !== "object" ||
+    Array.isArray(validators)
+  ) {
+    throw new MeshesConfigurationError(
+      `Invalid validators: ${typeof validators}`,
+      validators
+    );
+  }
+  for (const [event, validator] of Object.entries(validators)) {
+    const valid =
+      typeof validator === "function" ||
+      (!!validator &&
+        typeof validator === "object" &&
+        (typeof validator["~standard"]?.validate === "function" ||
+          typeof validator.validate === "function" ||
+          typeof validator.parse === "function"));
+    if (!valid) {
+      throw new MeshesConfigurationError(
+        `Invalid validator for ${event}`,
+        validator
+      );
+    }
+  }
+  return /** @type {MeshesValidators} */ (validators);
+};
+
+/**
+ * Normalize an issue path into an array of keys
+ * @param {unknown} path - Issue path (array of keys or path segments, or a dotted string)
+ * @returns {(string | number)[]} - The path keys
+ */
+const toPath = (path) => {
+  if (Array.isArray(path)) {
+    return path.map((segment) =>
+      segment && typeof segment === "object" && "key" in segment
+        ? segment.key
+        : segment
+    );
+  }
+  if (typeof path === "string" && path) {
+    return path.split(".");
+  }
+  return [];
+};
+
+/**
+ * Read a property of an object-like value
+ * @param {unknown} value - The value
+ * @param {string} key - The property name
+ * @returns {unknown} - The property value; undefined if the value has no such property
+ */
+const field = (value, key) =>
+  value && typeof value === "object" && key in value
+    ? /** @type {Record<string, unknown>} */ (value)[key]
+    : undefined;
+
+/**
+ * Normalize the issues reported by a validator or schema library
+ * @param {unknown} result - Issues, an error, or an error-like object
+ * @returns {MeshesValidationIssue[]} - The field-level issues
+ */
+const toIssues = (result) => {
+  const issues = Array.isArray(result)
+    ? result
+    : (field(result, "issues") ??
+      field(result, "details") ??
+      field(result, "inner"));
+  if (Array.isArray(issues) && issues.length > 0) {
+    return issues.map((/** @type {unknown} */ issue) => ({
+      path: toPath(field(issue, "path")),
+      message:
+        typeof issue === "string"
+          ? issue
+          : String(field(issue, "message") ?? "Invalid value"),
+    }));
+  }
+  const errors = field(result, "errors");
+  if (Array.isArray(errors) && errors.length > 0) {
+    return errors.map((/** @type {unknown} */ message) => ({
+      path: toPath(field(result, "path")),
+      message: String(message),
+    }));
+  }
+  return [
+    {
+      path: toPath(field(result, "path")),
+      message: String(field(result, "message") ?? "Invalid value"),
+    },
+  ];
+};
+
+/**
+ * Normalize the result of a validator call
+ * @param {unknown} result - The validator result
+ * @param {"function" | "standard" | "validate" | "parse"} kind - The validator kind
+ * @returns {MeshesValidationIssue[]} - The field-level issues; empty if valid
+ */
+const toResultIssues = (result, kind) => {
+  if (result === false) {
+    return toIssues(undefined);
+  }
+  if (kind === "parse" || result === true || result == null) {
+    return [];
+  }
+  if (Array.isArray(result)) {
+    return result.length > 0 ? toIssues(result) : [];
+  }
+  if (kind === "function") {
+    return [];
+  }
+  const issues = field(result, "issues");
+  if (Array.isArray(issues)) {
+    return issues.length > 0 ? toIssues(issues) : [];
+  }
+  const error = field(result, "error");
+  if (error) {
+    return toIssues(error);
+  }
+  return [];
+};
+
+/**
+ * Run a validator against an event payload
+ * @param {MeshesValidator} validator - Validator function or schema
+ * @param {MeshesEventBody} event - The event to validate
+ * @returns {MeshesValidationIssue[] | Promise<MeshesValidationIssue[]>} - The field-level issues; empty if valid
+ */
+export const runValidator = (validator, event) => {
+  /** @type {"function" | "standard" | "validate" | "parse"} */
+  let kind;
+  /** @type {unknown} */
+  let result;
+  try {
+    if (typeof validator === "function") {
+      kind = "function";
+      result = validator(event.payload, event);
+    } else if (
+      "~standard" in validator &&
+      typeof validator["~standard"]?.validate === "function"
+    ) {
+      kind = "standard";
+      result = validator["~standard"].validate(event.payload);
+    } else if (
+      "validate" in validator &&
+      typeof validator.validate === "function"
+    ) {
+      kind = "validate";
+      result = validator.validate(event.payload);
+    } else if ("parse" in validator) {
+      kind = "parse";
+      result = validator.parse(event.payload);
+    } else {
+      return toIssues(undefined);
+    }
+  } catch (err) {
+    return toIssues(err);
+  }
+
+  if (
+    result &&
+    typeof result === "object" &&
+    "then" in result &&
+    typeof result.then === "function"
+  ) {
+    return Promise.resolve(result).then(
+      (resolved) => toResultIssues(resolved, kind),
+      (err) => toIssues(err)
+    );
+  }
+  return toResultIssues(result, kind);
+};
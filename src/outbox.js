@@ -0,0 +1,381 @@
+"use strict";
+
+/** @typedef {import("./index.js").MeshesEventBody<any>} MeshesEventBody */
+/** @typedef {import("./index.js").MeshesOutboxOptions} MeshesOutboxOptions */
+/** @typedef {import("./index.js").MeshesOutboxEntry} MeshesOutboxEntry */
+/** @typedef {import("./index.js").MeshesOutboxRequest} MeshesOutboxRequest */
+/** @typedef {import("./index.js").MeshesOutboxStorage} MeshesOutboxStorage */
+/** @typedef {import("./index.js").MeshesOutboxDropReason} MeshesOutboxDropReason */
+/** @typedef {import("./client.js").MeshesEventsClient<any>} MeshesEventsClient */
+
+import { MAX_BULK_EVENTS } from "./lib/bulk.js";
+import { MeshesConfigurationError } from "./lib/errors.js";
+import {
+  hasFixedIdempotencyKey,
+  isNodeRuntime,
+  randomUUID,
+  unrefTimer,
+} from "./lib/helpers.js";
+import {
+  MeshesFileOutboxStorage,
+  MeshesMemoryOutboxStorage,
+} from "./lib/outbox-storage.js";
+import { isRetryableError } from "./lib/retry.js";
+
+/**
+ * Meshes Outbox Options
+ * @type {Required<Pick<MeshesOutboxOptions, "path" | "maxAge" | "maxSize" | "batchSize" | "drainInterval">>}
+ * @constant
+ */
+const defaultOutboxOptions = {
+  path: "meshes-outbox.jsonl",
+  maxAge: 7 * 24 * 60 * 60 * 1000,
+  maxSize: 10000,
+  batchSize: MAX_BULK_EVENTS,
+  drainInterval: 30000,
+};
+
+/**
+ * Meshes Outbox - stores events that failed to send and replays them later
+ * @class
+ */
+export class MeshesOutbox {
+  #client;
+  #options;
+  /** @type {MeshesOutboxStorage} */
+  #storage;
+  /** @type {Promise<unknown>} */
+  #lock = Promise.resolve();
+  /** @type {Promise<number> | undefined} */
+  #draining;
+  /** @type {ReturnType<typeof setTimeout> | undefined} */
+  #timer;
+  #closed = false;
+
+  /**
+   * Create the Meshes Outbox.
+   * @param {MeshesEventsClient} client - Meshes events client used to replay the events
+   * @param {MeshesOutboxOptions} options - Outbox options
+   * @constructor - Meshes Outbox constructor
+   */
+  constructor(client, options = {}) {
+    if (!client || typeof client.emitBatch !== "function") {
+      throw new MeshesConfigurationError("Invalid events client", client);
+    }
+    if (!options || typeof options !== "object" || Array.isArray(options)) {
+      throw new MeshesConfigurationError(
+        `Invalid outbox options object: ${typeof options}`,
+        options
+      );
+    }
+    /** @type {typeof defaultOutboxOptions & MeshesOutboxOptions} */
+    const outboxOptions = { ...defaultOutboxOptions, ...options };
+
+    for (const key of /** @type {const} */ (["maxAge", "drainInterval"])) {
+      if (
+        typeof outboxOptions[key] !== "number" ||
+        outboxOptions[key] < 0 ||
+        Number.isNaN(outboxOptions[key])
+      ) {
+        throw new MeshesConfigurationError(
+          `Invalid outbox ${key}: ${outboxOptions[key]}`
+        );
+      }
+    }
+    if (!Number.isInteger(outboxOptions.maxSize) || outboxOptions.maxSize < 1) {
+      throw new MeshesConfigurationError(
+        `Unsupported outbox max size: ${outboxOptions.maxSize}`
+      );
+    }
+    if (
+      !Number.isInteger(outboxOptions.batchSize) ||
+      outboxOptions.batchSize < 1 ||
+      outboxOptions.batchSize > MAX_BULK_EVENTS
+    ) {
+      throw new MeshesConfigurationError(
+        `Unsupported outbox batch size: ${outboxOptions.batchSize}`
+      );
+    }
+    const storage = outboxOptions.storage;
+    if (
+      typeof storage !== "undefined" &&
+      (!storage ||
+        typeof storage.read !== "function" ||
+        typeof storage.append !== "function" ||
+        typeof storage.write !== "function")
+    ) {
+      throw new MeshesConfigurationError("Invalid outbox storage", storage);
+    }
+    // every request would reuse the key, and the API would drop all but the
+    // first as duplicates
+    if (hasFixedIdempotencyKey(outboxOptions.requestOptions)) {
+      throw new MeshesConfigurationError(
+        "Outbox requestOptions can't set a fixed idempotency key",
+        outboxOptions.requestOptions
+      );
+    }
+    for (const key of /** @type {const} */ (["onError", "onDrop"])) {
+      if (
+        typeof outboxOptions[key] !== "undefined" &&
+        typeof outboxOptions[key] !== "function"
+      ) {
+        throw new MeshesConfigurationError(
+          `Invalid outbox ${key}: ${typeof outboxOptions[key]}`
+        );
+      }
+    }
+
+    this.#client = client;
+    this.#options = outboxOptions;
+    // browsers and edge runtimes have no file system
+    this.#storage =
+      storage ??
+      (isNodeRuntime()
+        ? new MeshesFileOutboxStorage(outboxOptions.path)
+        : new MeshesMemoryOutboxStorage());
+    // replay events stored before a restart
+    this.#schedule();
+  }
+
+  /**
+   * Get the number of stored events
+   * @returns {Promise<number>}
+   */
+  size() {
+    return this.#exclusive(() => this.#read()).then(
+      (entries) => entries.length
+    );
+  }
+
+  /**
+   * Store events to replay later
+   * @param {MeshesEventBody[]} events - The events to store
+   * @param {MeshesOutboxRequest} request - The failed request the events were sent in
+   * @returns {Promise<void>}
+   */
+  add(events, request = {}) {
+    const now = Date.now();
+    /** @type {MeshesOutboxEntry[]} */
+    const added = events.map((event) => ({
+      id: randomUUID(),
+      createdAt: now,
+      event,
+      ...(request.idempotencyKey
+        ? { idempotencyKey: request.idempotencyKey }
+        : {}),
+      ...(request.single ? { single: true } : {}),
+    }));
+
+    return this.#exclusive(async () => {
+      const entries = [...(await this.#read()), ...added];
+      const overflow = entries.length - this.#options.maxSize;
+      if (overflow > 0) {
+        this.#drop(
+          entries.splice(0, overflow).map((e) => e.event),
+          "max-size"
+        );
+        await this.#storage.write(entries);
+      } else {
+        await this.#storage.append(added);
+      }
+      this.#schedule();
+    });
+  }
+
+  /**
+   * Replay stored events in order, in batches.  Stops at the first batch that
+   * fails with an error that can be retried.
+   * @returns {Promise<number>} - Resolves with the number of events sent
+   */
+  drain() {
+    if (this.#draining) {
+      return this.#draining;
+    }
+    this.#clearTimer();
+
+    let stalled = false;
+    const drain = async () => {
+      let sent = 0;
+      for (;;) {
+        const batch = await this.#exclusive(() =>
+          this.#read().then((entries) => this.#nextBatch(entries))
+        );
+        if (batch.length === 0) {
+          return sent;
+        }
+
+        const events = batch.map((e) => e.event);
+        const options = {
+          ...this.#options.requestOptions,
+          // replays reuse the key of the failed request, and the same batch
+          // gets the same key if it has to be replayed again
+          idempotencyKey:
+            batch[0].idempotencyKey ?? `${batch[0].id}-${batch.length}`,
+          outbox: /** @type {const} */ (false),
+          // stored events were already normalized and passed the beforeSend hook
+          prepared: /** @type {const} */ (true),
+        };
+        try {
+          await (batch[0].single
+            ? this.#client.emit(events[0], options)
+            : this.#client.emitBatch(events, options));
+          sent += events.length;
+        } catch (err) {
+          if (isRetryableError(err)) {
+            stalled = true;
+            try {
+              this.#options.onError?.(err, events);
+            } catch {
+              // a failing callback must not stop the replays
+            }
+            return sent;
+          }
+          this.#drop(events, "rejected");
+        }
+        await this.#remove(batch);
+      }
+    };
+
+    this.#draining = drain().finally(() => {
+      this.#draining = undefined;
+      // try again later if the events couldn't be sent
+      if (stalled) {
+        this.#schedule();
+      }
+    });
+    return this.#draining;
+  }
+
+  /**
+   * Stop replaying events automatically and wait for a replay in progress
+   * @returns {Promise<void>}
+   */
+  close() {
+    this.#closed = true;
+    this.#clearTimer();
+    return Promise.all([this.#draining, this.#lock]).then(() => undefined);
+  }
+
+  /**
+   * Run storage operations one at a time
+   * @template T
+   * @param {() => Promise<T>} fn - The storage operation
+   * @returns {Promise<T>}
+   */
+  #exclusive(fn) {
+    const result = this.#lock.then(fn);
+    this.#lock = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Get the entries to replay next: the entries stored from the same request,
+   * which are replayed as they were sent, or up to `batchSize` entries stored
+   * without an idempotency key
+   * @param {MeshesOutboxEntry[]} entries - The stored entries
+   * @returns {MeshesOutboxEntry[]}
+   */
+  #nextBatch(entries) {
+    const first = entries[0];
+    if (!first) {
+      return [];
+    }
+    if (first.single) {
+      return [first];
+    }
+    const key = first.idempotencyKey;
+    // a request's events are never split, or the key would be reused for a
+    // different body
+    const size = key ? MAX_BULK_EVENTS : this.#options.batchSize;
+    /** @type {MeshesOutboxEntry[]} */
+    const batch = [];
+    for (const entry of entries) {
+      if (
+        batch.length >= size ||
+        entry.single ||
+        entry.idempotencyKey !== key
+      ) {
+        break;
+      }
+      batch.push(entry);
+    }
+    return batch;
+  }
+
+  /**
+   * Read the stored entries, dropping expired entries
+   * @returns {Promise<MeshesOutboxEntry[]>}
+   */
+  async #read() {
+    const entries = await this.#storage.read();
+    const cutoff = Date.now() - this.#options.maxAge;
+    const expired = entries.filter((e) => e.createdAt < cutoff);
+    if (expired.length === 0) {
+      return entries;
+    }
+    const kept = entries.filter((e) => e.createdAt >= cutoff);
+    await this.#storage.write(kept);
+    this.#drop(
+      expired.map((e) => e.event),
+      "max-age"
+    );
+    return kept;
+  }
+
+  /**
+   * Remove entries from storage
+   * @param {MeshesOutboxEntry[]} removed - The entries to remove
+   * @returns {Promise<void>}
+   */
+  #remove(removed) {
+    const ids = new Set(removed.map((e) => e.id));
+    return this.#exclusive(async () => {
+      const entries = await this.#storage.read();
+      await this.#storage.write(entries.filter((e) => !ids.has(e.id)));
+    });
+  }
+
+  /**
+   * Report dropped events
+   * @param {MeshesEventBody[]} events - The dropped events
+   * @param {MeshesOutboxDropReason} reason - Why the events were dropped
+   * @returns {void}
+   */
+  #drop(events, reason) {
+    this.#options.onDrop?.(events, reason);
+  }
+
+  /**
+   * Schedule an automatic replay
+   * @returns {void}
+   */
+  #schedule() {
+    if (
+      this.#closed ||
+      this.#timer ||
+      this.#draining ||
+      this.#options.drainInterval === 0
+    ) {
+      return;
+    }
+    this.#timer = setTimeout(() => {
+      this.#timer = undefined;
+      this.drain().catch(() => undefined);
+    }, this.#options.drainInterval);
+    // don't keep the process alive just for the replay timer
+    unrefTimer(this.#timer);
+  }
+
+  /**
+   * Clear the replay timer
+   * @returns {void}
+   */
+  #clearTimer() {
+    if (this.#timer) {
+      clearTimeout(this.#timer);
+      this.#timer = undefined;
+    }
+  }
+}
+
+export default MeshesOutbox;
@@ -0,0 +1,295 @@
+"use strict";
+
+/** @typedef {import("./index.js").MeshesEventBody<any>} MeshesEventBody */
+/** @typedef {import("./index.js").MeshesQueueOptions} MeshesQueueOptions */
+/** @typedef {import("./client.js").MeshesEventsClient<any>} MeshesEventsClient */
+/** @typedef {{ event: MeshesEventBody, resolve: () => void }} BlockedEnqueue */
+
+import { MAX_BULK_EVENTS } from "./lib/bulk.js";
+import { MeshesApiError, MeshesConfigurationError } from "./lib/errors.js";
+import { hasFixedIdempotencyKey, unrefTimer } from "./lib/helpers.js";
+import { validateEvent } from "./lib/validate.js";
+
+/**
+ * Valid overflow policies
+ * @type {string[]}
+ * @constant
+ */
+const validOverflowPolicies = ["drop-oldest", "drop-newest", "block"];
+
+/**
+ * Meshes Queue Options
+ * @type {Required<Pick<MeshesQueueOptions, "batchSize" | "flushInterval" | "maxQueueSize" | "overflow">>}
+ * @constant
+ */
+const defaultQueueOptions = {
+  batchSize: MAX_BULK_EVENTS,
+  flushInterval: 1000,
+  maxQueueSize: 10000,
+  overflow: "drop-oldest",
+};
+
+/**
+ * Meshes Events Queue - buffers events and flushes them in bulk
+ * @class
+ */
+export class MeshesEventsQueue {
+  #client;
+  #options;
+  /** @type {MeshesEventBody[]} */
+  #buffer = [];
+  /** @type {BlockedEnqueue[]} */
+  #blocked = [];
+  /** @type {ReturnType<typeof setTimeout> | undefined} */
+  #timer;
+  /** @type {Promise<void>} */
+  #flushing = Promise.resolve();
+  #closed = false;
+
+  /**
+   * Create the Meshes Events Queue.
+   * @param {MeshesEventsClient} client - Meshes events client used to send the events
+   * @param {MeshesQueueOptions} options - Queue options
+   * @constructor - Meshes Events Queue constructor
+   */
+  constructor(client, options = {}) {
+    if (!client || typeof client.emitBatch !== "function") {
+      throw new MeshesConfigurationError("Invalid events client", client);
+    }
+    if (!options || typeof options !== "object") {
+      throw new MeshesConfigurationError(
+        `Invalid queue options object: ${typeof options}`,
+        options
+      );
+    }
+    /** @type {typeof defaultQueueOptions & MeshesQueueOptions} */
+    const queueOptions = { ...defaultQueueOptions, ...options };
+
+    if (
+      !Number.isInteger(queueOptions.batchSize) ||
+      queueOptions.batchSize < 1 ||
+      queueOptions.batchSize > MAX_BULK_EVENTS
+    ) {
+      throw new MeshesConfigurationError(
+        `Unsupported queue batch size: ${queueOptions.batchSize}`
+      );
+    }
+    if (
+      typeof queueOptions.flushInterval !== "number" ||
+      queueOptions.flushInterval < 0
+    ) {
+      throw new MeshesConfigurationError(
+        `Invalid queue flush interval: ${queueOptions.flushInterval}`
+      );
+    }
+    if (
+      !Number.isInteger(queueOptions.maxQueueSize) ||
+      queueOptions.maxQueueSize < queueOptions.batchSize
+    ) {
+      throw new MeshesConfigurationError(
+        `Unsupported queue max size: ${queueOptions.maxQueueSize}`
+      );
+    }
+    if (!validOverflowPolicies.includes(queueOptions.overflow)) {
+      throw new MeshesConfigurationError(
+        `Unsupported queue overflow policy: ${queueOptions.overflow}`
+      );
+    }
+    // every request would reuse the key, and the API would drop all but the
+    // first as duplicates
+    if (hasFixedIdempotencyKey(queueOptions.requestOptions)) {
+      throw new MeshesConfigurationError(
+        "Queue requestOptions can't set a fixed idempotency key",
+        queueOptions.requestOptions
+      );
+    }
+    for (const key of /** @type {const} */ (["onError", "onDrop"])) {
+      if (
+        typeof queueOptions[key] !== "undefined" &&
+        typeof queueOptions[key] !== "function"
+      ) {
+        throw new MeshesConfigurationError(
+          `Invalid queue ${key}: ${typeof queueOptions[key]}`
+        );
+      }
+    }
+
+    this.#client = client;
+    this.#options = queueOptions;
+  }
+
+  /**
+   * The number of buffered events, including blocked enqueues
+   * @returns {number}
+   */
+  get size() {
+    return this.#buffer.length + this.#blocked.length;
+  }
+
+  /**
+   * Add an event to the queue
+   * @param {MeshesEventBody} event - The event to enqueue
+   * @returns {Promise<void>} - Resolves once the event is buffered (or dropped)
+   * @throws {MeshesApiError} - Invalid event or closed queue
+   */
+  enqueue(event) {
+    if (this.#closed) {
+      throw new MeshesConfigurationError("Queue is closed", event);
+    }
+    validateEvent(event);
+
+    if (this.#buffer.length >= this.#options.maxQueueSize) {
+      switch (this.#options.overflow) {
+        case "drop-newest":
+          this.#drop([event]);
+          return Promise.resolve();
+        case "block":
+          return new Promise((resolve) => {
+            this.#blocked.push({ event, resolve });
+          });
+        default:
+          this.#drop(this.#buffer.splice(0, 1));
+      }
+    }
+
+    this.#buffer.push(event);
+    this.#schedule();
+    return Promise.resolve();
+  }
+
+  /**
+   * Send all buffered events
+   * @returns {Promise<void>} - Resolves once the buffer is drained
+   */
+  flush() {
+    this.#clearTimer();
+    return this.#drain(true);
+  }
+
+  /**
+   * Remove and return all buffered events, including blocked enqueues, to
+   * send them another way
+   * @returns {MeshesEventBody[]} - The buffered events, in order
+   */
+  take() {
+    this.#clearTimer();
+    const events = [
+      ...this.#buffer.splice(0),
+      ...this.#blocked.splice(0).map((blocked) => {
+        blocked.resolve();
+        return blocked.event;
+      }),
+    ];
+    return events;
+  }
+
+  /**
+   * Stop accepting events and send all buffered events
+   * @returns {Promise<void>} - Resolves once the buffer is drained
+   */
+  close() {
+    this.#closed = true;
+    return this.flush();
+  }
+
+  /**
+   * Report dropped events
+   * @param {MeshesEventBody[]} events - The dropped events
+   * @returns {void}
+   */
+  #drop(events) {
+    this.#options.onDrop?.(events, "overflow");
+  }
+
+  /**
+   * Schedule a flush based on the batch size and flush interval
+   * @returns {void}
+   */
+  #schedule() {
+    if (this.#buffer.length >= this.#options.batchSize) {
+      this.#clearTimer();
+      this.#drain(false);
+      return;
+    }
+    if (!this.#timer) {
+      this.#timer = setTimeout(() => {
+        this.#timer = undefined;
+        this.#drain(true);
+      }, this.#options.flushInterval);
+      // don't keep the process alive just for the flush timer
+      unrefTimer(this.#timer);
+    }
+  }
+
+  /**
+   * Clear the flush timer
+   * @returns {void}
+   */
+  #clearTimer() {
+    if (this.#timer) {
+      clearTimeout(this.#timer);
+      this.#timer = undefined;
+    }
+  }
+
+  /**
+   * Move blocked enqueues into the buffer while there is space
+   * @returns {void}
+   */
+  #release() {
+    while (
+      this.#blocked.length > 0 &&
+      this.#buffer.length < this.#options.maxQueueSize
+    ) {
+      const blocked = /** @type {BlockedEnqueue} */ (this.#blocked.shift());
+      this.#buffer.push(blocked.event);
+      blocked.resolve();
+    }
+  }
+
+  /**
+   * Report a batch that failed to send; onError errors are ignored
+   * @param {unknown} err - The emitBatch error
+   * @param {MeshesEventBody[]} events - The events that were not accepted
+   * @returns {void}
+   */
+  #failed(err, events) {
+    try {
+      this.#options.onError?.(
+        err instanceof MeshesApiError
+          ? err
+          : new MeshesApiError("Queue Flush Failure", { error: err }),
+        events
+      );
+    } catch {
+      // a failing callback must not stop the queue
+    }
+  }
+
+  /**
+   * Send buffered events in batches, one batch at a time
+   * @param {boolean} all - If true, sends partial batches as well
+   * @returns {Promise<void>}
+   */
+  #drain(all) {
+    const drained = this.#flushing.then(async () => {
+      while (this.#buffer.length >= (all ? 1 : this.#options.batchSize)) {
+        const batch = this.#buffer.splice(0, this.#options.batchSize);
+        this.#release();
+        try {
+          await this.#client.emitBatch(batch, this.#options.requestOptions);
+        } catch (err) {
+          this.#failed(err, batch);
+        }
+      }
+      if (this.#buffer.length > 0) {
+        this.#schedule();
+      }
+    });
+    // a failed drain doesn't fail the drains after it
+    this.#flushing = drained.catch(() => undefined);
+    return drained;
+  }
+}
+
+export default MeshesEventsQueue;
@@ -0,0 +1,115 @@
+"use strict";
+
+/** @typedef {import("./index.js").MeshesEventBody<any>} MeshesEventBody */
+/** @typedef {import("./index.js").MeshesEventContext} MeshesEventContext */
+/** @typedef {import("./index.js").MeshesOptionalRequestOptions} MeshesOptionalRequestOptions */
+/** @typedef {import("./index.js").MeshesBulkRequestOptions} MeshesBulkRequestOptions */
+/** @typedef {import("./index.js").MeshesEmitManyOptions} MeshesEmitManyOptions */
+/** @typedef {import("./index.js").CallbackFunction<any>} CallbackFunction */
+/** @typedef {import("./client.js").MeshesEventsClient<any>} MeshesEventsClient */
+
+import { MeshesConfigurationError } from "./lib/errors.js";
+import {
+  applyContext,
+  mergeContext,
+  resolveEventContext,
+} from "./lib/context.js";
+
+/**
+ * Meshes Scoped Client - sends events through a client with added context
+ * @class
+ * @template {object} [TEvents=import("./index.js").MeshesEventCatalog] - Map of event names to payload shapes
+ */
+export class MeshesScopedClient {
+  #client;
+  #context;
+
+  /**
+   * Create the Meshes Scoped Client.  Use `client.withContext()` instead.
+   * @param {MeshesEventsClient} client - Meshes events client used to send the events
+   * @param {MeshesEventContext} context - Context merged into each event
+   * @constructor - Meshes Scoped Client constructor
+   */
+  constructor(client, context) {
+    if (!client || typeof client.emit !== "function") {
+      throw new MeshesConfigurationError("Invalid events client", client);
+    }
+    this.#client = client;
+    this.#context = resolveEventContext(context, "context") ?? {};
+  }
+
+  /**
+   * The context merged into each event
+   * @returns {MeshesEventContext}
+   */
+  get context() {
+    return this.#context;
+  }
+
+  /**
+   * Create (emit) a single event
+   * @param {import("./index.js").MeshesEventBody<TEvents>} event - The event to emit
+   * @param {MeshesOptionalRequestOptions} options - Request options
+   * @param {CallbackFunction | undefined} done - Callback function
+   * @returns {ReturnType<MeshesEventsClient["emit"]>} - Request promise or undefined if a callback is provided
+   */
+  emit(event, options = {}, done = undefined) {
+    return this.#client.emit(applyContext(event, this.#context), options, done);
+  }
+
+  /**
+   * Create (emit) multiple events up to 100 at a time
+   * @param {import("./index.js").MeshesEventBody<TEvents>[]} events - The events to emit
+   * @param {MeshesBulkRequestOptions} options - Request options
+   * @param {CallbackFunction | undefined} done - Callback function
+   * @returns {ReturnType<MeshesEventsClient["emitBatch"]>} - Request promise or undefined if a callback is provided
+   */
+  emitBatch(events, options = {}, done = undefined) {
+    return this.#client.emitBatch(this.#applyAll(events), options, done);
+  }
+
+  /**
+   * Create (emit) any number of events, sent in chunks of up to 100 events
+   * @param {import("./index.js").MeshesEventBody<TEvents>[]} events - The events to emit
+   * @param {MeshesEmitManyOptions} options - Request options and chunk concurrency
+   * @param {CallbackFunction | undefined} done - Callback function
+   * @returns {ReturnType<MeshesEventsClient["emitMany"]>} - Request promise or undefined if a callback is provided
+   */
+  emitMany(events, options = {}, done = undefined) {
+    return this.#client.emitMany(this.#applyAll(events), options, done);
+  }
+
+  /**
+   * Add an event to the client's background queue
+   * @param {import("./index.js").MeshesEventBody<TEvents>} event - The event to enqueue
+   * @returns {Promise<void>} - Resolves once the event is buffered (or dropped)
+   */
+  enqueue(event) {
+    return this.#client.enqueue(applyContext(event, this.#context));
+  }
+
+  /**
+   * Create a client with more context.  The new context takes precedence over
+   * this client's context.
+   * @param {MeshesEventContext} context - Context merged into each event
+   * @returns {MeshesScopedClient<TEvents>} - The scoped client
+   * @throws {MeshesConfigurationError} - Invalid context
+   */
+  withContext(context) {
+    return new MeshesScopedClient(
+      this.#client,
+      mergeContext(this.#context, resolveEventContext(context, "context") ?? {})
+    );
+  }
+
+  /**
+   * Merge the context into each event of an array
+   * @param {MeshesEventBody[]} events - The events
+   * @returns {MeshesEventBody[]} - The events with the context; invalid input as is
+   */
+  #applyAll(events) {
+    return Array.isArray(events)
+      ? events.map((event) => applyContext(event, this.#context))
+      : events;
+  }
+}
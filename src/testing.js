@@ -0,0 +1,4 @@
+import MeshesFakeServer from "./fake-server.js";
+
+export { MeshesFakeServer };
+export default MeshesFakeServer;
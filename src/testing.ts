@@ -0,0 +1,8 @@
+export { MeshesFakeServer } from "./fake-server.js";
+export { default } from "./fake-server.js";
+
+export type {
+  MeshesFakeServerOptions,
+  MeshesFakeFailure,
+  MeshesFakeRequest,
+} from "./types.js";
@@ -21,16 +21,129 @@ export type MeshesEvent = {
 export type MeshesErrorResponse = {
   message: string;
   error?: unknown;
+  /**
+   * The error code, for events of a failed `emitMany()` chunk request
+   */
+  code?: MeshesErrorCode;
+  /**
+   * Whether the chunk request could succeed if sent again later
+   */
+  retryable?: boolean;
+  /**
+   * The response status of the failed chunk request, if any
+   */
+  status?: number;
 };
 
-export type CreateEventResponseSingle = {
-  event: MeshesEvent;
+/**
+ * Bulk record of an event dropped by the `beforeSend` hook
+ */
+export type MeshesDroppedRecord = {
+  message: string;
+  dropped: true;
+};
+
+/**
+ * Result of an `emit()` whose event was dropped by the `beforeSend` hook.
+ * Nothing was sent.
+ */
+export type MeshesDroppedResponse = {
+  dropped: true;
+  event?: undefined;
+  idempotencyKey?: undefined;
 };
 
+export type CreateEventResponseSingle =
+  | {
+      event: MeshesEvent;
+      dropped?: false;
+      /**
+       * The idempotency key sent with the request
+       */
+      idempotencyKey?: string;
+    }
+  | MeshesDroppedResponse;
+
 export type BulkCreateEventsResult = {
   count: number;
-  records: (MeshesEvent | MeshesErrorResponse)[];
+  records: (MeshesEvent | MeshesErrorResponse | MeshesDroppedRecord)[];
   error_count?: number;
+  /**
+   * Number of events dropped by the `beforeSend` hook.  They are not counted
+   * as errors.
+   */
+  dropped_count?: number;
+  /**
+   * The idempotency key sent with the request
+   */
+  idempotencyKey?: string;
+  /**
+   * The failed chunk requests of an `emitMany()` call, in chunk order
+   */
+  failures?: MeshesBulkChunkFailure[];
+};
+
+/**
+ * A failed `emitMany()` chunk request
+ */
+export type MeshesBulkChunkFailure = {
+  /**
+   * The index of the chunk
+   */
+  chunk: number;
+  /**
+   * The indexes of the input events in the chunk
+   */
+  indexes: number[];
+  error: MeshesApiError;
+};
+
+/**
+ * A bulk input event that was created
+ */
+export type MeshesBulkSuccess = {
+  /**
+   * The index of the input event
+   */
+  index: number;
+  input: MeshesEventBody;
+  event: MeshesEvent;
+};
+
+/**
+ * A bulk input event that was not created
+ */
+export type MeshesBulkFailure = {
+  /**
+   * The index of the input event
+   */
+  index: number;
+  input: MeshesEventBody;
+  error: MeshesErrorResponse;
+};
+
+/**
+ * A bulk input event that was dropped by the `beforeSend` hook
+ */
+export type MeshesBulkDropped = {
+  /**
+   * The index of the input event
+   */
+  index: number;
+  input: MeshesEventBody;
+  record: MeshesDroppedRecord;
+};
+
+/**
+ * Bulk input events paired with their outcomes
+ */
+export type MeshesBulkOutcomes = {
+  succeeded: MeshesBulkSuccess[];
+  failed: MeshesBulkFailure[];
+  /**
+   * Events dropped by the `beforeSend` hook
+   */
+  dropped: MeshesBulkDropped[];
 };
 
 /**
@@ -54,172 +167,1913 @@ export type Headers = {
 export type QueryParams = Record<string, string | number | boolean>;
 
 /**
- * Meshes API Config Options
+ * Failure kinds that can be retried (in addition to HTTP statuses)
+ * - `timeout`: the request was aborted because the timeout elapsed
+ * - `network`: the request failed before a response was received
  */
-export type MeshesOptions = {
+export type MeshesRetryErrorKind = "timeout" | "network";
+
+/**
+ * Retry policy for failed requests
+ */
+export type MeshesRetryOptions = {
   /**
-   * API version
+   * Maximum number of attempts, including the first one
+   * @default 3
+   * @constraint [1-10]
    */
-  version?: "v1";
+  maxAttempts?: number;
 
   /**
-   * Request timeout in milliseconds
-   * @constraint [1000-30000]
+   * Base delay in milliseconds for the exponential backoff
+   * @default 500
    */
-  timeout?: number;
+  baseDelay?: number;
 
   /**
-   * Additional request headers
+   * Maximum delay in milliseconds between attempts.  A `Retry-After` larger
+   * than this stops retrying.
+   * @default 10000
    */
-  headers?: Headers;
+  maxDelay?: number;
 
   /**
-   * If true, will enable debug mode.
+   * If true, applies full jitter to the backoff delay
+   * @default true
    */
-  debug?: boolean;
+  jitter?: boolean;
 
   /**
-   * API Base Url.  This is optional and can be useful for testing.
-   * @default "https://events.meshes.io/api/v1"
+   * HTTP statuses to retry.  Defaults to 408, 429 and all 5xx statuses.
    */
-  apiBaseUrl?: string;
+  statuses?: number[];
+
+  /**
+   * Failure kinds to retry
+   * @default ["timeout", "network"]
+   */
+  errors?: MeshesRetryErrorKind[];
 };
 
 /**
- * Meshes API Optional Request Options
+ * Idempotency key generator, called once per logical request
  */
-export type MeshesOptionalRequestOptions = {
+export type IdempotencyKeyGenerator = (request: {
+  path: string;
+  body: unknown;
+}) => string;
+
+/**
+ * Queue overflow policy applied when the queue is full
+ * - `drop-oldest`: drops the oldest buffered event
+ * - `drop-newest`: drops the event being enqueued
+ * - `block`: waits until there is space in the queue
+ */
+export type MeshesQueueOverflow = "drop-oldest" | "drop-newest" | "block";
+
+/**
+ * Meshes Events Queue Options
+ */
+export type MeshesQueueOptions = {
   /**
-   * Request headers
+   * Number of events that triggers a flush, and the max events per bulk request
+   * @default 100
+   * @constraint [1-100]
    */
-  headers?: Headers;
+  batchSize?: number;
 
   /**
-   * Query parameters
+   * Interval in milliseconds after which buffered events are flushed
+   * @default 1000
    */
-  query?: QueryParams;
+  flushInterval?: number;
 
   /**
-   * Request timeout in milliseconds
+   * Maximum number of buffered events
+   * @default 10000
    */
-  timeout?: number;
+  maxQueueSize?: number;
+
+  /**
+   * Policy applied when the queue is full
+   * @default "drop-oldest"
+   */
+  overflow?: MeshesQueueOverflow;
+
+  /**
+   * Request options used for each bulk request
+   */
+  requestOptions?: MeshesOptionalRequestOptions;
+
+  /**
+   * Called when a bulk request fails
+   */
+  onError?: (err: MeshesApiError, events: MeshesEventBody[]) => void;
+
+  /**
+   * Called when events are dropped
+   */
+  onDrop?: (events: MeshesEventBody[], reason: "overflow") => void;
 };
 
 /**
- * Meshes API Request Options
+ * Client-side rate limit.  Bursts of up to one second's worth are allowed.
  */
-export type MeshesRequestOptions = {
-  method: "POST";
-  path: string;
-  body?: unknown;
+export type MeshesRateLimitOptions = {
+  /**
+   * Maximum number of requests per second
+   */
+  requestsPerSecond?: number;
 
   /**
-   * Request headers
+   * Maximum number of events per second, across single and bulk requests
    */
-  headers?: Headers;
+  eventsPerSecond?: number;
 
   /**
-   * Query parameters
+   * What to do with requests over the limit: wait for capacity, in order
+   * ("queue"), or fail with a `MeshesRateLimitError` ("reject")
+   * @default "queue"
    */
-  query?: QueryParams;
+  overflow?: "queue" | "reject";
+};
 
+/**
+ * Circuit breaker state
+ */
+export type MeshesCircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Circuit breaker policy.  Timeouts, network errors and 408, 429 and 5xx
+ * responses count as failures.
+ */
+export type MeshesCircuitBreakerOptions = {
   /**
-   * Request timeout in milliseconds
+   * Number of consecutive failures that opens the circuit
+   * @default 5
    */
-  timeout?: number;
+  failureThreshold?: number;
+
+  /**
+   * Failure rate (0-1) over the last `windowSize` requests that opens the
+   * circuit.  Disabled by default.
+   */
+  failureRate?: number;
+
+  /**
+   * Number of recent requests used to compute the failure rate
+   * @default 20
+   */
+  windowSize?: number;
+
+  /**
+   * Time in milliseconds the circuit stays open before a probe request is
+   * allowed (half-open)
+   * @default 30000
+   */
+  resetTimeout?: number;
+
+  /**
+   * Called when the circuit state changes
+   */
+  onStateChange?: (
+    state: MeshesCircuitState,
+    previousState: MeshesCircuitState
+  ) => void;
 };
 
 /**
- * Meshes event payload structure.
+ * An event stored in the outbox
  */
-export type MeshesEventPayload = {
+export type MeshesOutboxEntry = {
+  id: string;
   /**
-   * The payload email.  This is optional, but recommended for all events.
+   * Time the event was stored, in milliseconds since the epoch
    */
-  email?: string;
-  first_name?: string;
-  id?: string;
-  ip_address?: string;
-  last_name?: string;
-  name?: string;
-  phone?: string;
-  resource_url?: string;
-} & {
-  [k: string]: unknown;
+  createdAt: number;
+  event: MeshesEventBody;
+  /**
+   * Idempotency key of the failed request.  Events stored from the same
+   * request are replayed together with this key, so events the API already
+   * created aren't created twice.
+   */
+  idempotencyKey?: string;
+  /**
+   * True if the event was sent with `emit()`, so it is replayed with `emit()`
+   */
+  single?: boolean;
 };
 
 /**
- * Meshes event structure.
+ * The failed request the events stored in the outbox were sent in
  */
-export type MeshesEventBody = {
+export type MeshesOutboxRequest = {
   /**
-   * The event type for the event.
+   * The request's idempotency key, if it had one
    */
-  event: string;
+  idempotencyKey?: string;
   /**
-   * The custom resource.  Defaults to 'global'.
+   * True for an `emit()` request
    */
-  resource?: string;
+  single?: boolean;
+};
+
+/**
+ * Outbox storage.  Entries must be returned in the order they were added.
+ */
+export type MeshesOutboxStorage = {
   /**
-   * The resource ID for a custom resource.
+   * Read all stored entries
    */
-  resource_id?: string;
+  read(): Promise<MeshesOutboxEntry[]>;
+  /**
+   * Add entries after the stored entries
+   */
+  append(entries: MeshesOutboxEntry[]): Promise<void>;
   /**
-   * The event payload that will be used.
+   * Replace all stored entries
    */
-  payload: MeshesEventPayload;
+  write(entries: MeshesOutboxEntry[]): Promise<void>;
 };
 
 /**
- * Meshes Events API Client
- * @class
- * @property {Function} emit - Create (emit) a single event
- * @property {Function} emitBatch - Create (emit) multiple events up to 100 at a time
+ * Reason events were dropped from the outbox
+ * - `max-age`: the event was stored longer than `maxAge`
+ * - `max-size`: the outbox was full
+ * - `rejected`: replaying the event failed with an error that can't be retried
  */
-export declare class MeshesEventsClient {
-  constructor(publishableKey: string, options?: MeshesOptions);
+export type MeshesOutboxDropReason = "max-age" | "max-size" | "rejected";
 
+/**
+ * Meshes Outbox Options
+ */
+export type MeshesOutboxOptions = {
   /**
-   * Create (emit) a single event
-   * @param {MeshesEventBody} event - The event to emit
-   * @param {MeshesOptionalRequestOptions} options - Optional request options
-   * @param {CallbackFunction<CreateEventResponseSingle>} done - Optional callback function
-   * @returns {Promise<CreateEventResponseSingle> | undefined} - Request promise or undefined if a callback is provided
+   * Path of the JSONL file used when no `storage` is provided
+   * @default "meshes-outbox.jsonl"
    */
-  emit(
-    event: MeshesEventBody,
-    options?: MeshesOptionalRequestOptions,
-    done?: CallbackFunction<CreateEventResponseSingle>
-  ): Promise<CreateEventResponseSingle> | undefined;
+  path?: string;
 
   /**
-   * Create (emit) multiple events up to 100 at a time
-   * @param {MeshesEventBody[]} events - The events to emit
-   * @param {MeshesOptionalRequestOptions} options - Optional request options
-   * @param {CallbackFunction<BulkCreateEventsResult>} done - Optional callback function
-   * @returns {Promise<any> | undefined} - Request promise or undefined if a callback is provided
+   * Outbox storage.  Defaults to a JSONL file at `path` in Node.js, and to
+   * memory in browsers and edge runtimes.
    */
-  emitBatch(
-    events: MeshesEventBody[],
-    options?: MeshesOptionalRequestOptions,
-    done?: CallbackFunction<BulkCreateEventsResult>
-  ): Promise<BulkCreateEventsResult> | undefined;
-}
+  storage?: MeshesOutboxStorage;
+
+  /**
+   * Maximum age of stored events in milliseconds
+   * @default 604800000 (7 days)
+   */
+  maxAge?: number;
+
+  /**
+   * Maximum number of stored events; the oldest events are dropped first
+   * @default 10000
+   */
+  maxSize?: number;
+
+  /**
+   * Maximum number of events per replayed bulk request
+   * @default 100
+   * @constraint [1-100]
+   */
+  batchSize?: number;
+
+  /**
+   * Interval in milliseconds between automatic replays.  Pass `0` to only
+   * replay when `drain()` is called.
+   * @default 30000
+   */
+  drainInterval?: number;
+
+  /**
+   * Request options used for each replayed bulk request
+   */
+  requestOptions?: MeshesOptionalRequestOptions;
+
+  /**
+   * Called when replaying events fails with an error that can be retried;
+   * the events stay in the outbox
+   */
+  onError?: (err: MeshesApiError, events: MeshesEventBody[]) => void;
+
+  /**
+   * Called when events are dropped from the outbox
+   */
+  onDrop?: (events: MeshesEventBody[], reason: MeshesOutboxDropReason) => void;
+};
 
 /**
- * Meshes API Error
+ * A field-level validation issue
  */
-export declare class MeshesApiError extends Error {
-  data?: any;
+export type MeshesValidationIssue = {
+  /**
+   * Path to the invalid field in the payload, or in the event for events
+   * with an invalid shape
+   */
+  path: (string | number)[];
+  message: string;
+};
 
-  constructor(message: string, data?: any);
+/**
+ * Validator function for an event payload.  Return `false` or a non-empty
+ * array of issues (or throw) when the payload is invalid.
+ */
+export type MeshesValidatorFunction = (
+  payload: MeshesEventPayload,
+  event: MeshesEventBody
+) =>
+  | boolean
+  | void
+  | MeshesValidationIssue[]
+  | Promise<boolean | void | MeshesValidationIssue[]>;
 
-  toJSON(includeStack?: boolean): {
-    name: string;
-    message: string;
-    data?: any;
-    stack?: any;
-  };
+/**
+ * Schema object used to validate an event payload, such as a Standard Schema
+ * (`~standard.validate`) or any object with a `validate` or `parse` method
+ */
+export type MeshesValidatorSchema =
+  | { "~standard": { validate(value: unknown): unknown } }
+  | { validate(value: unknown): unknown }
+  | { parse(value: unknown): unknown };
+
+/**
+ * Payload validator
+ */
+export type MeshesValidator = MeshesValidatorFunction | MeshesValidatorSchema;
+
+/**
+ * Map of event names to payload validators
+ */
+export type MeshesValidators = Record<string, MeshesValidator>;
+
+/**
+ * Outgoing request passed through the middleware chain, once per attempt
+ */
+export type MeshesMiddlewareRequest = {
+  /**
+   * Full request URL, including the query string
+   */
+  url: string;
+  method: string;
+  /**
+   * API path, such as `/events`
+   */
+  path: string;
+  headers: Headers;
+  /**
+   * Request body.  Serialized to JSON by the built-in body middleware unless
+   * it is already a string.  `transport` middleware get the body that is
+   * sent: a string, a compressed `Uint8Array` or null.
+   */
+  body: unknown;
+  signal?: AbortSignal;
+  /**
+   * The current attempt (1-based)
+   */
+  attempt: number;
+  idempotencyKey?: string;
+};
+
+/**
+ * Parsed response returned through the middleware chain
+ */
+export type MeshesMiddlewareResponse = {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers?: globalThis.Headers;
+  /**
+   * Parsed response body (JSON, text or null)
+   */
+  data: unknown;
+};
+
+/**
+ * Call the next middleware in the chain
+ */
+export type MeshesMiddlewareNext = (
+  request: MeshesMiddlewareRequest
+) => Promise<MeshesMiddlewareResponse>;
+
+/**
+ * Request/response middleware.  Call `next(request)` to continue the chain,
+ * or return a response without calling it to short-circuit the request.
+ */
+export type MeshesMiddleware = (
+  request: MeshesMiddlewareRequest,
+  next: MeshesMiddlewareNext
+) => MeshesMiddlewareResponse | Promise<MeshesMiddlewareResponse>;
+
+/**
+ * Where a middleware runs in the request chain:
+ * - `request`: before the built-in steps, with the body as given
+ * - `transport`: after publishable key injection, body serialization and
+ *   compression, with the headers and body that are sent, such as to sign
+ *   the request
+ */
+export type MeshesMiddlewareStage = "request" | "transport";
+
+/**
+ * Options for `use()`
+ */
+export type MeshesMiddlewareOptions = {
+  /**
+   * Where the middleware runs in the request chain (default `request`)
+   */
+  stage?: MeshesMiddlewareStage;
+};
+
+/**
+ * Log levels, from most to least verbose
+ */
+export type MeshesLogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * Structured log method, called as `(fields, message)` like pino
+ */
+export type MeshesLogFunction = (
+  fields: Record<string, unknown>,
+  message: string
+) => void;
+
+/**
+ * Structured logger, such as a pino logger
+ */
+export type MeshesLogger = {
+  debug: MeshesLogFunction;
+  info: MeshesLogFunction;
+  warn: MeshesLogFunction;
+  error: MeshesLogFunction;
+};
+
+/**
+ * Span context of an OpenTelemetry span
+ */
+export type MeshesSpanContext = {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  traceState?: { serialize(): string };
+};
+
+/**
+ * The subset of the OpenTelemetry `Span` interface used by the client
+ */
+export type MeshesSpan = {
+  spanContext(): MeshesSpanContext;
+  setAttribute(
+    key: string,
+    value: string | number | boolean | string[]
+  ): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+};
+
+/**
+ * The subset of the OpenTelemetry `Tracer` interface used by the client, such
+ * as `trace.getTracer("meshes")` from `@opentelemetry/api`
+ */
+export type MeshesTracer = {
+  startSpan(
+    name: string,
+    options?: {
+      kind?: number;
+      attributes?: Record<string, string | number | boolean | string[]>;
+    }
+  ): MeshesSpan;
+};
+
+/**
+ * Content encoding of compressed request bodies
+ */
+export type MeshesCompressionEncoding = "gzip" | "deflate";
+
+/**
+ * Request body compression options
+ */
+export type MeshesCompressionOptions = {
+  /**
+   * Minimum serialized body size in bytes to compress
+   * @default 1024
+   */
+  threshold?: number;
+
+  /**
+   * Content encoding
+   * @default "gzip"
+   */
+  encoding?: MeshesCompressionEncoding;
+};
+
+/**
+ * Page unload delivery options
+ */
+export type MeshesUnloadOptions = {
+  /**
+   * How queued events are sent as the page unloads.  `keepalive` uses
+   * `fetch(..., { keepalive: true })`.  `beacon` uses `navigator.sendBeacon`,
+   * which can't send headers such as the publishable key, so it is only for
+   * an `apiBaseUrl` that adds them; it falls back to `keepalive`.
+   * @default "keepalive"
+   */
+  method?: "keepalive" | "beacon";
+};
+
+/**
+ * Options passed to the fetch function of a request
+ */
+export type MeshesFetchInit = {
+  method: string;
+  headers: Headers;
+  /**
+   * Serialized request body; compressed bodies are bytes
+   */
+  body: string | Uint8Array | null;
+  signal?: AbortSignal;
+  /**
+   * Additional options from `fetchOptions`, such as an undici `dispatcher`
+   */
+  [k: string]: unknown;
+};
+
+/**
+ * The subset of the fetch `Response` interface used by the client
+ */
+export type MeshesFetchResponse = {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers?: globalThis.Headers;
+  text(): Promise<string>;
+};
+
+/**
+ * Fetch-compatible function, such as undici's `fetch`
+ */
+export type MeshesFetch = (
+  url: string,
+  init: MeshesFetchInit
+) => Promise<MeshesFetchResponse>;
+
+/**
+ * Request sent through a transport
+ */
+export type MeshesTransportRequest = MeshesFetchInit & {
+  url: string;
+};
+
+/**
+ * HTTP transport that sends the requests of a client
+ */
+export type MeshesTransport = {
+  send(request: MeshesTransportRequest): Promise<MeshesFetchResponse>;
+};
+
+/**
+ * Request details reported to lifecycle hooks
+ */
+export type MeshesRequestInfo = {
+  method: string;
+  path: string;
+  url: string;
+  idempotencyKey?: string;
+  /**
+   * Number of events in the request body
+   */
+  eventCount: number;
+};
+
+/**
+ * Attempt details reported to `onRequest`
+ */
+export type MeshesAttemptInfo = MeshesRequestInfo & {
+  /**
+   * The current attempt (1-based)
+   */
+  attempt: number;
+  /**
+   * Request body size in bytes, after compression
+   */
+  bytes: number;
+};
+
+/**
+ * Response details reported to `onResponse`
+ */
+export type MeshesResponseInfo = MeshesAttemptInfo & {
+  ok: boolean;
+  status: number;
+  /**
+   * Attempt duration in milliseconds
+   */
+  duration: number;
+};
+
+/**
+ * Retry details reported to `onRetry`
+ */
+export type MeshesRetryInfo = MeshesRequestInfo & {
+  /**
+   * The attempt that failed (1-based)
+   */
+  attempt: number;
+  /**
+   * Delay before the next attempt in milliseconds
+   */
+  delay: number;
+  error: MeshesApiError;
+};
+
+/**
+ * Success details reported to `onSuccess`
+ */
+export type MeshesSuccessInfo = MeshesRequestInfo & {
+  /**
+   * Number of attempts made
+   */
+  attempts: number;
+  /**
+   * Total duration in milliseconds, including retries
+   */
+  duration: number;
+  /**
+   * Response status of the last attempt; not set for responses returned by
+   * middleware that don't come from the API
+   */
+  status?: number;
+};
+
+/**
+ * Failure details reported to `onError`
+ */
+export type MeshesErrorInfo = MeshesRequestInfo & {
+  /**
+   * Number of attempts made
+   */
+  attempts: number;
+  /**
+   * Total duration in milliseconds, including retries
+   */
+  duration: number;
+  error: MeshesApiError;
+};
+
+/**
+ * Lifecycle hooks for telemetry.  Errors thrown by hooks are ignored.
+ */
+export type MeshesHooks = {
+  /**
+   * Called when an attempt is sent
+   */
+  onRequest?: (info: MeshesAttemptInfo) => void;
+  /**
+   * Called when an attempt receives a response, successful or not
+   */
+  onResponse?: (info: MeshesResponseInfo) => void;
+  /**
+   * Called when a failed attempt will be retried
+   */
+  onRetry?: (info: MeshesRetryInfo) => void;
+  /**
+   * Called once when a request succeeds, after any retries
+   */
+  onSuccess?: (info: MeshesSuccessInfo) => void;
+  /**
+   * Called when a request fails after its last attempt
+   */
+  onError?: (info: MeshesErrorInfo) => void;
+};
+
+/**
+ * Client mode
+ * - `live`: send requests to the Meshes API
+ * - `dry-run`: don't send requests; return synthetic results
+ * - `record`: like `dry-run`, and keep the requests that would have been sent
+ */
+export type MeshesMode = "live" | "dry-run" | "record";
+
+/**
+ * Request that would have been sent, kept in `record` mode
+ */
+export type MeshesRecordedRequest = {
+  method: string;
+  /**
+   * Full request URL, including the query string
+   */
+  url: string;
+  /**
+   * API path, such as `/events`
+   */
+  path: string;
+  headers: Headers;
+  /**
+   * Serialized request body
+   */
+  body: string | null;
+  /**
+   * The attempt (1-based)
+   */
+  attempt: number;
+  idempotencyKey?: string;
+  /**
+   * When the request would have been sent, in milliseconds since the epoch
+   */
+  timestamp: number;
+};
+
+/**
+ * Meshes API Config Options
+ */
+export type MeshesOptions = {
+  /**
+   * API version
+   */
+  version?: "v1";
+
+  /**
+   * Request timeout in milliseconds
+   * @constraint [1000-30000]
+   */
+  timeout?: number;
+
+  /**
+   * Additional request headers
+   */
+  headers?: Headers;
+
+  /**
+   * If true, will enable debug mode.  Logs to the console at the `debug`
+   * level unless a `logger` or `logLevel` is provided.
+   */
+  debug?: boolean;
+
+  /**
+   * Structured logger.  Defaults to the console when `debug` is true.
+   */
+  logger?: MeshesLogger;
+
+  /**
+   * Minimum log level
+   * @default "debug" if debug is true, "info" if a logger is provided, otherwise "silent"
+   */
+  logLevel?: MeshesLogLevel;
+
+  /**
+   * Redact payload fields from logs.  Pass `false` to disable, or a list of
+   * keys to redact instead of the default PII fields (email, phone,
+   * ip_address, first_name, last_name and name).
+   * @default true
+   */
+  redact?: boolean | string[];
+
+  /**
+   * API Base Url.  This is optional and can be useful for testing.
+   * @default "https://events.meshes.io/api/v1"
+   */
+  apiBaseUrl?: string;
+
+  /**
+   * Retry policy for failed requests.  Pass `true` to use the default policy.
+   * @default false
+   */
+  retry?: boolean | MeshesRetryOptions;
+
+  /**
+   * Idempotency key generator used when no key is provided.  Pass `false` to
+   * disable automatic idempotency keys.
+   * @default crypto.randomUUID
+   */
+  idempotencyKeyGenerator?: IdempotencyKeyGenerator | false;
+
+  /**
+   * Options for the background queue used by `enqueue()`
+   */
+  queue?: MeshesQueueOptions;
+
+  /**
+   * Payload validators by event name, run before events are sent
+   */
+  validators?: MeshesValidators;
+
+  /**
+   * Default event fields, deep-merged into each event before it is validated.
+   * Event values take precedence.
+   */
+  defaults?: MeshesEventContext;
+
+  /**
+   * Transform or drop each event before it is sent, after validation.
+   * Return the event to send, or null to drop it.
+   */
+  beforeSend?: MeshesBeforeSend;
+
+  /**
+   * Normalize the identity fields of each payload before it is sent, and
+   * optionally hash them.  Runs before the `beforeSend` hook.
+   * @default false
+   */
+  normalize?: boolean | MeshesNormalizeOptions;
+
+  /**
+   * Store events in an outbox when sending fails with an error that can be
+   * retried, and replay them later.  Pass `true` to use the default options.
+   */
+  outbox?: boolean | MeshesOutboxOptions;
+
+  /**
+   * Lifecycle hooks for telemetry
+   */
+  hooks?: MeshesHooks;
+
+  /**
+   * OpenTelemetry tracer.  Creates a client span per request and sends the
+   * W3C trace context (`traceparent`/`tracestate`) headers.
+   */
+  tracer?: MeshesTracer;
+
+  /**
+   * Circuit breaker that fails requests fast with a `MeshesCircuitOpenError`
+   * during outages.  Pass `true` to use the default policy.
+   * @default false
+   */
+  circuitBreaker?: boolean | MeshesCircuitBreakerOptions;
+
+  /**
+   * Client-side rate limit for requests and events per second.  Retries
+   * count against the limit.
+   */
+  rateLimit?: MeshesRateLimitOptions;
+
+  /**
+   * Send requests (`live`), or skip sending them after validation and
+   * middleware and return synthetic results (`dry-run`), also keeping the
+   * requests in `recordedRequests` (`record`)
+   * @default "live"
+   */
+  mode?: MeshesMode;
+
+  /**
+   * Fetch-compatible function or transport used to send requests, such as
+   * undici's `fetch`, so clients can use their own proxies or agents
+   * @default globalThis.fetch
+   */
+  transport?: MeshesFetch | MeshesTransport;
+
+  /**
+   * Additional options passed to the fetch function with every request, such
+   * as `{ dispatcher: new Agent({ keepAliveTimeout: 10000 }) }` for undici
+   */
+  fetchOptions?: Record<string, unknown>;
+
+  /**
+   * Compress request bodies above a size threshold, such as large bulk
+   * requests, and send them with a `Content-Encoding` header.  Pass `true` to
+   * use the default options.
+   * @default false
+   */
+  compression?: boolean | MeshesCompressionOptions;
+
+  /**
+   * In browsers, send the events in the background queue when the page is
+   * hidden or unloaded, with a keepalive `fetch` or `navigator.sendBeacon`.
+   * Pass `true` to use the default options.
+   * @default false
+   */
+  flushOnUnload?: boolean | MeshesUnloadOptions;
+};
+
+/**
+ * Meshes API Optional Request Options
+ */
+export type MeshesOptionalRequestOptions = {
+  /**
+   * Request headers
+   */
+  headers?: Headers;
+
+  /**
+   * Query parameters
+   */
+  query?: QueryParams;
+
+  /**
+   * Request timeout in milliseconds
+   */
+  timeout?: number;
+
+  /**
+   * Retry policy for this request.  Overrides the client retry policy.
+   */
+  retry?: boolean | MeshesRetryOptions;
+
+  /**
+   * Idempotency key for this request, reused on every retry.  Pass `false` to
+   * send no idempotency key.  Defaults to a generated key.
+   */
+  idempotencyKey?: string | false;
+
+  /**
+   * Pass `false` to not store the events in the outbox if this request fails
+   */
+  outbox?: false;
+
+  /**
+   * Pass `true` to send events this client already prepared, such as events
+   * replayed from the outbox, as given: the default context, validators,
+   * normalization and the `beforeSend` hook don't run again.
+   */
+  prepared?: true;
+
+  /**
+   * Cancels the request, including retries and waiting for the rate limiter.
+   * Rejects with a "Request Cancelled" `MeshesApiError`; cancelled events are
+   * not stored in the outbox.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Meshes bulk request Options
+ */
+export type MeshesBulkRequestOptions = MeshesOptionalRequestOptions & {
+  /**
+   * If true, rejects with a `MeshesPartialFailureError` when any event in the
+   * bulk request was not created
+   * @default false
+   */
+  failOnPartialError?: boolean;
+};
+
+/**
+ * Meshes emitMany() Options
+ */
+export type MeshesEmitManyOptions = MeshesBulkRequestOptions & {
+  /**
+   * Maximum number of bulk requests in flight at once
+   * @default 4
+   * @constraint [1-10]
+   */
+  concurrency?: number;
+};
+
+/**
+ * Meshes API Request Options
+ */
+export type MeshesRequestOptions = {
+  method: "POST";
+  path: string;
+  body?: unknown;
+
+  /**
+   * Request headers
+   */
+  headers?: Headers;
+
+  /**
+   * Query parameters
+   */
+  query?: QueryParams;
+
+  /**
+   * Request timeout in milliseconds
+   */
+  timeout?: number;
+
+  /**
+   * Retry policy for this request
+   */
+  retry?: boolean | MeshesRetryOptions;
+
+  /**
+   * Idempotency key for this request
+   */
+  idempotencyKey?: string | false;
+
+  /**
+   * Signal that cancels the request
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Meshes event payload structure.
+ */
+export type MeshesEventPayload = {
+  /**
+   * The payload email.  This is optional, but recommended for all events.
+   */
+  email?: string;
+  first_name?: string;
+  id?: string;
+  ip_address?: string;
+  last_name?: string;
+  name?: string;
+  phone?: string;
+  resource_url?: string;
+} & {
+  [k: string]: unknown;
+};
+
+/**
+ * Map of event names to payload shapes, used to type-check emitted events.
+ * The default catalog accepts any event name and payload.
+ */
+export type MeshesEventCatalog = Record<string, MeshesEventPayload>;
+
+/**
+ * Meshes event structure.
+ */
+export type MeshesEventBody<TEvents extends object = MeshesEventCatalog> = {
+  [K in keyof TEvents & string]: {
+    /**
+     * The event type for the event.
+     */
+    event: K;
+    /**
+     * The custom resource.  Defaults to 'global'.
+     */
+    resource?: string;
+    /**
+     * The resource ID for a custom resource.
+     */
+    resource_id?: string;
+    /**
+     * The event payload that will be used.
+     */
+    payload: TEvents[K];
+  };
+}[keyof TEvents & string];
+
+/**
+ * Event fields merged into each event, from the `defaults` option or
+ * `withContext()`
+ */
+export type MeshesEventContext = {
+  /**
+   * The custom resource
+   */
+  resource?: string;
+  /**
+   * The resource ID for a custom resource
+   */
+  resource_id?: string;
+  /**
+   * Payload fields, such as `app_version` or `environment`.  Nested objects
+   * are merged.
+   */
+  payload?: Record<string, unknown>;
+};
+
+/**
+ * Transform or drop an event before it is sent; returns the event to send, or
+ * null to drop it.  Gets a copy of the event.
+ */
+export type MeshesBeforeSend = (
+  event: MeshesEventBody<any>
+) => MeshesEventBody<any> | null | Promise<MeshesEventBody<any> | null>;
+
+/**
+ * Payload identity fields that can be normalized
+ */
+export type MeshesIdentityField =
+  | "email"
+  | "phone"
+  | "first_name"
+  | "last_name"
+  | "ip_address";
+
+/**
+ * What happened to an identity field:
+ * - `normalized`: the value was changed to its normal form
+ * - `unchanged`: the value was already normalized
+ * - `hashed`: the normalized value was replaced with its SHA-256 hash
+ * - `invalid`: the value is invalid and was kept as is (hashed, if the field
+ *   is hashed)
+ * - `removed`: the value is invalid and was removed
+ */
+export type MeshesIdentityFieldResult =
+  | "normalized"
+  | "unchanged"
+  | "hashed"
+  | "invalid"
+  | "removed";
+
+/**
+ * Identity normalization options
+ */
+export type MeshesNormalizeOptions = {
+  /**
+   * ISO 3166-1 alpha-2 country code (such as `"US"`) used to format phone
+   * numbers without an international prefix as E.164.  Without it, those
+   * numbers are invalid.
+   */
+  defaultCountry?: string;
+
+  /**
+   * Fields replaced with the lower case hex SHA-256 hash of their normalized
+   * value.  These fields are never sent in cleartext: kept invalid values are
+   * hashed trimmed, or removed if they aren't strings.
+   * @default []
+   */
+  hash?: MeshesIdentityField[];
+
+  /**
+   * How to handle invalid values: keep them as is, remove them from the
+   * payload, or reject the event with a `MeshesValidationError`
+   * @default "keep"
+   */
+  invalid?: "keep" | "remove" | "reject";
+
+  /**
+   * Called by the client with the result for each event it sends, and the
+   * event before normalization
+   */
+  onNormalize?: (
+    result: MeshesNormalizeResult,
+    event: MeshesEventBody<any>
+  ) => void;
+};
+
+/**
+ * Normalized payload, and what happened to each identity field in it
+ */
+export type MeshesNormalizeResult = {
+  payload: Record<string, unknown>;
+  fields: Partial<Record<MeshesIdentityField, MeshesIdentityFieldResult>>;
+};
+
+/**
+ * Meshes Events API Client
+ * @class
+ * @property {Function} emit - Create (emit) a single event
+ * @property {Function} emitBatch - Create (emit) multiple events up to 100 at a time
+ * @property {Function} emitMany - Create (emit) any number of events in chunks of up to 100
+ * @property {Function} use - Add a request/response middleware
+ */
+export declare class MeshesEventsClient<
+  TEvents extends object = MeshesEventCatalog,
+> {
+  constructor(publishableKey: string, options?: MeshesOptions);
+
+  /**
+   * Create (emit) a single event
+   * @param {MeshesEventBody} event - The event to emit
+   * @param {MeshesOptionalRequestOptions} options - Optional request options
+   * @param {CallbackFunction<CreateEventResponseSingle>} done - Optional callback function
+   * @returns {Promise<CreateEventResponseSingle> | undefined} - Request promise or undefined if a callback is provided
+   */
+  emit(
+    event: MeshesEventBody<TEvents>,
+    options?: MeshesOptionalRequestOptions,
+    done?: CallbackFunction<CreateEventResponseSingle>
+  ): Promise<CreateEventResponseSingle> | undefined;
+
+  /**
+   * Create (emit) multiple events up to 100 at a time
+   * @param {MeshesEventBody[]} events - The events to emit
+   * @param {MeshesBulkRequestOptions} options - Optional request options
+   * @param {CallbackFunction<BulkCreateEventsResult>} done - Optional callback function
+   * @returns {Promise<any> | undefined} - Request promise or undefined if a callback is provided
+   */
+  emitBatch(
+    events: MeshesEventBody<TEvents>[],
+    options?: MeshesBulkRequestOptions,
+    done?: CallbackFunction<BulkCreateEventsResult>
+  ): Promise<BulkCreateEventsResult> | undefined;
+
+  /**
+   * Create (emit) any number of events, sent in chunks of up to 100 events.
+   * Records in the result are in the same order as the input events.
+   * @param {MeshesEventBody[]} events - The events to emit
+   * @param {MeshesEmitManyOptions} options - Optional request options and chunk concurrency
+   * @param {CallbackFunction<BulkCreateEventsResult>} done - Optional callback function
+   * @returns {Promise<BulkCreateEventsResult> | undefined} - Request promise or undefined if a callback is provided
+   */
+  emitMany(
+    events: MeshesEventBody<TEvents>[],
+    options?: MeshesEmitManyOptions,
+    done?: CallbackFunction<BulkCreateEventsResult>
+  ): Promise<BulkCreateEventsResult> | undefined;
+
+  /**
+   * Add an event to the background queue, which sends events in bulk
+   * @param {MeshesEventBody} event - The event to enqueue
+   * @returns {Promise<void>} - Resolves once the event is buffered (or dropped)
+   */
+  enqueue(event: MeshesEventBody<TEvents>): Promise<void>;
+
+  /**
+   * Create a lightweight client that merges the context into each event
+   * before it is validated.  Event values take precedence over the context,
+   * and the context over the `defaults` option.
+   * @param {MeshesEventContext} context - Context merged into each event
+   * @returns {MeshesScopedClient} - The scoped client
+   */
+  withContext(context: MeshesEventContext): MeshesScopedClient<TEvents>;
+
+  /**
+   * The outbox that stores events that failed to send, if enabled
+   */
+  readonly outbox: MeshesOutbox | undefined;
+
+  /**
+   * The circuit breaker state, if enabled
+   */
+  readonly circuitState: MeshesCircuitState | undefined;
+
+  /**
+   * The client mode
+   */
+  readonly mode: MeshesMode;
+
+  /**
+   * Requests that would have been sent, in `record` mode
+   */
+  readonly recordedRequests: MeshesRecordedRequest[];
+
+  /**
+   * Clear the recorded requests
+   * @returns {void}
+   */
+  clearRecordedRequests(): void;
+
+  /**
+   * Send all events in the background queue
+   * @returns {Promise<void>} - Resolves once the queue is drained
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Close the background queue and send all remaining events, then stop the outbox and the page unload listeners
+   * @returns {Promise<void>} - Resolves once the queue is drained
+   */
+  close(): Promise<void>;
+
+  /**
+   * Add a middleware to the request chain.  Middleware run in the order they
+   * are added, before the built-in steps, or after serialization and
+   * compression with `stage: "transport"`.
+   * @param {MeshesMiddleware} middleware - The middleware to add
+   * @param {MeshesMiddlewareOptions} options - Where the middleware runs
+   * @returns {this} - The client, for chaining
+   */
+  use(middleware: MeshesMiddleware, options?: MeshesMiddlewareOptions): this;
+}
+
+/**
+ * Meshes Scoped Client - sends events through a client with added context
+ * @class
+ * @property {Function} emit - Create (emit) a single event
+ * @property {Function} emitBatch - Create (emit) multiple events up to 100 at a time
+ * @property {Function} emitMany - Create (emit) any number of events in chunks of up to 100
+ * @property {Function} withContext - Create a client with more context
+ */
+export declare class MeshesScopedClient<
+  TEvents extends object = MeshesEventCatalog,
+> {
+  constructor(client: MeshesEventsClient<TEvents>, context: MeshesEventContext);
+
+  /**
+   * The context merged into each event
+   */
+  readonly context: MeshesEventContext;
+
+  /**
+   * Create (emit) a single event
+   * @param {MeshesEventBody} event - The event to emit
+   * @param {MeshesOptionalRequestOptions} options - Optional request options
+   * @param {CallbackFunction<CreateEventResponseSingle>} done - Optional callback function
+   * @returns {Promise<CreateEventResponseSingle> | undefined} - Request promise or undefined if a callback is provided
+   */
+  emit(
+    event: MeshesEventBody<TEvents>,
+    options?: MeshesOptionalRequestOptions,
+    done?: CallbackFunction<CreateEventResponseSingle>
+  ): Promise<CreateEventResponseSingle> | undefined;
+
+  /**
+   * Create (emit) multiple events up to 100 at a time
+   * @param {MeshesEventBody[]} events - The events to emit
+   * @param {MeshesBulkRequestOptions} options - Optional request options
+   * @param {CallbackFunction<BulkCreateEventsResult>} done - Optional callback function
+   * @returns {Promise<BulkCreateEventsResult> | undefined} - Request promise or undefined if a callback is provided
+   */
+  emitBatch(
+    events: MeshesEventBody<TEvents>[],
+    options?: MeshesBulkRequestOptions,
+    done?: CallbackFunction<BulkCreateEventsResult>
+  ): Promise<BulkCreateEventsResult> | undefined;
+
+  /**
+   * Create (emit) any number of events, sent in chunks of up to 100 events
+   * @param {MeshesEventBody[]} events - The events to emit
+   * @param {MeshesEmitManyOptions} options - Optional request options and chunk concurrency
+   * @param {CallbackFunction<BulkCreateEventsResult>} done - Optional callback function
+   * @returns {Promise<BulkCreateEventsResult> | undefined} - Request promise or undefined if a callback is provided
+   */
+  emitMany(
+    events: MeshesEventBody<TEvents>[],
+    options?: MeshesEmitManyOptions,
+    done?: CallbackFunction<BulkCreateEventsResult>
+  ): Promise<BulkCreateEventsResult> | undefined;
+
+  /**
+   * Add an event to the client's background queue
+   * @param {MeshesEventBody} event - The event to enqueue
+   * @returns {Promise<void>} - Resolves once the event is buffered (or dropped)
+   */
+  enqueue(event: MeshesEventBody<TEvents>): Promise<void>;
+
+  /**
+   * Create a client with more context.  The new context takes precedence
+   * over this client's context.
+   * @param {MeshesEventContext} context - Context merged into each event
+   * @returns {MeshesScopedClient} - The scoped client
+   */
+  withContext(context: MeshesEventContext): MeshesScopedClient<TEvents>;
+}
+
+/**
+ * Meshes Events Queue - buffers events and flushes them in bulk
+ * @class
+ * @property {Function} enqueue - Add an event to the queue
+ * @property {Function} flush - Send all buffered events
+ * @property {Function} close - Stop accepting events and send all buffered events
+ */
+export declare class MeshesEventsQueue {
+  constructor(client: MeshesEventsClient<any>, options?: MeshesQueueOptions);
+
+  /**
+   * The number of buffered events
+   */
+  readonly size: number;
+
+  /**
+   * Add an event to the queue
+   * @param {MeshesEventBody} event - The event to enqueue
+   * @returns {Promise<void>} - Resolves once the event is buffered (or dropped)
+   */
+  enqueue(event: MeshesEventBody): Promise<void>;
+
+  /**
+   * Send all buffered events
+   * @returns {Promise<void>} - Resolves once the buffer is drained
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Remove and return all buffered events, including blocked enqueues, to
+   * send them another way
+   * @returns {MeshesEventBody[]} - The buffered events, in order
+   */
+  take(): MeshesEventBody[];
+
+  /**
+   * Stop accepting events and send all buffered events
+   * @returns {Promise<void>} - Resolves once the buffer is drained
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Meshes Outbox - stores events that failed to send and replays them later
+ * @class
+ * @property {Function} size - Get the number of stored events
+ * @property {Function} drain - Replay stored events
+ * @property {Function} close - Stop replaying events automatically
+ */
+export declare class MeshesOutbox {
+  constructor(client: MeshesEventsClient<any>, options?: MeshesOutboxOptions);
+
+  /**
+   * Get the number of stored events
+   * @returns {Promise<number>}
+   */
+  size(): Promise<number>;
+
+  /**
+   * Store events to replay later
+   * @param {MeshesEventBody[]} events - The events to store
+   * @param {MeshesOutboxRequest} request - The failed request the events were sent in
+   * @returns {Promise<void>}
+   */
+  add(events: MeshesEventBody[], request?: MeshesOutboxRequest): Promise<void>;
+
+  /**
+   * Replay stored events in order, in batches.  Stops at the first batch that
+   * fails with an error that can be retried.
+   * @returns {Promise<number>} - Resolves with the number of events sent
+   */
+  drain(): Promise<number>;
+
+  /**
+   * Stop replaying events automatically and wait for a replay in progress
+   * @returns {Promise<void>}
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Outbox storage backed by a JSONL file, one entry per line
+ */
+export declare class MeshesFileOutboxStorage implements MeshesOutboxStorage {
+  constructor(path: string);
+  read(): Promise<MeshesOutboxEntry[]>;
+  append(entries: MeshesOutboxEntry[]): Promise<void>;
+  write(entries: MeshesOutboxEntry[]): Promise<void>;
+}
+
+/**
+ * In-memory outbox storage; entries don't survive process restarts
+ */
+export declare class MeshesMemoryOutboxStorage implements MeshesOutboxStorage {
+  read(): Promise<MeshesOutboxEntry[]>;
+  append(entries: MeshesOutboxEntry[]): Promise<void>;
+  write(entries: MeshesOutboxEntry[]): Promise<void>;
+}
+
+/**
+ * Details of an incoming request added to the events sent for it
+ */
+export type MeshesRequestContext = {
+  /**
+   * Sent as the `X-Request-Id` header
+   */
+  requestId?: string;
+  /**
+   * Added to event payloads as `ip_address`
+   */
+  ipAddress?: string;
+  /**
+   * Added to event payloads as `user_agent`
+   */
+  userAgent?: string;
+};
+
+/**
+ * Request-scoped emitter that adds the request context to the events sent,
+ * such as `req.meshes`
+ */
+export type MeshesRequestEmitter<TEvents extends object = MeshesEventCatalog> =
+  {
+    /**
+     * The incoming request details
+     */
+    readonly context: MeshesRequestContext;
+
+    /**
+     * Create (emit) a single event with the request context
+     * @param {MeshesEventBody} event - The event to emit
+     * @param {MeshesOptionalRequestOptions} options - Optional request options
+     * @returns {Promise<CreateEventResponseSingle>}
+     */
+    emit(
+      event: MeshesEventBody<TEvents>,
+      options?: MeshesOptionalRequestOptions
+    ): Promise<CreateEventResponseSingle>;
+
+    /**
+     * Create (emit) multiple events with the request context
+     * @param {MeshesEventBody[]} events - The events to emit
+     * @param {MeshesBulkRequestOptions} options - Optional request options
+     * @returns {Promise<BulkCreateEventsResult>}
+     */
+    emitBatch(
+      events: MeshesEventBody<TEvents>[],
+      options?: MeshesBulkRequestOptions
+    ): Promise<BulkCreateEventsResult>;
+
+    /**
+     * Wait for all pending sends, whether they succeed or fail
+     * @returns {Promise<void>}
+     */
+    flush(): Promise<void>;
+  };
+
+/**
+ * Framework integration options
+ */
+export type MeshesIntegrationOptions = {
+  /**
+   * Incoming header with the request ID.  A request ID is generated if the
+   * header is missing.
+   * @default "x-request-id"
+   */
+  requestIdHeader?: string;
+
+  /**
+   * Wait for pending sends before the response is sent
+   * @default true
+   */
+  flushBeforeResponse?: boolean;
+};
+
+/**
+ * Fastify plugin options
+ */
+export type MeshesFastifyOptions = MeshesIntegrationOptions & {
+  client: MeshesEventsClient<any>;
+};
+
+/**
+ * Fake Meshes server options
+ */
+export type MeshesFakeServerOptions = {
+  /**
+   * Publishable key the server accepts.  By default, any key is accepted.
+   */
+  publishableKey?: string;
+
+  /**
+   * Workspace ID set on created event records
+   * @default "ws_test"
+   */
+  workspace?: string;
+};
+
+/**
+ * Scripted failure for the fake Meshes server
+ */
+export type MeshesFakeFailure =
+  | {
+      /**
+       * Respond with an error status
+       */
+      type: "http";
+      status: number;
+      body?: unknown;
+      headers?: Record<string, string>;
+    }
+  | {
+      /**
+       * Respond with `429 Too Many Requests`
+       */
+      type: "rate_limit";
+      /**
+       * `Retry-After` value in seconds
+       */
+      retryAfter?: number;
+    }
+  | {
+      /**
+       * Never respond; the request hangs until it is aborted (or times out)
+       */
+      type: "timeout";
+    }
+  | {
+      /**
+       * Fail the connection without a response
+       */
+      type: "network";
+    }
+  | {
+      /**
+       * Reject the events at the given indexes of a bulk request; the other
+       * events are created
+       */
+      type: "partial";
+      indexes: number[];
+      message?: string;
+    };
+
+/**
+ * Request received by the fake Meshes server
+ */
+export type MeshesFakeRequest = {
+  method: string;
+  /**
+   * API path, such as `/events`
+   */
+  path: string;
+  /**
+   * Request headers, with lower-cased names
+   */
+  headers: Record<string, string>;
+  /**
+   * Parsed JSON body
+   */
+  body: unknown;
+};
+
+/**
+ * Error codes identifying the kind of failure
+ */
+export type MeshesErrorCode =
+  | "unknown"
+  | "configuration"
+  | "validation"
+  | "timeout"
+  | "network"
+  | "cancelled"
+  | "http"
+  | "auth"
+  | "rate_limit"
+  | "parse"
+  | "circuit_open"
+  | "partial_failure";
+
+/**
+ * In-memory fake Meshes ingestion server for tests.  Runs in-process by
+ * replacing `fetch`, or on a local port.
+ */
+export declare class MeshesFakeServer {
+  constructor(options?: MeshesFakeServerOptions);
+
+  /**
+   * Events created by the server, in order
+   */
+  readonly events: MeshesEventBody<any>[];
+
+  /**
+   * All requests received by the server, including failed ones
+   */
+  readonly requests: MeshesFakeRequest[];
+
+  /**
+   * `fetch`-compatible function handled in-process by the server
+   */
+  readonly fetch: typeof fetch;
+
+  /**
+   * Fail the next requests
+   * @param {MeshesFakeFailure} failure - The failure
+   * @param {number} times - Number of requests to fail
+   * @returns {this}
+   */
+  fail(failure: MeshesFakeFailure, times?: number): this;
+
+  /**
+   * Clear recorded requests and events, scripted failures and idempotency keys
+   * @returns {void}
+   */
+  reset(): void;
+
+  /**
+   * Replace the global `fetch` with the in-process server
+   * @returns {() => void} - Restores the original `fetch`
+   */
+  install(): () => void;
+
+  /**
+   * Listen on a local port
+   * @param {number} port - Port to listen on; a free port by default
+   * @returns {Promise<string>} - The API base URL to use as `apiBaseUrl`
+   */
+  listen(port?: number): Promise<string>;
+
+  /**
+   * Stop listening and restore the global `fetch`, if installed
+   * @returns {Promise<void>}
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Meshes API Error - the base class of all client errors
+ */
+export declare class MeshesApiError extends Error {
+  data?: any;
+
+  constructor(message: string, data?: any);
+
+  /**
+   * Error code identifying the kind of failure
+   */
+  readonly code: MeshesErrorCode;
+
+  /**
+   * Whether the request could succeed if sent again later
+   */
+  readonly retryable: boolean;
+
+  toJSON(includeStack?: boolean): {
+    name: string;
+    message: string;
+    code: MeshesErrorCode;
+    retryable: boolean;
+    status?: number;
+    data?: any;
+    stack?: any;
+  };
+}
+
+/**
+ * Attempt details included in request error data
+ */
+type MeshesAttemptData = {
+  /**
+   * Number of attempts made
+   */
+  attempts: number;
+  idempotencyKey?: string;
+  /**
+   * True if the events were stored in the outbox
+   */
+  outboxed?: boolean;
+};
+
+/**
+ * Meshes Configuration Error - invalid client, request or component options
+ */
+export declare class MeshesConfigurationError extends MeshesApiError {
+  readonly code: "configuration";
+}
+
+/**
+ * Meshes Timeout Error - the request timed out
+ */
+export declare class MeshesTimeoutError extends MeshesApiError {
+  data: MeshesAttemptData & { error: unknown };
+  constructor(message: string, data: MeshesAttemptData & { error: unknown });
+  readonly code: "timeout";
+}
+
+/**
+ * Meshes Network Error - the request failed before a response was received
+ */
+export declare class MeshesNetworkError extends MeshesApiError {
+  data: MeshesAttemptData & { error: unknown };
+  constructor(message: string, data: MeshesAttemptData & { error: unknown });
+  readonly code: "network";
+}
+
+/**
+ * Meshes Cancelled Error - the request was cancelled with the caller's
+ * `AbortSignal`
+ */
+export declare class MeshesCancelledError extends MeshesApiError {
+  data: MeshesAttemptData & {
+    /**
+     * The signal's abort reason
+     */
+    reason: unknown;
+  };
+  constructor(message: string, data: MeshesAttemptData & { reason: unknown });
+  readonly code: "cancelled";
+}
+
+/**
+ * Meshes HTTP Error - the API responded with an error status.  408 and 5xx
+ * responses are retryable.
+ */
+export declare class MeshesHttpError extends MeshesApiError {
+  data: MeshesAttemptData & {
+    status: number;
+    statusText?: string;
+    /**
+     * The parsed response body
+     */
+    data: unknown;
+  };
+  constructor(message: string, data: MeshesHttpError["data"]);
+  readonly code: "http" | "auth";
+
+  /**
+   * The response status
+   */
+  readonly status: number;
+
+  /**
+   * The parsed response body
+   */
+  readonly body: unknown;
+}
+
+/**
+ * Meshes Auth Error - the publishable key was rejected (401 or 403)
+ */
+export declare class MeshesAuthError extends MeshesHttpError {
+  readonly code: "auth";
+}
+
+/**
+ * Meshes Parse Error - the response body could not be read or parsed.
+ * Retryable only if the response status is.
+ */
+export declare class MeshesParseError extends MeshesApiError {
+  data: MeshesAttemptData & {
+    error: unknown;
+    /**
+     * Response status, if the request failed
+     */
+    status?: number;
+    statusText?: string;
+  };
+  constructor(message: string, data: MeshesParseError["data"]);
+  readonly code: "parse";
+}
+
+/**
+ * Meshes Partial Failure Error - some events in a bulk request were not created
+ */
+export declare class MeshesPartialFailureError extends MeshesApiError {
+  data: {
+    result: BulkCreateEventsResult;
+    failed: MeshesBulkFailure[];
+  };
+
+  constructor(
+    message: string,
+    data: { result: BulkCreateEventsResult; failed: MeshesBulkFailure[] }
+  );
+
+  readonly code: "partial_failure";
+
+  /**
+   * The input events that failed, so they can be re-sent
+   */
+  readonly failedEvents: MeshesEventBody[];
+}
+
+/**
+ * Meshes Validation Error - an event (or the events array) is invalid or
+ * failed payload validation
+ */
+export declare class MeshesValidationError extends MeshesApiError {
+  data: {
+    /**
+     * The invalid event
+     */
+    event?: MeshesEventBody;
+    /**
+     * The invalid events array or request body
+     */
+    events?: unknown;
+    index?: number;
+    issues: MeshesValidationIssue[];
+  };
+
+  constructor(message: string, data: MeshesValidationError["data"]);
+
+  readonly code: "validation";
+
+  /**
+   * The field-level validation issues
+   */
+  readonly issues: MeshesValidationIssue[];
+}
+
+/**
+ * Meshes Circuit Open Error - the request was not sent because the circuit
+ * breaker is open
+ */
+export declare class MeshesCircuitOpenError extends MeshesApiError {
+  data: {
+    state: "open" | "half-open";
+    /**
+     * Milliseconds until a probe request is allowed
+     */
+    retryAfter: number;
+    /**
+     * True if the events were stored in the outbox
+     */
+    outboxed?: boolean;
+  };
+
+  constructor(
+    message: string,
+    data: { state: "open" | "half-open"; retryAfter: number }
+  );
+
+  readonly code: "circuit_open";
+}
+
+/**
+ * Meshes Rate Limit Error - the request was rate limited by the API (429) or
+ * by the client-side rate limiter
+ */
+export declare class MeshesRateLimitError extends MeshesApiError {
+  data: {
+    /**
+     * Milliseconds to wait before retrying, from the `Retry-After` or
+     * rate limit headers, or the client-side rate limiter
+     */
+    retryAfterMs?: number;
+    /**
+     * Response status, if rate limited by the API
+     */
+    status?: number;
+    /**
+     * The exceeded limit, if rate limited by the client
+     */
+    limit?: "requests" | "events";
+    /**
+     * True if the events were stored in the outbox
+     */
+    outboxed?: boolean;
+    [key: string]: unknown;
+  };
+
+  constructor(message: string, data: MeshesRateLimitError["data"]);
+
+  readonly code: "rate_limit";
+
+  /**
+   * Milliseconds to wait before retrying, if known
+   */
+  readonly retryAfterMs: number | undefined;
 }
 
 declare const _default: typeof MeshesEventsClient;
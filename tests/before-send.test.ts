@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { partitionBulkResult, withDroppedRecords } from "../src/lib/bulk";
+import {
+  MeshesConfigurationError,
+  MeshesPartialFailureError,
+  MeshesValidationError,
+} from "../src/lib/errors";
+import { MeshesFakeServer } from "../src/testing";
+import MeshesEventsClient, { MeshesMemoryOutboxStorage } from "../src/client";
+import { VALID_KEY, evt } from "./helpers";
+
+const dropOdd = (event: any) => (event.payload.n % 2 === 1 ? null : event);
+
+describe("withDroppedRecords", () => {
+  it("adds dropped records in the input order", () => {
+    const created = { id: "evt_1", type: "event" } as any;
+    const result = withDroppedRecords([null, evt(2), null], {
+      count: 1,
+      records: [created],
+      error_count: 0,
+    });
+
+    expect(result).toEqual({
+      count: 1,
+      records: [
+        { message: "Event dropped by beforeSend", dropped: true },
+        created,
+        { message: "Event dropped by beforeSend", dropped: true },
+      ],
+      error_count: 0,
+      dropped_count: 2,
+    });
+    const { succeeded, failed, dropped } = partitionBulkResult(
+      [evt(1), evt(2), evt(3)],
+      result
+    );
+    expect(succeeded.map((s) => s.index)).toEqual([1]);
+    expect(failed).toEqual([]);
+    expect(dropped.map((d) => d.index)).toEqual([0, 2]);
+  });
+});
+
+describe("MeshesEventsClient beforeSend", () => {
+  let server: MeshesFakeServer;
+  let transport: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    server = new MeshesFakeServer();
+    transport = vi.fn(server.fetch);
+  });
+
+  it("validates the option", () => {
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { beforeSend: true as any })
+    ).toThrow(MeshesConfigurationError);
+  });
+
+  it("transforms events, with a copy of the event", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      beforeSend: (event) => {
+        delete event.payload.phone;
+        return event.event === "signup"
+          ? { ...event, event: "user.signup" }
+          : event;
+      },
+    });
+    const event = {
+      event: "signup",
+      payload: { email: "a@example.com", phone: "555" },
+    };
+
+    await client.emit(event);
+    expect(server.events).toEqual([
+      { event: "user.signup", payload: { email: "a@example.com" } },
+    ]);
+    expect(event.payload.phone).toBe("555");
+  });
+
+  it("drops single events without sending them", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      beforeSend: () => null,
+    });
+
+    await expect(client.emit(evt(1))).resolves.toEqual({ dropped: true });
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it("reports dropped batch members in the result", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      beforeSend: dropOdd,
+    });
+
+    const result = await client.emitBatch([evt(1), evt(2), evt(3), evt(4)], {
+      failOnPartialError: true,
+    });
+    expect(server.events).toEqual([evt(2), evt(4)]);
+    expect(result.count).toBe(2);
+    expect(result.dropped_count).toBe(2);
+    expect(result.records.map((r: any) => r.dropped ?? false)).toEqual([
+      true,
+      false,
+      true,
+      false,
+    ]);
+  });
+
+  it("sends nothing when every batch member is dropped", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      beforeSend: async () => null,
+    });
+
+    await expect(client.emitBatch([evt(1), evt(3)])).resolves.toEqual({
+      count: 0,
+      records: [
+        { message: "Event dropped by beforeSend", dropped: true },
+        { message: "Event dropped by beforeSend", dropped: true },
+      ],
+      dropped_count: 2,
+    });
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it("runs async hooks for each event of emitMany", async () => {
+    const beforeSend = vi.fn(async (event: any) => dropOdd(event));
+    const client = new MeshesEventsClient(VALID_KEY, { transport, beforeSend });
+    const events = Array.from({ length: 250 }, (_, i) => evt(i));
+
+    const result = await client.emitMany(events);
+    expect(beforeSend).toHaveBeenCalledTimes(250);
+    // 125 events kept, sent in two chunks
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(result.count).toBe(125);
+    expect(result.error_count).toBe(0);
+    expect(result.dropped_count).toBe(125);
+    expect(result.records[0]).toMatchObject({ type: "event" });
+    expect(result.records[1]).toMatchObject({ dropped: true });
+    expect(server.events[124]).toEqual(evt(248));
+  });
+
+  it("runs after validation and rejects invalid events from the hook", async () => {
+    const validator = vi.fn();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      validators: { x: validator },
+      beforeSend: async (event) => ({ ...event, payload: {} }),
+    });
+
+    await expect(client.emit(evt(1))).rejects.toBeInstanceOf(
+      MeshesValidationError
+    );
+    expect(validator).toHaveBeenCalledTimes(1);
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it("rejects when the hook fails", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      beforeSend: async () => {
+        throw new Error("Hook failed");
+      },
+    });
+
+    await expect(client.emitBatch([evt(1)])).rejects.toThrow("Hook failed");
+  });
+
+  it("reports sync hook failures through the callback or promise", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      beforeSend: (event) => {
+        if (event.payload.n === 1) {
+          throw new Error("Hook failed");
+        }
+        return { ...event, event: "" };
+      },
+    });
+
+    const done = vi.fn();
+    await new Promise<void>((resolve) => {
+      const returned = client.emit(evt(1), {}, (err) => {
+        done(err);
+        resolve();
+      });
+      expect(returned).toBeUndefined();
+    });
+    expect(done).toHaveBeenCalledWith(new Error("Hook failed"));
+    await expect(client.emit(evt(2))).rejects.toBeInstanceOf(
+      MeshesValidationError
+    );
+    await expect(client.emitMany([evt(2)])).rejects.toBeInstanceOf(
+      MeshesValidationError
+    );
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it("runs for queued events once, when they are sent", async () => {
+    const beforeSend = vi.fn(dropOdd);
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      beforeSend,
+      queue: { flushInterval: 60000 },
+    });
+
+    await client.enqueue(evt(1));
+    await client.enqueue(evt(2));
+    expect(beforeSend).not.toHaveBeenCalled();
+    await client.close();
+    expect(beforeSend).toHaveBeenCalledTimes(2);
+    expect(server.events).toEqual([evt(2)]);
+  });
+
+  it("stores the events it sent in the outbox and doesn't run again on replay", async () => {
+    server.fail({ type: "http", status: 503 }, 1);
+    const storage = new MeshesMemoryOutboxStorage();
+    const validator = vi.fn();
+    const beforeSend = vi.fn((event: any) => ({
+      ...event,
+      payload: { hashed: true },
+    }));
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      retry: { maxAttempts: 1 },
+      outbox: { storage, drainInterval: 0 },
+      validators: { x: validator },
+      beforeSend,
+    });
+    const sent = { event: "x", payload: { hashed: true } };
+
+    await expect(client.emitBatch([evt(1), evt(2)])).rejects.toThrow();
+    const stored = await storage.read();
+    expect(stored.map((e: any) => e.event)).toEqual([sent, sent]);
+
+    await client.outbox!.drain();
+    expect(server.events).toEqual([sent, sent]);
+    expect(beforeSend).toHaveBeenCalledTimes(2);
+    expect(validator).toHaveBeenCalledTimes(2);
+    await client.close();
+  });
+
+  it("reports partial failures of the events sent", async () => {
+    server.fail({ type: "partial", indexes: [0] });
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      beforeSend: dropOdd,
+    });
+
+    await expect(
+      client.emitBatch([evt(1), evt(2)], { failOnPartialError: true })
+    ).rejects.toBeInstanceOf(MeshesPartialFailureError);
+  });
+});
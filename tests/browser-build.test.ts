@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { build } from "esbuild";
+import { browserBuildOptions } from "../esbuild.js";
+
+describe("browser build", () => {
+  it("doesn't import Node.js built-in modules", async () => {
+    const result = await build({
+      ...browserBuildOptions,
+      minify: false,
+      write: false,
+    });
+
+    const [bundle] = result.outputFiles;
+    expect(bundle.text).toContain("MeshesEventsClient");
+    expect(bundle.text).not.toContain("node:");
+  });
+});
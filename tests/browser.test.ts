@@ -0,0 +1,215 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { resolveUnloadOptions } from "../src/lib/unload";
+import { isNodeRuntime } from "../src/lib/helpers";
+import { MeshesConfigurationError } from "../src/lib/errors";
+import MeshesEventsClient from "../src/client";
+import { VALID_KEY, evt } from "./helpers";
+
+const setVisibility = (state: "visible" | "hidden") => {
+  Object.defineProperty(document, "visibilityState", {
+    configurable: true,
+    get: () => state,
+  });
+  document.dispatchEvent(new Event("visibilitychange"));
+};
+
+describe("resolveUnloadOptions", () => {
+  it("resolves the options", () => {
+    expect(resolveUnloadOptions(undefined)).toBeUndefined();
+    expect(resolveUnloadOptions(false)).toBeUndefined();
+    expect(resolveUnloadOptions(true)).toEqual({ method: "keepalive" });
+    expect(resolveUnloadOptions({ method: "beacon" })).toEqual({
+      method: "beacon",
+    });
+  });
+
+  it("validates the options", () => {
+    expect(() => resolveUnloadOptions("beacon")).toThrow(
+      MeshesConfigurationError
+    );
+    expect(() => resolveUnloadOptions({ method: "xhr" })).toThrow(
+      "Unsupported flushOnUnload method: xhr"
+    );
+  });
+});
+
+describe("isNodeRuntime", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("detects runtimes without Node.js", () => {
+    expect(isNodeRuntime()).toBe(true);
+    vi.stubGlobal("process", undefined);
+    expect(isNodeRuntime()).toBe(false);
+  });
+});
+
+describe("MeshesEventsClient flushOnUnload", () => {
+  const originalFetch = globalThis.fetch;
+  let transport: ReturnType<typeof vi.fn>;
+  let client: MeshesEventsClient | undefined;
+
+  beforeEach(() => {
+    globalThis.fetch = vi.fn();
+    transport = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: "OK",
+      headers: new Headers(),
+      text: async () => "",
+    });
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    client = undefined;
+    globalThis.fetch = originalFetch;
+    setVisibility("visible");
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("validates the option", () => {
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { flushOnUnload: 1 as any })
+    ).toThrow(MeshesConfigurationError);
+  });
+
+  it("sends queued events with a keepalive fetch on pagehide", async () => {
+    client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      flushOnUnload: true,
+      queue: { flushInterval: 60000 },
+    });
+    await client.enqueue(evt(1));
+    await client.enqueue(evt(2));
+
+    window.dispatchEvent(new Event("pagehide"));
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(transport).toHaveBeenCalledWith(
+      "https://events.meshes.io/api/v1/events/bulk",
+      {
+        method: "POST",
+        headers: expect.objectContaining({
+          "X-Meshes-Publishable-Key": VALID_KEY,
+          "Content-Type": "application/json",
+          "Idempotency-Key": expect.any(String),
+        }),
+        body: JSON.stringify([evt(1), evt(2)]),
+        keepalive: true,
+      }
+    );
+
+    // the queue is empty afterwards
+    window.dispatchEvent(new Event("pagehide"));
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends queued events when the page is hidden", async () => {
+    client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      flushOnUnload: true,
+      queue: { flushInterval: 60000 },
+    });
+    await client.enqueue(evt(1));
+
+    setVisibility("visible");
+    expect(transport).not.toHaveBeenCalled();
+    setVisibility("hidden");
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it("splits queued events into bulk requests of 100", () => {
+    client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      flushOnUnload: true,
+      queue: { flushInterval: 60000 },
+    });
+    // the page unloads before the queue sends the first full batch
+    for (let i = 0; i < 150; i++) {
+      client.enqueue(evt(i));
+    }
+
+    window.dispatchEvent(new Event("pagehide"));
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(transport.mock.calls[0][1].body)).toHaveLength(100);
+    expect(JSON.parse(transport.mock.calls[1][1].body)).toHaveLength(50);
+  });
+
+  it("sends queued events with sendBeacon", async () => {
+    const sendBeacon = vi.fn().mockReturnValue(true);
+    vi.stubGlobal("navigator", { sendBeacon });
+    client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      apiBaseUrl: "https://example.com/meshes",
+      flushOnUnload: { method: "beacon" },
+      queue: { flushInterval: 60000 },
+    });
+    await client.enqueue(evt(1));
+
+    window.dispatchEvent(new Event("pagehide"));
+    expect(sendBeacon).toHaveBeenCalledWith(
+      "https://example.com/meshes/events/bulk",
+      JSON.stringify([evt(1)])
+    );
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it("falls back to a keepalive fetch when the beacon can't be queued", async () => {
+    vi.stubGlobal("navigator", { sendBeacon: vi.fn().mockReturnValue(false) });
+    client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      flushOnUnload: { method: "beacon" },
+      queue: { flushInterval: 60000 },
+    });
+    await client.enqueue(evt(1));
+
+    window.dispatchEvent(new Event("pagehide"));
+    expect(transport).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ keepalive: true })
+    );
+  });
+
+  it("runs the beforeSend hook for queued events", async () => {
+    client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      flushOnUnload: true,
+      queue: { flushInterval: 60000 },
+      beforeSend: (event) => (event.payload.n === 1 ? null : event),
+    });
+    await client.enqueue(evt(1));
+    await client.enqueue(evt(2));
+
+    window.dispatchEvent(new Event("pagehide"));
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(transport.mock.calls[0][1].body).toBe(JSON.stringify([evt(2)]));
+  });
+
+  it("ignores transport failures on unload", async () => {
+    transport.mockImplementation(() => {
+      throw new TypeError("Failed to fetch");
+    });
+    client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      flushOnUnload: true,
+      queue: { flushInterval: 60000 },
+    });
+    await client.enqueue(evt(1));
+
+    expect(() => window.dispatchEvent(new Event("pagehide"))).not.toThrow();
+  });
+
+  it("stops listening once closed", async () => {
+    const closed = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      flushOnUnload: true,
+    });
+    await closed.close();
+
+    window.dispatchEvent(new Event("pagehide"));
+    expect(transport).not.toHaveBeenCalled();
+  });
+});
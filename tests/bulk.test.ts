@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import {
+  isMeshesErrorResponse,
+  isMeshesEvent,
+  partitionBulkResult,
+} from "../src/lib/bulk.js";
+
+const created = {
+  type: "event" as const,
+  event: "x",
+  id: "evt_1",
+  workspace: "ws_1",
+  created_by: "key",
+  created_at: "2024-01-01T00:00:00.000Z",
+  resource: "global",
+};
+
+describe("bulk helpers", () => {
+  it("type guards distinguish events from errors", () => {
+    expect(isMeshesEvent(created)).toBe(true);
+    expect(isMeshesEvent({ message: "bad" })).toBe(false);
+    expect(isMeshesEvent(null)).toBe(false);
+
+    expect(isMeshesErrorResponse({ message: "bad" })).toBe(true);
+    expect(isMeshesErrorResponse(created)).toBe(false);
+    expect(isMeshesErrorResponse(undefined)).toBe(false);
+  });
+
+  it("pairs inputs with their outcomes", () => {
+    const events = [
+      { event: "x", payload: { n: 0 } },
+      { event: "x", payload: { n: 1 } },
+      { event: "x", payload: { n: 2 } },
+    ];
+
+    const { succeeded, failed } = partitionBulkResult(events, {
+      count: 1,
+      error_count: 1,
+      records: [created, { message: "invalid", error: { field: "email" } }],
+    });
+
+    expect(succeeded).toEqual([{ index: 0, input: events[0], event: created }]);
+    expect(failed).toEqual([
+      {
+        index: 1,
+        input: events[1],
+        error: { message: "invalid", error: { field: "email" } },
+      },
+      {
+        index: 2,
+        input: events[2],
+        error: { message: "No record returned for event", error: undefined },
+      },
+    ]);
+  });
+
+  it("treats a result without records as all failed", () => {
+    const events = [{ event: "x", payload: { n: 0 } }];
+    const { succeeded, failed } = partitionBulkResult(events, "OK" as any);
+    expect(succeeded).toEqual([]);
+    expect(failed).toHaveLength(1);
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CircuitBreaker } from "../src/lib/circuit-breaker";
+import { MeshesApiError, MeshesCircuitOpenError } from "../src/lib/errors";
+import MeshesEventsClient, { MeshesMemoryOutboxStorage } from "../src/client";
+import { VALID_KEY, mockResponse } from "./helpers";
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("validates options", () => {
+    expect(() => new CircuitBreaker(null as any)).toThrow(MeshesApiError);
+    expect(() => new CircuitBreaker({ failureThreshold: 0 })).toThrow(
+      "Unsupported circuit breaker failureThreshold: 0"
+    );
+    expect(() => new CircuitBreaker({ windowSize: 1.5 })).toThrow(
+      MeshesApiError
+    );
+    expect(() => new CircuitBreaker({ resetTimeout: -1 })).toThrow(
+      MeshesApiError
+    );
+    expect(() => new CircuitBreaker({ failureRate: 2 })).toThrow(
+      MeshesApiError
+    );
+    expect(() => new CircuitBreaker({ onStateChange: "nope" as any })).toThrow(
+      MeshesApiError
+    );
+    expect(new CircuitBreaker(true).state).toBe("closed");
+  });
+
+  it("opens after consecutive failures", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3 });
+    breaker.record("failure");
+    breaker.record("failure");
+    breaker.record("success");
+    breaker.record("failure");
+    breaker.record("failure");
+    expect(breaker.state).toBe("closed");
+    expect(breaker.check()).toBeUndefined();
+
+    breaker.record("failure");
+    expect(breaker.state).toBe("open");
+    const err = breaker.check();
+    expect(err).toBeInstanceOf(MeshesCircuitOpenError);
+    expect(err?.data).toEqual({ state: "open", retryAfter: 30000 });
+  });
+
+  it("opens when the failure rate is reached over a full window", () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 100,
+      failureRate: 0.5,
+      windowSize: 4,
+    });
+    breaker.record("failure");
+    breaker.record("success");
+    breaker.record("failure");
+    expect(breaker.state).toBe("closed");
+    breaker.record("ignored");
+    expect(breaker.state).toBe("closed");
+    breaker.record("success");
+    breaker.record("failure");
+    expect(breaker.state).toBe("open");
+  });
+
+  it("lets a single probe through when half-open", () => {
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeout: 1000,
+      onStateChange,
+    });
+    breaker.record("failure");
+    expect(onStateChange).toHaveBeenLastCalledWith("open", "closed");
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state).toBe("half-open");
+    expect(breaker.check()).toBeUndefined();
+    expect(onStateChange).toHaveBeenLastCalledWith("half-open", "open");
+    expect(breaker.check()).toBeInstanceOf(MeshesCircuitOpenError);
+
+    // a failed probe opens the circuit again
+    breaker.record("failure");
+    expect(breaker.state).toBe("open");
+    expect(onStateChange).toHaveBeenLastCalledWith("open", "half-open");
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.check()).toBeUndefined();
+    breaker.record("success");
+    expect(breaker.state).toBe("closed");
+    expect(onStateChange).toHaveBeenLastCalledWith("closed", "half-open");
+  });
+
+  it("ignores errors thrown by onStateChange", () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      onStateChange: () => {
+        throw new Error("boom");
+      },
+    });
+    expect(() => breaker.record("failure")).not.toThrow();
+    expect(breaker.state).toBe("open");
+  });
+});
+
+describe("MeshesEventsClient circuit breaker", () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    globalThis.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it("is disabled by default", () => {
+    const client = new MeshesEventsClient(VALID_KEY);
+    expect(client.circuitState).toBeUndefined();
+  });
+
+  it("fails fast once the circuit is open", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: false, status: 503 })
+    );
+    const client = new MeshesEventsClient(VALID_KEY, {
+      circuitBreaker: { failureThreshold: 2 },
+    });
+
+    await expect(
+      client.emit({ event: "x", payload: { n: 1 } })
+    ).rejects.toThrow(MeshesApiError);
+    await expect(
+      client.emit({ event: "x", payload: { n: 1 } })
+    ).rejects.toThrow(MeshesApiError);
+    expect(client.circuitState).toBe("open");
+
+    await expect(
+      client.emit({ event: "x", payload: { n: 1 } })
+    ).rejects.toBeInstanceOf(MeshesCircuitOpenError);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not count client errors as failures", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: false, status: 400 })
+    );
+    const client = new MeshesEventsClient(VALID_KEY, {
+      circuitBreaker: { failureThreshold: 1 },
+    });
+
+    await expect(
+      client.emit({ event: "x", payload: { n: 1 } })
+    ).rejects.toThrow(MeshesApiError);
+    expect(client.circuitState).toBe("closed");
+  });
+
+  it("stops retrying once the circuit opens", async () => {
+    (globalThis.fetch as any).mockRejectedValue(new Error("NetworkDown"));
+    const client = new MeshesEventsClient(VALID_KEY, {
+      circuitBreaker: { failureThreshold: 2 },
+      retry: { maxAttempts: 5, jitter: false, baseDelay: 10 },
+    });
+
+    const p = client.emit({ event: "x", payload: { n: 1 } });
+    const assertion = expect(p).rejects.toBeInstanceOf(MeshesCircuitOpenError);
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("closes again after a successful probe", async () => {
+    (globalThis.fetch as any).mockRejectedValueOnce(new Error("NetworkDown"));
+    const onStateChange = vi.fn();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      circuitBreaker: {
+        failureThreshold: 1,
+        resetTimeout: 5000,
+        onStateChange,
+      },
+    });
+
+    await expect(
+      client.emit({ event: "x", payload: { n: 1 } })
+    ).rejects.toThrow("Request Failure");
+    expect(client.circuitState).toBe("open");
+
+    vi.advanceTimersByTime(5000);
+    expect(client.circuitState).toBe("half-open");
+    (globalThis.fetch as any).mockResolvedValueOnce(
+      mockResponse({ ok: true, bodyText: JSON.stringify({ id: "evt_1" }) })
+    );
+    await expect(
+      client.emit({ event: "x", payload: { n: 1 } })
+    ).resolves.toMatchObject({
+      id: "evt_1",
+    });
+    expect(client.circuitState).toBe("closed");
+    expect(onStateChange.mock.calls).toEqual([
+      ["open", "closed"],
+      ["half-open", "open"],
+      ["closed", "half-open"],
+    ]);
+  });
+
+  it("stores events rejected by the open circuit in the outbox", async () => {
+    (globalThis.fetch as any).mockRejectedValue(new Error("NetworkDown"));
+    const storage = new MeshesMemoryOutboxStorage();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      circuitBreaker: { failureThreshold: 1 },
+      outbox: { storage, drainInterval: 0 },
+    });
+
+    await expect(
+      client.emit({ event: "x", payload: { n: 1 } })
+    ).rejects.toMatchObject({ data: { outboxed: true } });
+    await expect(
+      client.emit({ event: "y", payload: { n: 1 } })
+    ).rejects.toMatchObject({
+      message: "Meshes circuit breaker is open",
+      data: { outboxed: true },
+    });
+    expect(await client.outbox?.size()).toBe(2);
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { gunzipSync, inflateSync } from "node:zlib";
+import {
+  compressBody,
+  resolveCompressionOptions,
+} from "../src/lib/compression";
+import { MeshesConfigurationError } from "../src/lib/errors";
+import { MeshesFakeServer } from "../src/testing";
+import MeshesEventsClient from "../src/client";
+import { VALID_KEY } from "./helpers";
+
+const evt = (n: number) => ({
+  event: "x",
+  payload: { n, notes: "lorem ipsum dolor sit amet ".repeat(5) },
+});
+
+const events = (count: number) =>
+  Array.from({ length: count }, (_, i) => evt(i));
+
+describe("resolveCompressionOptions", () => {
+  it("is disabled by default", () => {
+    expect(resolveCompressionOptions(undefined)).toBeUndefined();
+    expect(resolveCompressionOptions(false)).toBeUndefined();
+  });
+
+  it("resolves the default options", () => {
+    expect(resolveCompressionOptions(true)).toEqual({
+      threshold: 1024,
+      encoding: "gzip",
+    });
+    expect(resolveCompressionOptions({ encoding: "deflate" })).toEqual({
+      threshold: 1024,
+      encoding: "deflate",
+    });
+  });
+
+  it("validates the options", () => {
+    expect(() => resolveCompressionOptions("gzip")).toThrow(
+      MeshesConfigurationError
+    );
+    expect(() => resolveCompressionOptions({ threshold: -1 })).toThrow(
+      "Invalid compression threshold: -1"
+    );
+    expect(() => resolveCompressionOptions({ encoding: "br" as any })).toThrow(
+      "Unsupported compression encoding: br"
+    );
+  });
+});
+
+describe("compressBody", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.doUnmock("node:zlib");
+  });
+
+  it("compresses with CompressionStream", async () => {
+    const body = JSON.stringify(events(3));
+    const gzipped = await compressBody(body, "gzip");
+    expect(gunzipSync(gzipped!).toString("utf8")).toBe(body);
+    const deflated = await compressBody(body, "deflate");
+    expect(inflateSync(deflated!).toString("utf8")).toBe(body);
+  });
+
+  it("falls back to zlib without CompressionStream", async () => {
+    vi.stubGlobal("CompressionStream", undefined);
+    const body = JSON.stringify(events(3));
+    const gzipped = await compressBody(body, "gzip");
+    expect(gzipped).toBeInstanceOf(Uint8Array);
+    expect(gunzipSync(gzipped!).toString("utf8")).toBe(body);
+  });
+
+  it("returns undefined when the runtime can't compress", async () => {
+    vi.stubGlobal("CompressionStream", undefined);
+    vi.doMock("node:zlib", () => {
+      throw new Error("Cannot find module 'node:zlib'");
+    });
+    await expect(compressBody("{}", "gzip")).resolves.toBeUndefined();
+  });
+});
+
+describe("MeshesEventsClient compression", () => {
+  let server: MeshesFakeServer;
+
+  beforeEach(() => {
+    server = new MeshesFakeServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+    vi.unstubAllGlobals();
+    vi.doUnmock("node:zlib");
+    vi.restoreAllMocks();
+  });
+
+  it("validates the compression option", () => {
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { compression: 1 as any })
+    ).toThrow(MeshesConfigurationError);
+    expect(
+      () =>
+        new MeshesEventsClient(VALID_KEY, {
+          headers: { "Content-Encoding": "gzip" },
+        })
+    ).toThrow("Header not allowed: Content-Encoding");
+  });
+
+  it("gzips bulk bodies above the threshold to a server that decompresses", async () => {
+    const apiBaseUrl = await server.listen();
+    const onRequest = vi.fn();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      apiBaseUrl,
+      compression: true,
+      hooks: { onRequest },
+    });
+
+    const result = await client.emitBatch(events(20));
+    expect(result.count).toBe(20);
+    expect(server.events).toEqual(events(20));
+    expect(server.requests[0].headers).toMatchObject({
+      "content-encoding": "gzip",
+      "content-type": "application/json",
+    });
+    const raw = Buffer.byteLength(JSON.stringify(events(20)));
+    expect(onRequest.mock.calls[0][0].bytes).toBeLessThan(raw);
+  });
+
+  it("sends bodies below the threshold uncompressed", async () => {
+    const apiBaseUrl = await server.listen();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      apiBaseUrl,
+      compression: { threshold: 100000 },
+    });
+
+    await client.emitBatch(events(2));
+    expect(server.events).toEqual(events(2));
+    expect(server.requests[0].headers["content-encoding"]).toBeUndefined();
+  });
+
+  it("deflates bodies with the deflate encoding", async () => {
+    const transport = vi.fn(server.fetch);
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      compression: { threshold: 0, encoding: "deflate" },
+    });
+
+    await client.emit(evt(1));
+    const init = transport.mock.calls[0][1] as any;
+    expect(init.headers["Content-Encoding"]).toBe("deflate");
+    expect(inflateSync(init.body).toString("utf8")).toBe(
+      JSON.stringify(evt(1))
+    );
+    expect(server.events).toEqual([evt(1)]);
+  });
+
+  it("passes the compressed body to transport middleware", async () => {
+    const transport = vi.fn(server.fetch);
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      compression: { threshold: 0 },
+    }).use(
+      (request, next) => {
+        expect(request.headers["Content-Encoding"]).toBe("gzip");
+        expect(request.body).toBeInstanceOf(Uint8Array);
+        request.headers["X-Body-Bytes"] = String(
+          (request.body as Uint8Array).byteLength
+        );
+        return next(request);
+      },
+      { stage: "transport" }
+    );
+
+    await client.emit(evt(1));
+    const init = transport.mock.calls[0][1] as any;
+    expect(init.headers["X-Body-Bytes"]).toBe(String(init.body.byteLength));
+    expect(gunzipSync(init.body).toString("utf8")).toBe(JSON.stringify(evt(1)));
+  });
+
+  it("sends bodies uncompressed when the runtime can't compress", async () => {
+    vi.stubGlobal("CompressionStream", undefined);
+    vi.doMock("node:zlib", () => {
+      throw new Error("Cannot find module 'node:zlib'");
+    });
+    const transport = vi.fn(server.fetch);
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      compression: { threshold: 0 },
+    });
+
+    await client.emit(evt(1));
+    const init = transport.mock.calls[0][1] as any;
+    expect(init.headers["Content-Encoding"]).toBeUndefined();
+    expect(init.body).toBe(JSON.stringify(evt(1)));
+  });
+
+  it("doesn't compress in record mode", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      mode: "record",
+      compression: { threshold: 0 },
+    });
+
+    await client.emit(evt(1));
+    expect(client.recordedRequests[0].body).toBe(JSON.stringify(evt(1)));
+    expect(
+      client.recordedRequests[0].headers["Content-Encoding"]
+    ).toBeUndefined();
+  });
+});
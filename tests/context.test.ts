@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  applyContext,
+  mergeContext,
+  resolveEventContext,
+} from "../src/lib/context";
+import {
+  MeshesConfigurationError,
+  MeshesValidationError,
+} from "../src/lib/errors";
+import { MeshesFakeServer } from "../src/testing";
+import MeshesEventsClient, { MeshesScopedClient } from "../src/client";
+import { VALID_KEY } from "./helpers";
+
+describe("resolveEventContext", () => {
+  it("validates the context", () => {
+    expect(resolveEventContext(undefined, "defaults")).toBeUndefined();
+    expect(resolveEventContext({ resource: "org" }, "defaults")).toEqual({
+      resource: "org",
+    });
+    expect(() => resolveEventContext("org", "defaults")).toThrow(
+      "Invalid defaults: string"
+    );
+    expect(() => resolveEventContext([], "context")).toThrow(
+      MeshesConfigurationError
+    );
+    expect(() =>
+      resolveEventContext({ event: "user.signup" }, "context")
+    ).toThrow("Unsupported context field: event");
+    expect(() => resolveEventContext({ resource_id: 1 }, "context")).toThrow(
+      "Invalid context resource_id: number"
+    );
+    expect(() => resolveEventContext({ payload: [] }, "defaults")).toThrow(
+      "Invalid defaults payload: object"
+    );
+  });
+});
+
+describe("mergeContext", () => {
+  it("deep merges plain objects, with values taking precedence", () => {
+    const context = {
+      resource: "org",
+      payload: { env: "prod", tags: ["a"], app: { version: "1.0", os: "mac" } },
+    };
+    const merged = mergeContext(context, {
+      payload: { tags: ["b"], app: { version: "2.0" }, env: undefined },
+    });
+
+    expect(merged).toEqual({
+      resource: "org",
+      payload: { env: "prod", tags: ["b"], app: { version: "2.0", os: "mac" } },
+    });
+    // the inputs are unchanged
+    expect(context.payload.app.version).toBe("1.0");
+  });
+
+  it("returns invalid events as is", () => {
+    expect(applyContext(null as any, { resource: "org" })).toBeNull();
+    const event = { event: "x", payload: { n: 1 } };
+    expect(applyContext(event, undefined)).toBe(event);
+  });
+});
+
+describe("MeshesEventsClient defaults and withContext", () => {
+  let server: MeshesFakeServer;
+
+  beforeEach(() => {
+    server = new MeshesFakeServer();
+  });
+
+  it("validates the defaults option", () => {
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { defaults: "prod" as any })
+    ).toThrow(MeshesConfigurationError);
+  });
+
+  it("merges the defaults into each event", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport: server.fetch,
+      defaults: {
+        resource: "org",
+        resource_id: "org_1",
+        payload: { environment: "prod", app_version: "1.2.0" },
+      },
+    });
+
+    await client.emit({ event: "a", payload: { email: "a@example.com" } });
+    await client.emitBatch([
+      { event: "b", resource_id: "org_2", payload: { environment: "dev" } },
+    ]);
+    await client.emitMany([{ event: "c", payload: {} }]);
+    expect(server.events).toEqual([
+      {
+        event: "a",
+        resource: "org",
+        resource_id: "org_1",
+        payload: {
+          environment: "prod",
+          app_version: "1.2.0",
+          email: "a@example.com",
+        },
+      },
+      {
+        event: "b",
+        resource: "org",
+        resource_id: "org_2",
+        payload: { environment: "dev", app_version: "1.2.0" },
+      },
+      {
+        event: "c",
+        resource: "org",
+        resource_id: "org_1",
+        payload: { environment: "prod", app_version: "1.2.0" },
+      },
+    ]);
+  });
+
+  it("validates events after merging the context", async () => {
+    const validator = vi.fn();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport: server.fetch,
+      defaults: { payload: { environment: "prod" } },
+      validators: { a: validator },
+    });
+
+    await client.emit({ event: "a", payload: {} });
+    expect(validator.mock.calls[0][0]).toEqual({ environment: "prod" });
+    expect(() => client.withContext({}).emit({ event: "" } as any)).toThrow(
+      MeshesValidationError
+    );
+  });
+
+  it("creates scoped clients with nested context", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport: server.fetch,
+      defaults: { payload: { environment: "prod", tenant_id: "t_0" } },
+    });
+    const tenant = client.withContext({ payload: { tenant_id: "t_1" } });
+    const user = tenant.withContext({
+      resource: "user",
+      payload: { user: { id: "u_1" } },
+    });
+
+    expect(tenant).toBeInstanceOf(MeshesScopedClient);
+    expect(user.context).toEqual({
+      resource: "user",
+      payload: { tenant_id: "t_1", user: { id: "u_1" } },
+    });
+
+    await tenant.emit({ event: "a", payload: { n: 1 } });
+    await user.emit({ event: "b", payload: { user: { plan: "pro" } } });
+    expect(server.events).toEqual([
+      {
+        event: "a",
+        payload: { environment: "prod", tenant_id: "t_1", n: 1 },
+      },
+      {
+        event: "b",
+        resource: "user",
+        payload: {
+          environment: "prod",
+          tenant_id: "t_1",
+          user: { id: "u_1", plan: "pro" },
+        },
+      },
+    ]);
+    expect(() => client.withContext({ resource: 1 } as any)).toThrow(
+      "Invalid context resource: number"
+    );
+  });
+
+  it("shares the client's queue and callbacks", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport: server.fetch,
+      queue: { flushInterval: 60000 },
+    });
+    const scoped = client.withContext({ payload: { tenant_id: "t_1" } });
+
+    await scoped.enqueue({ event: "a", payload: { n: 1 } });
+    await client.flush();
+    expect(server.events).toEqual([
+      { event: "a", payload: { tenant_id: "t_1", n: 1 } },
+    ]);
+
+    const done = vi.fn();
+    await new Promise<void>((resolve) => {
+      scoped.emitBatch([{ event: "b", payload: { n: 2 } }], {}, (...args) => {
+        done(...args);
+        resolve();
+      });
+    });
+    expect(done).toHaveBeenCalledWith(
+      null,
+      expect.objectContaining({ count: 1 })
+    );
+    await client.close();
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { dryRunResult } from "../src/lib/dry-run";
+import { MeshesConfigurationError } from "../src/lib/errors";
+import MeshesEventsClient from "../src/client";
+import { VALID_KEY, evt } from "./helpers";
+
+describe("dryRunResult", () => {
+  it("creates a synthetic event for a single event", () => {
+    const result = dryRunResult(
+      JSON.stringify({
+        event: "user.signup",
+        resource: "account",
+        resource_id: "acc_1",
+        payload: {},
+      })
+    );
+    expect(result).toEqual({
+      event: {
+        type: "event",
+        event: "user.signup",
+        id: expect.any(String),
+        workspace: "dry-run",
+        created_by: "dry-run",
+        created_at: expect.any(String),
+        resource: "account",
+        resource_id: "acc_1",
+      },
+    });
+  });
+
+  it("creates a bulk result for an array of events", () => {
+    const result = dryRunResult(JSON.stringify([evt(1), evt(2)]));
+    expect(result).toMatchObject({
+      count: 2,
+      error_count: 0,
+      records: [
+        { type: "event", event: "x", resource: "global" },
+        { type: "event", event: "x", resource: "global" },
+      ],
+    });
+  });
+
+  it("handles bodies that aren't JSON", () => {
+    expect(dryRunResult("not json")).toMatchObject({
+      event: { type: "event", event: "" },
+    });
+    expect(dryRunResult(null)).toMatchObject({ event: { type: "event" } });
+  });
+});
+
+describe("MeshesEventsClient dry-run and record modes", () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    globalThis.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it("validates the mode", () => {
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { mode: "offline" as any })
+    ).toThrow(MeshesConfigurationError);
+    expect(new MeshesEventsClient(VALID_KEY).mode).toBe("live");
+  });
+
+  it("returns synthetic results without sending in dry-run mode", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, { mode: "dry-run" });
+
+    const single = await client.emit(evt(1), { idempotencyKey: "key-1" });
+    expect(single).toMatchObject({
+      event: { type: "event", event: "x", workspace: "dry-run" },
+      idempotencyKey: "key-1",
+    });
+    const bulk = await client.emitBatch([evt(1), evt(2)]);
+    expect(bulk).toMatchObject({ count: 2, error_count: 0 });
+    expect(bulk.records).toHaveLength(2);
+
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+    expect(client.recordedRequests).toEqual([]);
+  });
+
+  it("still validates events in dry-run mode", () => {
+    const client = new MeshesEventsClient(VALID_KEY, { mode: "dry-run" });
+    expect(() => client.emit({ event: "", payload: { n: 1 } } as any)).toThrow(
+      "Invalid event"
+    );
+    expect(client.recordedRequests).toEqual([]);
+  });
+
+  it("records the requests that would have been sent", async () => {
+    const onRequest = vi.fn();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      mode: "record",
+      headers: { "X-Custom": "1" },
+      hooks: { onRequest },
+    });
+    client.use((request, next) => {
+      request.headers["X-Middleware"] = "yes";
+      return next(request);
+    });
+
+    await client.emit(evt(1), { idempotencyKey: "key-1" });
+    await client.emitBatch([evt(2)]);
+
+    const [single, bulk] = client.recordedRequests;
+    expect(single).toEqual({
+      method: "POST",
+      url: "https://events.meshes.io/api/v1/events",
+      path: "/events",
+      headers: expect.objectContaining({
+        "X-Meshes-Publishable-Key": VALID_KEY,
+        "X-Custom": "1",
+        "X-Middleware": "yes",
+        "Idempotency-Key": "key-1",
+      }),
+      body: JSON.stringify(evt(1)),
+      attempt: 1,
+      idempotencyKey: "key-1",
+      timestamp: expect.any(Number),
+    });
+    expect(bulk.path).toBe("/events/bulk");
+    expect(JSON.parse(bulk.body as string)).toEqual([evt(2)]);
+    expect(onRequest).toHaveBeenCalledTimes(2);
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+
+    client.clearRecordedRequests();
+    expect(client.recordedRequests).toEqual([]);
+  });
+});
@@ -1,5 +1,18 @@
 import { describe, it, expect } from "vitest";
-import { MeshesApiError } from "../src/lib/errors";
+import {
+  MeshesApiError,
+  MeshesAuthError,
+  MeshesCancelledError,
+  MeshesCircuitOpenError,
+  MeshesConfigurationError,
+  MeshesHttpError,
+  MeshesNetworkError,
+  MeshesParseError,
+  MeshesPartialFailureError,
+  MeshesRateLimitError,
+  MeshesTimeoutError,
+  MeshesValidationError,
+} from "../src/lib/errors";
 
 describe("MeshesApiError", () => {
   it("constructs with message only", () => {
@@ -46,4 +59,108 @@ describe("MeshesApiError", () => {
     const err = new MeshesApiError("boom", payload);
     expect(err.data).toEqual(payload);
   });
+
+  it("constructs a partial failure error with the failed inputs", () => {
+    const input = { event: "x", payload: { email: "a@b.com" } };
+    const err = new MeshesPartialFailureError("partial", {
+      result: { count: 0, records: [] },
+      failed: [{ index: 0, input, error: { message: "bad" } }],
+    });
+    expect(err).toBeInstanceOf(MeshesApiError);
+    expect(err.name).toBe("MeshesPartialFailureError");
+    expect(err.failedEvents).toEqual([input]);
+    expect(err.toJSON().data.failed).toHaveLength(1);
+  });
+
+  it("constructs a validation error with field-level issues", () => {
+    const issues = [{ path: ["email"], message: "Invalid email" }];
+    const err = new MeshesValidationError("invalid", {
+      event: { event: "x", payload: { email: "nope" } },
+      issues,
+    });
+    expect(err).toBeInstanceOf(MeshesApiError);
+    expect(err.name).toBe("MeshesValidationError");
+    expect(err.issues).toEqual(issues);
+    expect(err.toJSON().data.issues).toEqual(issues);
+  });
+
+  it("includes the code and retryable flag in toJSON", () => {
+    expect(new MeshesApiError("boom", { a: 1 }).toJSON()).toEqual({
+      name: "MeshesApiError",
+      message: "boom",
+      code: "unknown",
+      retryable: false,
+      data: { a: 1 },
+    });
+
+    const http = new MeshesHttpError("failed", {
+      status: 503,
+      data: { message: "down" },
+      attempts: 1,
+    });
+    expect(http.toJSON()).toMatchObject({
+      name: "MeshesHttpError",
+      code: "http",
+      retryable: true,
+      status: 503,
+    });
+  });
+
+  it("reports the code and retryable flag of each error class", () => {
+    const meta = { attempts: 1 };
+    const cases: [MeshesApiError, string, boolean][] = [
+      [new MeshesConfigurationError("bad option"), "configuration", false],
+      [new MeshesValidationError("bad", { issues: [] }), "validation", false],
+      [new MeshesTimeoutError("t", { error: 1, ...meta }), "timeout", true],
+      [new MeshesNetworkError("n", { error: 1, ...meta }), "network", true],
+      [
+        new MeshesCancelledError("c", { reason: 1, ...meta }),
+        "cancelled",
+        false,
+      ],
+      [
+        new MeshesHttpError("h", { status: 400, data: null, ...meta }),
+        "http",
+        false,
+      ],
+      [
+        new MeshesAuthError("a", { status: 401, data: null, ...meta }),
+        "auth",
+        false,
+      ],
+      [new MeshesRateLimitError("r", { status: 429 }), "rate_limit", true],
+      [new MeshesParseError("p", { error: 1, ...meta }), "parse", false],
+      [
+        new MeshesParseError("p", { error: 1, status: 502, ...meta }),
+        "parse",
+        true,
+      ],
+      [
+        new MeshesCircuitOpenError("o", { state: "open", retryAfter: 1 }),
+        "circuit_open",
+        true,
+      ],
+      [
+        new MeshesPartialFailureError("pf", { result: {}, failed: [] }),
+        "partial_failure",
+        false,
+      ],
+    ];
+    for (const [err, code, retryable] of cases) {
+      expect(err).toBeInstanceOf(MeshesApiError);
+      expect(err.code).toBe(code);
+      expect(err.retryable).toBe(retryable);
+    }
+  });
+
+  it("exposes the status and body of HTTP errors", () => {
+    const err = new MeshesAuthError("failed", {
+      status: 403,
+      data: { message: "Forbidden" },
+      attempts: 1,
+    });
+    expect(err).toBeInstanceOf(MeshesHttpError);
+    expect(err.status).toBe(403);
+    expect(err.body).toEqual({ message: "Forbidden" });
+  });
 });
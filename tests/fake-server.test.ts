@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { MeshesFakeServer } from "../src/testing";
+import {
+  MeshesApiError,
+  MeshesAuthError,
+  MeshesHttpError,
+  MeshesNetworkError,
+  MeshesPartialFailureError,
+  MeshesRateLimitError,
+  MeshesTimeoutError,
+} from "../src/lib/errors";
+import MeshesEventsClient from "../src/client";
+import { VALID_KEY, evt } from "./helpers";
+
+describe("MeshesFakeServer", () => {
+  let server: MeshesFakeServer;
+  let restore: () => void;
+
+  beforeEach(() => {
+    server = new MeshesFakeServer();
+    restore = server.install();
+  });
+
+  afterEach(async () => {
+    restore();
+    await server.close();
+    vi.useRealTimers();
+  });
+
+  it("validates options and failures", () => {
+    expect(() => new MeshesFakeServer(null as any)).toThrow(MeshesApiError);
+    expect(() => new MeshesFakeServer({ workspace: "" })).toThrow(
+      "Invalid fake server workspace: "
+    );
+    expect(() => server.fail({ type: "nope" } as any)).toThrow(
+      "Invalid fake server failure"
+    );
+    expect(() => server.fail({ type: "http", status: 200 })).toThrow(
+      "Unsupported fake server failure status: 200"
+    );
+    expect(() => server.fail({ type: "network" }, 0)).toThrow(MeshesApiError);
+  });
+
+  it("creates a single event", async () => {
+    const client = new MeshesEventsClient(VALID_KEY);
+    const result = await client.emit({
+      event: "user.signup",
+      resource: "account",
+      resource_id: "acc_1",
+      payload: { email: "a@example.com" },
+    });
+
+    expect(result.event).toMatchObject({
+      type: "event",
+      event: "user.signup",
+      workspace: "ws_test",
+      created_by: "publishable_key",
+      resource: "account",
+      resource_id: "acc_1",
+    });
+    expect(typeof result.event.id).toBe("string");
+    expect(Number.isNaN(Date.parse(result.event.created_at))).toBe(false);
+    expect(server.events).toEqual([
+      {
+        event: "user.signup",
+        resource: "account",
+        resource_id: "acc_1",
+        payload: { email: "a@example.com" },
+      },
+    ]);
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0]).toMatchObject({
+      method: "POST",
+      path: "/events",
+      headers: { "x-meshes-publishable-key": VALID_KEY },
+    });
+  });
+
+  it("creates events in bulk", async () => {
+    const client = new MeshesEventsClient(VALID_KEY);
+    const result = await client.emitBatch([evt(1), evt(2)]);
+
+    expect(result.count).toBe(2);
+    expect(result.error_count).toBe(0);
+    expect(result.records).toHaveLength(2);
+    expect(result.records[0]).toMatchObject({ resource: "global" });
+    expect(server.requests[0].path).toBe("/events/bulk");
+    expect(server.events).toEqual([evt(1), evt(2)]);
+  });
+
+  it("rejects missing or unknown publishable keys", async () => {
+    const response = await server.fetch(
+      "https://events.meshes.io/api/v1/events",
+      { method: "POST", body: JSON.stringify(evt(1)) }
+    );
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ message: "Unauthorized" });
+
+    const strict = new MeshesFakeServer({ publishableKey: "mesh_pub_other" });
+    const restoreStrict = strict.install();
+    const client = new MeshesEventsClient(VALID_KEY);
+    await expect(client.emit(evt(1))).rejects.toBeInstanceOf(MeshesAuthError);
+    restoreStrict();
+    expect(strict.events).toEqual([]);
+  });
+
+  it("responds to unknown routes and methods", async () => {
+    const headers = { "X-Meshes-Publishable-Key": VALID_KEY };
+    const notFound = await server.fetch("http://fake/api/v1/other", {
+      method: "POST",
+      headers,
+    });
+    expect(notFound.status).toBe(404);
+    const notAllowed = await server.fetch("http://fake/api/v1/events", {
+      headers,
+    });
+    expect(notAllowed.status).toBe(405);
+  });
+
+  it("fails scripted requests with an error status", async () => {
+    server.fail({ type: "http", status: 503 }, 2);
+    const client = new MeshesEventsClient(VALID_KEY, {
+      retry: { maxAttempts: 3, baseDelay: 1, jitter: false },
+    });
+
+    await expect(client.emit(evt(1))).resolves.toMatchObject({
+      event: { event: "x" },
+    });
+    expect(server.requests).toHaveLength(3);
+    expect(server.events).toHaveLength(1);
+
+    server.fail({ type: "http", status: 500, body: { message: "Boom" } });
+    await expect(
+      new MeshesEventsClient(VALID_KEY).emit(evt(2))
+    ).rejects.toThrow(MeshesHttpError);
+  });
+
+  it("fails scripted requests with a rate limit", async () => {
+    server.fail({ type: "rate_limit", retryAfter: 3 });
+    const client = new MeshesEventsClient(VALID_KEY);
+
+    await expect(client.emit(evt(1))).rejects.toMatchObject({
+      retryAfterMs: 3000,
+    });
+    server.fail({ type: "rate_limit" });
+    await expect(client.emit(evt(1))).rejects.toBeInstanceOf(
+      MeshesRateLimitError
+    );
+  });
+
+  it("fails scripted requests with a network error", async () => {
+    server.fail({ type: "network" });
+    const client = new MeshesEventsClient(VALID_KEY);
+
+    await expect(client.emit(evt(1))).rejects.toBeInstanceOf(
+      MeshesNetworkError
+    );
+    expect(server.events).toEqual([]);
+  });
+
+  it("hangs scripted requests until they time out", async () => {
+    vi.useFakeTimers();
+    server.fail({ type: "timeout" });
+    const client = new MeshesEventsClient(VALID_KEY, { timeout: 1000 });
+
+    const p = client.emit(evt(1));
+    const assertion = expect(p).rejects.toBeInstanceOf(MeshesTimeoutError);
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+  });
+
+  it("rejects scripted events of a bulk request", async () => {
+    server.fail({ type: "partial", indexes: [1], message: "Rejected" });
+    const client = new MeshesEventsClient(VALID_KEY);
+
+    const result = await client.emitBatch([evt(1), evt(2), evt(3)]);
+    expect(result.count).toBe(2);
+    expect(result.error_count).toBe(1);
+    expect(result.records[1]).toEqual({ message: "Rejected" });
+    expect(server.events).toEqual([evt(1), evt(3)]);
+
+    server.fail({ type: "partial", indexes: [0] });
+    await expect(
+      client.emitBatch([evt(4)], { failOnPartialError: true })
+    ).rejects.toBeInstanceOf(MeshesPartialFailureError);
+  });
+
+  it("rejects invalid bulk events individually", async () => {
+    const response = await server.fetch("http://fake/api/v1/events/bulk", {
+      method: "POST",
+      headers: { "X-Meshes-Publishable-Key": VALID_KEY },
+      body: JSON.stringify([evt(1), { event: "x" }]),
+    });
+    expect(await response.json()).toMatchObject({
+      count: 1,
+      error_count: 1,
+      records: [{ event: "x" }, { message: "Missing payload" }],
+    });
+  });
+
+  it("does not create events again for a replayed idempotency key", async () => {
+    const client = new MeshesEventsClient(VALID_KEY);
+
+    const first = await client.emit(evt(1), { idempotencyKey: "key-1" });
+    const second = await client.emit(evt(1), { idempotencyKey: "key-1" });
+    expect(second.event.id).toBe(first.event.id);
+    expect(server.requests).toHaveLength(2);
+    expect(server.events).toHaveLength(1);
+  });
+
+  it("resets recorded state", async () => {
+    await new MeshesEventsClient(VALID_KEY).emit(evt(1));
+    server.fail({ type: "network" });
+    server.reset();
+
+    expect(server.events).toEqual([]);
+    expect(server.requests).toEqual([]);
+    await expect(
+      new MeshesEventsClient(VALID_KEY).emit(evt(2))
+    ).resolves.toBeDefined();
+  });
+
+  it("restores the global fetch", () => {
+    expect(globalThis.fetch).toBe(server.fetch);
+    restore();
+    expect(globalThis.fetch).not.toBe(server.fetch);
+  });
+
+  it("serves requests on a local port", async () => {
+    restore();
+    server.fail({ type: "http", status: 502 });
+    const apiBaseUrl = await server.listen();
+    expect(apiBaseUrl).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/api\/v1$/);
+    const client = new MeshesEventsClient(VALID_KEY, {
+      apiBaseUrl,
+      retry: { maxAttempts: 2, baseDelay: 1, jitter: false },
+    });
+
+    await expect(client.emitBatch([evt(1), evt(2)])).resolves.toMatchObject({
+      count: 2,
+    });
+    expect(server.requests).toHaveLength(2);
+    expect(server.requests[1]).toMatchObject({
+      method: "POST",
+      path: "/events/bulk",
+      body: [evt(1), evt(2)],
+    });
+    await expect(server.listen()).rejects.toThrow(
+      "Fake server is already listening"
+    );
+  });
+
+  it("fails the connection for network failures on a local port", async () => {
+    restore();
+    server.fail({ type: "network" });
+    const apiBaseUrl = await server.listen();
+    const client = new MeshesEventsClient(VALID_KEY, { apiBaseUrl });
+
+    await expect(client.emit(evt(1))).rejects.toBeInstanceOf(
+      MeshesNetworkError
+    );
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Shared test fixtures
+ */
+
+export const VALID_KEY = "mesh_pub_abc.def_ghi-jkl_suffix123";
+
+/**
+ * A numbered event
+ */
+export const evt = (n: number, event = "x") => ({ event, payload: { n } });
+
+export type MockFetchResponse = {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: Headers;
+  text: () => Promise<string>;
+};
+
+/**
+ * A `fetch` response for mocked `globalThis.fetch` calls
+ */
+export function mockResponse(opts: {
+  ok: boolean;
+  status?: number;
+  statusText?: string;
+  bodyText?: string;
+  headers?: Record<string, string>;
+}): MockFetchResponse {
+  return {
+    ok: opts.ok,
+    status: opts.status ?? (opts.ok ? 200 : 400),
+    statusText: opts.statusText ?? (opts.ok ? "OK" : "Bad Request"),
+    headers: new Headers(opts.headers),
+    text: async () => opts.bodyText ?? "",
+  };
+}
@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  createRequestEmitter,
+  fetchRequestContext,
+  meshesExpress,
+  meshesFastify,
+  nodeRequestContext,
+  resolveIntegrationOptions,
+  withMeshes,
+} from "../src/integrations";
+import { MeshesConfigurationError } from "../src/lib/errors";
+import { MeshesFakeServer } from "../src/testing";
+import MeshesEventsClient from "../src/client";
+import { VALID_KEY, evt } from "./helpers";
+
+const defaults = resolveIntegrationOptions({ emit: () => undefined }, {});
+
+const nodeRequest = (headers: Record<string, string> = {}) => ({
+  headers: { "user-agent": "test-agent", ...headers },
+  ip: "203.0.113.7",
+  socket: { remoteAddress: "10.0.0.1" },
+});
+
+describe("resolveIntegrationOptions", () => {
+  it("resolves the options", () => {
+    expect(defaults).toEqual({
+      requestIdHeader: "x-request-id",
+      flushBeforeResponse: true,
+    });
+    expect(
+      resolveIntegrationOptions(
+        { emit: () => undefined },
+        { requestIdHeader: "X-Correlation-Id", flushBeforeResponse: false }
+      )
+    ).toEqual({
+      requestIdHeader: "x-correlation-id",
+      flushBeforeResponse: false,
+    });
+  });
+
+  it("validates the client and options", () => {
+    expect(() => resolveIntegrationOptions(undefined, {})).toThrow(
+      MeshesConfigurationError
+    );
+    expect(() =>
+      resolveIntegrationOptions({ emit: () => undefined }, "x-request-id")
+    ).toThrow("Invalid integration options: string");
+    expect(() =>
+      resolveIntegrationOptions(
+        { emit: () => undefined },
+        { requestIdHeader: " " }
+      )
+    ).toThrow(MeshesConfigurationError);
+    expect(() =>
+      resolveIntegrationOptions(
+        { emit: () => undefined },
+        { flushBeforeResponse: "yes" }
+      )
+    ).toThrow("Invalid flushBeforeResponse option: string");
+  });
+});
+
+describe("request context", () => {
+  it("reads Node.js requests", () => {
+    expect(
+      nodeRequestContext(nodeRequest({ "x-request-id": "req_1" }), defaults)
+    ).toEqual({
+      requestId: "req_1",
+      ipAddress: "203.0.113.7",
+      userAgent: "test-agent",
+    });
+  });
+
+  it("falls back to the request id, socket address and a generated id", () => {
+    const context = nodeRequestContext(
+      { headers: {}, socket: { remoteAddress: "10.0.0.1" } },
+      defaults
+    );
+    expect(context.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(context.ipAddress).toBe("10.0.0.1");
+    expect(context.userAgent).toBeUndefined();
+    expect(nodeRequestContext({ headers: {}, id: "req-7" }, defaults)).toEqual(
+      expect.objectContaining({ requestId: "req-7" })
+    );
+  });
+
+  it("reads fetch API requests", () => {
+    const request = new Request("https://example.com/api", {
+      headers: {
+        "x-request-id": "req_2",
+        "x-forwarded-for": "198.51.100.1, 10.0.0.1",
+        "user-agent": "test-agent",
+      },
+    });
+    expect(fetchRequestContext(request, defaults)).toEqual({
+      requestId: "req_2",
+      ipAddress: "198.51.100.1",
+      userAgent: "test-agent",
+    });
+  });
+});
+
+describe("createRequestEmitter", () => {
+  let server: MeshesFakeServer;
+  let transport: ReturnType<typeof vi.fn>;
+  let client: MeshesEventsClient;
+
+  beforeEach(() => {
+    server = new MeshesFakeServer();
+    transport = vi.fn(server.fetch);
+    client = new MeshesEventsClient(VALID_KEY, { transport });
+  });
+
+  it("adds the request context to payloads and headers", async () => {
+    const meshes = createRequestEmitter(client, {
+      requestId: "req_1",
+      ipAddress: "203.0.113.7",
+      userAgent: "test-agent",
+    });
+
+    await meshes.emit(evt(1));
+    await meshes.emitBatch([evt(2)]);
+    expect(server.events).toEqual([
+      {
+        event: "x",
+        payload: { n: 1, ip_address: "203.0.113.7", user_agent: "test-agent" },
+      },
+      {
+        event: "x",
+        payload: { n: 2, ip_address: "203.0.113.7", user_agent: "test-agent" },
+      },
+    ]);
+    for (const [, init] of transport.mock.calls) {
+      expect(init.headers["X-Request-Id"]).toBe("req_1");
+    }
+  });
+
+  it("keeps payload values and request headers", async () => {
+    const meshes = createRequestEmitter(client, {
+      requestId: "req_1",
+      ipAddress: "203.0.113.7",
+    });
+
+    await meshes.emit(
+      { event: "x", payload: { ip_address: "192.0.2.1" } },
+      { headers: { "x-request-id": "req_override" } }
+    );
+    expect(server.events[0].payload).toEqual({ ip_address: "192.0.2.1" });
+    expect(transport.mock.calls[0][1].headers).toMatchObject({
+      "x-request-id": "req_override",
+    });
+    expect(transport.mock.calls[0][1].headers["X-Request-Id"]).toBeUndefined();
+  });
+
+  it("waits for pending sends, including failed ones", async () => {
+    server.fail({ type: "http", status: 400 });
+    const meshes = createRequestEmitter(client, {});
+    const failed = meshes.emit(evt(1)).catch((err) => err);
+    meshes.emit(evt(2));
+
+    await meshes.flush();
+    expect(server.events).toEqual([evt(2)]);
+    await expect(failed).resolves.toBeInstanceOf(Error);
+  });
+});
+
+describe("meshesExpress", () => {
+  it("attaches req.meshes and flushes before the response ends", async () => {
+    const server = new MeshesFakeServer();
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport: async (url, init) => {
+        await released;
+        return server.fetch(url, init);
+      },
+    });
+    const middleware = meshesExpress(client);
+    const req: any = nodeRequest({ "x-request-id": "req_1" });
+    const end = vi.fn();
+    const res: any = { end };
+    const next = vi.fn();
+
+    middleware(req, res, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(req.meshes.context.requestId).toBe("req_1");
+
+    req.meshes.emit(evt(1));
+    expect(res.end("done")).toBe(res);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(end).not.toHaveBeenCalled();
+
+    release();
+    await vi.waitFor(() => expect(end).toHaveBeenCalledWith("done"));
+    expect(server.events).toHaveLength(1);
+    expect(res.end).toBe(end);
+  });
+
+  it("doesn't wrap the response when flushing is disabled", () => {
+    const client = new MeshesEventsClient(VALID_KEY);
+    const end = vi.fn();
+    const res = { end };
+    const req: any = nodeRequest();
+
+    meshesExpress(client, { flushBeforeResponse: false })(req, res, vi.fn());
+    expect(res.end).toBe(end);
+    expect(req.meshes).toBeDefined();
+  });
+});
+
+describe("meshesFastify", () => {
+  const fakeFastify = () => {
+    const hooks: Record<string, Function> = {};
+    return {
+      hooks,
+      decorateRequest: vi.fn(),
+      addHook: vi.fn((name: string, hook: Function) => {
+        hooks[name] = hook;
+      }),
+    };
+  };
+
+  it("skips plugin encapsulation", () => {
+    expect((meshesFastify as any)[Symbol.for("skip-override")]).toBe(true);
+  });
+
+  it("validates the plugin options", () => {
+    expect(() =>
+      meshesFastify(fakeFastify(), {} as any, () => undefined)
+    ).toThrow(MeshesConfigurationError);
+  });
+
+  it("decorates requests and flushes before sending", async () => {
+    const server = new MeshesFakeServer();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport: server.fetch,
+    });
+    const fastify = fakeFastify();
+    const done = vi.fn();
+
+    meshesFastify(fastify, { client }, done);
+    expect(done).toHaveBeenCalledTimes(1);
+    expect(fastify.decorateRequest).toHaveBeenCalledWith("meshes", null);
+
+    const request: any = { ...nodeRequest(), id: "req-1" };
+    fastify.hooks.onRequest(request, {}, () => undefined);
+    expect(request.meshes.context).toEqual({
+      requestId: "req-1",
+      ipAddress: "203.0.113.7",
+      userAgent: "test-agent",
+    });
+
+    request.meshes.emit(evt(1));
+    await expect(fastify.hooks.onSend(request, {}, "body")).resolves.toBe(
+      "body"
+    );
+    expect(server.events).toHaveLength(1);
+  });
+});
+
+describe("withMeshes", () => {
+  it("validates the route handler", () => {
+    const client = new MeshesEventsClient(VALID_KEY);
+    expect(() => withMeshes(client, undefined as any)).toThrow(
+      "Invalid route handler: undefined"
+    );
+  });
+
+  it("attaches request.meshes and flushes before returning", async () => {
+    const server = new MeshesFakeServer();
+    const transport = vi.fn(server.fetch);
+    const client = new MeshesEventsClient(VALID_KEY, { transport });
+    const POST = withMeshes(client, async (request, context: any) => {
+      request.meshes.emit(evt(context.params.n));
+      return Response.json({ ok: true });
+    });
+
+    const response = await POST(
+      new Request("https://example.com/api", {
+        method: "POST",
+        headers: { "x-real-ip": "198.51.100.2", "x-request-id": "req_3" },
+      }),
+      { params: { n: 1 } }
+    );
+    expect(response.status).toBe(200);
+    expect(server.events).toEqual([
+      { event: "x", payload: { n: 1, ip_address: "198.51.100.2" } },
+    ]);
+    expect(transport.mock.calls[0][1].headers["X-Request-Id"]).toBe("req_3");
+  });
+
+  it("flushes when the handler throws", async () => {
+    const server = new MeshesFakeServer();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport: server.fetch,
+    });
+    const GET = withMeshes(client, (request) => {
+      request.meshes.emit(evt(1));
+      throw new Error("Route failed");
+    });
+
+    await expect(GET(new Request("https://example.com/api"))).rejects.toThrow(
+      "Route failed"
+    );
+    expect(server.events).toHaveLength(1);
+  });
+});
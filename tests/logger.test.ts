@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from "vitest";
+import { MeshesApiError } from "../src/lib/errors";
+import { createLogWriter, redact } from "../src/lib/logger.js";
+
+const makeLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+describe("redact", () => {
+  it("redacts PII keys at any depth", () => {
+    const event = {
+      event: "x",
+      payload: { email: "a@b.com", Phone: "555", tier: "pro" },
+    };
+    expect(redact({ body: [event] })).toEqual({
+      body: [
+        {
+          event: "x",
+          payload: { email: "[REDACTED]", Phone: "[REDACTED]", tier: "pro" },
+        },
+      ],
+    });
+    // the input is not modified
+    expect(event.payload.email).toBe("a@b.com");
+  });
+
+  it("redacts error data but keeps the error name and message", () => {
+    const err = new MeshesApiError("Invalid event", {
+      payload: { email: "a@b.com", first_name: "A" },
+    });
+    expect(redact({ error: err })).toEqual({
+      error: {
+        name: "MeshesApiError",
+        message: "Invalid event",
+        data: { payload: { email: "[REDACTED]", first_name: "[REDACTED]" } },
+      },
+    });
+  });
+
+  it("handles circular and repeated references", () => {
+    const shared = { email: "a@b.com" };
+    const value: any = { a: shared, b: shared };
+    value.self = value;
+    expect(redact(value, ["email"])).toEqual({
+      a: { email: "[REDACTED]" },
+      b: { email: "[REDACTED]" },
+      self: "[Circular]",
+    });
+  });
+});
+
+describe("createLogWriter", () => {
+  it("is silent by default", () => {
+    const debug = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const write = createLogWriter({});
+    write("debug", "message");
+    write("error", "message");
+    expect(debug).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+
+  it("writes structured entries at or above the log level", () => {
+    const logger = makeLogger();
+    const write = createLogWriter({ logger, logLevel: "warn" });
+
+    write("info", "skipped", { a: 1 });
+    write("warn", "Retrying Request", { attempt: 1 });
+    write("error", "Request Failure", { payload: { email: "a@b.com" } });
+
+    expect(logger.info).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith(
+      { attempt: 1 },
+      "Retrying Request"
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      { payload: { email: "[REDACTED]" } },
+      "Request Failure"
+    );
+  });
+
+  it("defaults to the info level with a logger and debug with debug mode", () => {
+    const logger = makeLogger();
+    createLogWriter({ logger })("debug", "skipped");
+    createLogWriter({ logger })("info", "logged");
+    createLogWriter({ logger, debug: true })("debug", "logged");
+    expect(logger.debug).toHaveBeenCalledTimes(1);
+    expect(logger.info).toHaveBeenCalledTimes(1);
+  });
+
+  it("supports custom redact keys and disabling redaction", () => {
+    const logger = makeLogger();
+    const fields = { email: "a@b.com", account_id: "acc_1" };
+
+    createLogWriter({ logger, redact: ["account_id"] })("info", "m", fields);
+    createLogWriter({ logger, redact: false })("info", "m", fields);
+
+    expect(logger.info.mock.calls[0][0]).toEqual({
+      email: "a@b.com",
+      account_id: "[REDACTED]",
+    });
+    expect(logger.info.mock.calls[1][0]).toBe(fields);
+  });
+
+  it("validates options", () => {
+    expect(() => createLogWriter({ logger: "nope" as any })).toThrow(
+      MeshesApiError
+    );
+    expect(() =>
+      createLogWriter({ logger: { debug: () => {} } as any })
+    ).toThrow(MeshesApiError);
+    expect(() => createLogWriter({ logLevel: "trace" as any })).toThrow(
+      MeshesApiError
+    );
+    expect(() => createLogWriter({ redact: "email" as any })).toThrow(
+      MeshesApiError
+    );
+  });
+});
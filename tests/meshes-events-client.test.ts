@@ -1,29 +1,19 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { MeshesApiError } from "../src/lib/errors";
+import {
+  MeshesApiError,
+  MeshesAuthError,
+  MeshesCancelledError,
+  MeshesConfigurationError,
+  MeshesHttpError,
+  MeshesNetworkError,
+  MeshesParseError,
+  MeshesPartialFailureError,
+  MeshesTimeoutError,
+  MeshesValidationError,
+} from "../src/lib/errors";
 import MeshesEventsClient from "../src/client";
-
-const VALID_KEY = "mesh_pub_abc.def_ghi-jkl_suffix123";
-
-type MockFetchResponse = {
-  ok: boolean;
-  status: number;
-  statusText: string;
-  text: () => Promise<string>;
-};
-
-function mockResponse(opts: {
-  ok: boolean;
-  status?: number;
-  statusText?: string;
-  bodyText?: string;
-}): MockFetchResponse {
-  return {
-    ok: opts.ok,
-    status: opts.status ?? (opts.ok ? 200 : 400),
-    statusText: opts.statusText ?? (opts.ok ? "OK" : "Bad Request"),
-    text: async () => opts.bodyText ?? "",
-  };
-}
+import { MeshesFakeServer } from "../src/testing";
+import { VALID_KEY, mockResponse } from "./helpers";
 
 describe("MeshesEventsClient", () => {
   const originalFetch = globalThis.fetch;
@@ -152,7 +142,10 @@ describe("MeshesEventsClient", () => {
     const client = new MeshesEventsClient(VALID_KEY);
     await expect(
       client.emit({ event: "x", payload: { email: "a@b.com" } })
-    ).resolves.toEqual({ id: "evt_1" });
+    ).resolves.toEqual({
+      id: "evt_1",
+      idempotencyKey: expect.any(String),
+    });
   });
 
   it("returns parsed JSON for success responses: payload value", async () => {
@@ -163,7 +156,10 @@ describe("MeshesEventsClient", () => {
     const client = new MeshesEventsClient(VALID_KEY);
     await expect(
       client.emit({ event: "x", payload: { test: "value 123" } })
-    ).resolves.toEqual({ id: "evt_2" });
+    ).resolves.toEqual({
+      id: "evt_2",
+      idempotencyKey: expect.any(String),
+    });
   });
 
   it("returns parsed JSON for success responses: payload array", async () => {
@@ -174,7 +170,10 @@ describe("MeshesEventsClient", () => {
     const client = new MeshesEventsClient(VALID_KEY);
     await expect(
       client.emit({ event: "x", payload: { test_arr: ["value 123"] } })
-    ).resolves.toEqual({ id: "evt_3" });
+    ).resolves.toEqual({
+      id: "evt_3",
+      idempotencyKey: expect.any(String),
+    });
   });
 
   it("returns parsed JSON for success responses: payload object", async () => {
@@ -185,7 +184,10 @@ describe("MeshesEventsClient", () => {
     const client = new MeshesEventsClient(VALID_KEY);
     await expect(
       client.emit({ event: "x", payload: { test_obj: { inner: "value" } } })
-    ).resolves.toEqual({ id: "evt_4" });
+    ).resolves.toEqual({
+      id: "evt_4",
+      idempotencyKey: expect.any(String),
+    });
   });
 
   it("returns text for success non-JSON responses", async () => {
@@ -248,7 +250,10 @@ describe("MeshesEventsClient", () => {
           try {
             expect(ret).toBeUndefined();
             expect(err).toBeNull();
-            expect(data).toEqual({ ok: true });
+            expect(data).toEqual({
+              ok: true,
+              idempotencyKey: expect.any(String),
+            });
             resolve();
           } catch (e) {
             reject(e);
@@ -726,4 +731,1331 @@ describe("MeshesEventsClient", () => {
     expect(init.headers["X-Meshes-Publishable-Key"]).toBe(VALID_KEY);
     expect(init.headers["Accept"]).toBe("application/json");
   });
+
+  it("does not retry by default", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: false, status: 503, statusText: "Unavailable" })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY);
+
+    await expect(
+      client.emit({ event: "x", payload: { email: "a@b.com" } })
+    ).rejects.toMatchObject({ data: { status: 503, attempts: 1 } });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries retryable statuses with backoff when retry is enabled", async () => {
+    (globalThis.fetch as any)
+      .mockResolvedValueOnce(mockResponse({ ok: false, status: 503 }))
+      .mockResolvedValueOnce(mockResponse({ ok: false, status: 429 }))
+      .mockResolvedValueOnce(mockResponse({ ok: true, bodyText: '{"ok":1}' }));
+
+    const client = new MeshesEventsClient(VALID_KEY, {
+      retry: { maxAttempts: 3, baseDelay: 100, jitter: false },
+    });
+
+    const p = client.emit({ event: "x", payload: { email: "a@b.com" } });
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+
+    await expect(p).resolves.toMatchObject({ ok: 1 });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("reports the attempt count when retries are exhausted", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: false, status: 500, statusText: "Server Error" })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY, {
+      retry: { maxAttempts: 2, baseDelay: 10, jitter: false },
+    });
+
+    const p = client.emit({ event: "x", payload: { email: "a@b.com" } });
+    const assertion = expect(p).rejects.toMatchObject({
+      message: "Meshes API request failed",
+      data: { status: 500, attempts: 2 },
+    });
+
+    await vi.advanceTimersByTimeAsync(10);
+    await assertion;
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry non-retryable statuses", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: false, status: 400 })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY, { retry: true });
+
+    await expect(
+      client.emit({ event: "x", payload: { email: "a@b.com" } })
+    ).rejects.toMatchObject({ data: { status: 400, attempts: 1 } });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries network errors and timeouts", async () => {
+    (globalThis.fetch as any)
+      .mockRejectedValueOnce(new Error("NetworkDown"))
+      .mockImplementationOnce((_url: any, init: any) => {
+        return new Promise((_resolve, reject) => {
+          init.signal.addEventListener("abort", () =>
+            reject(new Error("AbortError"))
+          );
+        });
+      })
+      .mockResolvedValueOnce(mockResponse({ ok: true, bodyText: '{"ok":1}' }));
+
+    const client = new MeshesEventsClient(VALID_KEY, {
+      timeout: 1000,
+      retry: { baseDelay: 50, jitter: false },
+    });
+
+    const p = client.emit({ event: "x", payload: { email: "a@b.com" } });
+    await vi.advanceTimersByTimeAsync(50 + 1000 + 100);
+
+    await expect(p).resolves.toMatchObject({ ok: 1 });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("honors the configured retryable error kinds", async () => {
+    (globalThis.fetch as any).mockRejectedValue(new Error("NetworkDown"));
+
+    const client = new MeshesEventsClient(VALID_KEY, {
+      retry: { errors: ["timeout"] },
+    });
+
+    await expect(
+      client.emit({ event: "x", payload: { email: "a@b.com" } })
+    ).rejects.toMatchObject({
+      message: "Request Failure",
+      data: { attempts: 1 },
+    });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("respects Retry-After on retryable responses", async () => {
+    (globalThis.fetch as any)
+      .mockResolvedValueOnce(
+        mockResponse({
+          ok: false,
+          status: 429,
+          headers: { "Retry-After": "2" },
+        })
+      )
+      .mockResolvedValueOnce(mockResponse({ ok: true, bodyText: '{"ok":1}' }));
+
+    const client = new MeshesEventsClient(VALID_KEY, {
+      retry: { baseDelay: 10, jitter: false },
+    });
+
+    const p = client.emit({ event: "x", payload: { email: "a@b.com" } });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(p).resolves.toMatchObject({ ok: 1 });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops retrying when Retry-After exceeds maxDelay", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({
+        ok: false,
+        status: 503,
+        headers: { "Retry-After": "60" },
+      })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY, { retry: true });
+
+    await expect(
+      client.emit({ event: "x", payload: { email: "a@b.com" } })
+    ).rejects.toMatchObject({ data: { status: 503, attempts: 1 } });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("per-request retry overrides the client retry policy", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: false, status: 503 })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY, { retry: true });
+
+    await expect(
+      client.emit(
+        { event: "x", payload: { email: "a@b.com" } },
+        { retry: false }
+      )
+    ).rejects.toBeInstanceOf(MeshesApiError);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws on invalid retry options", async () => {
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { retry: "yes" as any })
+    ).toThrow(MeshesApiError);
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { retry: { maxAttempts: 0 } })
+    ).toThrow(MeshesApiError);
+    expect(
+      () =>
+        new MeshesEventsClient(VALID_KEY, {
+          retry: { errors: ["nope" as any] },
+        })
+    ).toThrow(MeshesApiError);
+
+    const client = new MeshesEventsClient(VALID_KEY);
+    await expect(
+      client.emit(
+        { event: "x", payload: { email: "a@b.com" } },
+        {
+          retry: { baseDelay: -1 },
+        }
+      )
+    ).rejects.toBeInstanceOf(MeshesApiError);
+  });
+
+  it("generates an Idempotency-Key and reuses it across retries", async () => {
+    (globalThis.fetch as any)
+      .mockResolvedValueOnce(mockResponse({ ok: false, status: 503 }))
+      .mockResolvedValueOnce(mockResponse({ ok: true, bodyText: '{"ok":1}' }));
+
+    const client = new MeshesEventsClient(VALID_KEY, {
+      retry: { baseDelay: 10, jitter: false },
+    });
+
+    const p = client.emit({ event: "x", payload: { email: "a@b.com" } });
+    await vi.advanceTimersByTimeAsync(10);
+    const result: any = await p;
+
+    const [[, first], [, second]] = (globalThis.fetch as any).mock.calls;
+    expect(first.headers["Idempotency-Key"]).toEqual(expect.any(String));
+    expect(second.headers["Idempotency-Key"]).toBe(
+      first.headers["Idempotency-Key"]
+    );
+    expect(result.idempotencyKey).toBe(first.headers["Idempotency-Key"]);
+  });
+
+  it("generates a new Idempotency-Key per logical call", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"ok":true}' })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY);
+    await client.emit({ event: "x", payload: { email: "a@b.com" } });
+    await client.emitBatch([{ event: "x", payload: { email: "a@b.com" } }]);
+
+    const [[, first], [, second]] = (globalThis.fetch as any).mock.calls;
+    expect(first.headers["Idempotency-Key"]).not.toBe(
+      second.headers["Idempotency-Key"]
+    );
+  });
+
+  it("uses the idempotencyKey request option over headers", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"ok":true}' })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY);
+    const result = await client.emit(
+      { event: "x", payload: { email: "a@b.com" } },
+      { idempotencyKey: "idem_1", headers: { "idempotency-key": "idem_2" } }
+    );
+
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(init.headers["Idempotency-Key"]).toBe("idem_1");
+    expect(init.headers["idempotency-key"]).toBeUndefined();
+    expect(result?.idempotencyKey).toBe("idem_1");
+  });
+
+  it("uses an Idempotency-Key passed through headers", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"ok":true}' })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY);
+    const result = await client.emit(
+      { event: "x", payload: { email: "a@b.com" } },
+      { headers: { "idempotency-key": "idem_2" } }
+    );
+
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(init.headers["idempotency-key"]).toBe("idem_2");
+    expect(init.headers["Idempotency-Key"]).toBeUndefined();
+    expect(result?.idempotencyKey).toBe("idem_2");
+  });
+
+  it("supports a custom idempotency key generator", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"ok":true}' })
+    );
+
+    const generator = vi.fn(() => "custom_key");
+    const client = new MeshesEventsClient(VALID_KEY, {
+      idempotencyKeyGenerator: generator,
+    });
+    await client.emit({ event: "x", payload: { email: "a@b.com" } });
+
+    expect(generator).toHaveBeenCalledWith({
+      path: "/events",
+      body: { event: "x", payload: { email: "a@b.com" } },
+    });
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(init.headers["Idempotency-Key"]).toBe("custom_key");
+  });
+
+  it("can disable idempotency keys", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"ok":true}' })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY, {
+      idempotencyKeyGenerator: false,
+    });
+    await expect(
+      client.emit({ event: "x", payload: { email: "a@b.com" } })
+    ).resolves.toEqual({ ok: true });
+
+    await client.emit(
+      { event: "x", payload: { email: "a@b.com" } },
+      { idempotencyKey: false }
+    );
+
+    for (const [, init] of (globalThis.fetch as any).mock.calls) {
+      expect(init.headers["Idempotency-Key"]).toBeUndefined();
+    }
+  });
+
+  it("includes the idempotency key in error data", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: false, status: 400 })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY);
+    await expect(
+      client.emit(
+        { event: "x", payload: { email: "a@b.com" } },
+        { idempotencyKey: "idem_err" }
+      )
+    ).rejects.toMatchObject({
+      data: { status: 400, attempts: 1, idempotencyKey: "idem_err" },
+    });
+  });
+
+  it("rejects invalid idempotency keys and generators", async () => {
+    expect(
+      () =>
+        new MeshesEventsClient(VALID_KEY, {
+          idempotencyKeyGenerator: "nope" as any,
+        })
+    ).toThrow(MeshesApiError);
+
+    const client = new MeshesEventsClient(VALID_KEY, {
+      idempotencyKeyGenerator: () => "" as any,
+    });
+    await expect(
+      client.emit({ event: "x", payload: { email: "a@b.com" } })
+    ).rejects.toBeInstanceOf(MeshesApiError);
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it("emitMany() validates input", () => {
+    const client = new MeshesEventsClient(VALID_KEY);
+
+    expect(() => client.emitMany("nope" as any)).toThrow(MeshesApiError);
+    expect(() => client.emitMany([])).toThrow(MeshesApiError);
+    expect(() => client.emitMany([{ event: "x", payload: {} }] as any)).toThrow(
+      MeshesApiError
+    );
+    expect(() =>
+      client.emitMany([{ event: "x", payload: { email: "a@b.com" } }], {
+        concurrency: 0,
+      })
+    ).toThrow(MeshesApiError);
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it("emitMany() chunks events and combines results in input order", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    (globalThis.fetch as any).mockImplementation(
+      async (_url: string, init: any) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        inFlight--;
+        const events = JSON.parse(init.body);
+        const records = events.map((e: any) =>
+          e.payload.n % 50 === 0
+            ? { message: "invalid" }
+            : { type: "event", event: e.event, id: `evt_${e.payload.n}` }
+        );
+        return mockResponse({
+          ok: true,
+          bodyText: JSON.stringify({
+            count: records.filter((r: any) => r.type === "event").length,
+            records,
+            error_count: records.filter((r: any) => !r.type).length,
+          }),
+        });
+      }
+    );
+
+    const events = Array.from({ length: 250 }, (_, n) => ({
+      event: "x",
+      payload: { n },
+    }));
+
+    const client = new MeshesEventsClient(VALID_KEY);
+    const p = client.emitMany(events, { concurrency: 2 });
+    await vi.advanceTimersByTimeAsync(30);
+    const result = await p;
+
+    expect(globalThis.fetch).toHaveBeenCalledTimes(3);
+    expect(maxInFlight).toBe(2);
+    const sizes = (globalThis.fetch as any).mock.calls.map(
+      ([url, init]: any) => {
+        expect(url).toBe("https://events.meshes.io/api/v1/events/bulk");
+        return JSON.parse(init.body).length;
+      }
+    );
+    expect(sizes).toEqual([100, 100, 50]);
+
+    expect(result?.count).toBe(245);
+    expect(result?.error_count).toBe(5);
+    expect(result?.records).toHaveLength(250);
+    expect(result?.records[149]).toMatchObject({ id: "evt_149" });
+    expect(result?.records[150]).toEqual({ message: "invalid" });
+  });
+
+  it("emitMany() records failed chunks without rejecting", async () => {
+    (globalThis.fetch as any)
+      .mockResolvedValueOnce(
+        mockResponse({
+          ok: true,
+          bodyText: JSON.stringify({
+            count: 100,
+            records: Array.from({ length: 100 }, () => ({ type: "event" })),
+          }),
+        })
+      )
+      .mockResolvedValueOnce(mockResponse({ ok: false, status: 500 }));
+
+    const events = Array.from({ length: 101 }, () => ({
+      event: "x",
+      payload: { email: "a@b.com" },
+    }));
+
+    const client = new MeshesEventsClient(VALID_KEY);
+    const result = await client.emitMany(events, {
+      concurrency: 1,
+      idempotencyKey: "import_1",
+    });
+
+    const keys = (globalThis.fetch as any).mock.calls.map(
+      ([, init]: any) => init.headers["Idempotency-Key"]
+    );
+    expect(keys).toEqual(["import_1-0", "import_1-1"]);
+
+    expect(result?.count).toBe(100);
+    expect(result?.error_count).toBe(1);
+    expect(result?.records[100]).toEqual({
+      message: "Meshes API request failed",
+      code: "http",
+      retryable: true,
+      status: 500,
+    });
+    expect(result?.failures).toEqual([
+      { chunk: 1, indexes: [100], error: expect.any(MeshesApiError) },
+    ]);
+    expect(JSON.parse(JSON.stringify(result?.records[100]))).toEqual(
+      result?.records[100]
+    );
+  });
+
+  it("emitMany() derives chunk keys from an Idempotency-Key header", async () => {
+    const server = new MeshesFakeServer();
+    const transport = vi.fn(server.fetch);
+    const client = new MeshesEventsClient(VALID_KEY, { transport });
+    const events = Array.from({ length: 250 }, (_, n) => ({
+      event: "x",
+      payload: { n },
+    }));
+
+    const result = await client.emitMany(events, {
+      concurrency: 1,
+      headers: { "Idempotency-Key": "import-1" },
+    });
+
+    const keys = transport.mock.calls.map(
+      ([, init]: any) => init.headers["Idempotency-Key"]
+    );
+    expect(keys).toEqual(["import-1-0", "import-1-1", "import-1-2"]);
+    expect(server.events).toHaveLength(250);
+    expect(result?.count).toBe(250);
+    expect(result?.error_count).toBe(0);
+  });
+
+  it("emitMany() counts the records of each chunk", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({
+        ok: true,
+        bodyText: JSON.stringify({
+          count: 100,
+          records: Array.from({ length: 100 }, () => ({ type: "event" })),
+          error_count: 0,
+        }),
+      })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY);
+    const result = await client.emitMany([
+      { event: "x", payload: { email: "a@b.com" } },
+    ]);
+
+    expect(result?.count).toBe(1);
+    expect(result?.records).toHaveLength(1);
+  });
+
+  it("emitMany() supports callback style", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({
+        ok: true,
+        bodyText: '{"count":1,"records":[{"type":"event"}]}',
+      })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY);
+
+    await new Promise<void>((resolve, reject) => {
+      const ret = client.emitMany(
+        [{ event: "x", payload: { email: "a@b.com" } }],
+        {},
+        (err, data) => {
+          try {
+            expect(ret).toBeUndefined();
+            expect(err).toBeNull();
+            expect(data).toEqual({
+              count: 1,
+              records: [{ type: "event" }],
+              error_count: 0,
+            });
+            resolve();
+          } catch (e) {
+            reject(e);
+          }
+        }
+      );
+    });
+  });
+
+  it("emitBatch() resolves partial failures by default", async () => {
+    const body = {
+      count: 1,
+      error_count: 1,
+      records: [{ type: "event", id: "evt_1" }, { message: "invalid" }],
+    };
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: JSON.stringify(body) })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY);
+    await expect(
+      client.emitBatch([
+        { event: "x", payload: { email: "a@b.com" } },
+        { event: "y", payload: { email: "c@d.com" } },
+      ])
+    ).resolves.toMatchObject(body);
+  });
+
+  it("emitBatch() rejects partial failures with failOnPartialError", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({
+        ok: true,
+        bodyText: JSON.stringify({
+          count: 1,
+          error_count: 1,
+          records: [{ type: "event", id: "evt_1" }, { message: "invalid" }],
+        }),
+      })
+    );
+
+    const events = [
+      { event: "x", payload: { email: "a@b.com" } },
+      { event: "y", payload: { email: "c@d.com" } },
+    ];
+    const client = new MeshesEventsClient(VALID_KEY);
+
+    const err: any = await client
+      .emitBatch(events, { failOnPartialError: true })
+      ?.catch((e) => e);
+
+    expect(err).toBeInstanceOf(MeshesPartialFailureError);
+    expect(err).toBeInstanceOf(MeshesApiError);
+    expect(err.failedEvents).toEqual([events[1]]);
+    expect(err.data.failed[0]).toMatchObject({
+      index: 1,
+      error: { message: "invalid" },
+    });
+    expect(err.data.result.count).toBe(1);
+
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(JSON.parse(init.body)).toEqual(events);
+  });
+
+  it("emitBatch() resolves with failOnPartialError when all events succeed", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({
+        ok: true,
+        bodyText: '{"count":1,"records":[{"type":"event"}]}',
+      })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY);
+    await expect(
+      client.emitBatch([{ event: "x", payload: { email: "a@b.com" } }], {
+        failOnPartialError: true,
+      })
+    ).resolves.toMatchObject({ count: 1 });
+  });
+
+  it("emitMany() rejects failed chunks with failOnPartialError", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: false, status: 500 })
+    );
+
+    const events = [{ event: "x", payload: { email: "a@b.com" } }];
+    const client = new MeshesEventsClient(VALID_KEY);
+
+    await new Promise<void>((resolve, reject) => {
+      client.emitMany(events, { failOnPartialError: true }, (err: any) => {
+        try {
+          expect(err).toBeInstanceOf(MeshesPartialFailureError);
+          expect(err.failedEvents).toEqual(events);
+          resolve();
+        } catch (e) {
+          reject(e);
+        }
+      });
+    });
+  });
+
+  it("supports a typed event catalog", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"ok":true}' })
+    );
+
+    type Events = {
+      "user.signed_up": { email: string; plan: "free" | "pro" };
+      "order.placed": { email: string; total: number };
+    };
+    const client = new MeshesEventsClient<Events>(VALID_KEY);
+
+    await client.emit({
+      event: "user.signed_up",
+      payload: { email: "a@b.com", plan: "pro" },
+    });
+    await client.emitBatch([
+      { event: "order.placed", payload: { email: "a@b.com", total: 10 } },
+    ]);
+
+    // unknown event names don't type-check (see types.test-d.ts), and are
+    // still validated at runtime
+    expect(() =>
+      client.emit({ event: "user.signedup", payload: {} } as any)
+    ).toThrow(MeshesApiError);
+
+    const [[, single], [, batch]] = (globalThis.fetch as any).mock.calls;
+    expect(JSON.parse(single.body).payload.plan).toBe("pro");
+    expect(JSON.parse(batch.body)[0].payload.total).toBe(10);
+  });
+
+  it("runs validators before sending", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"ok":true}' })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY, {
+      validators: {
+        "user.signed_up": (payload) =>
+          typeof payload.email === "string" && payload.email.includes("@")
+            ? true
+            : [{ path: ["email"], message: "Invalid email" }],
+      },
+    });
+
+    try {
+      client.emit({ event: "user.signed_up", payload: { email: "nope" } });
+      throw new Error("Expected to throw");
+    } catch (err: any) {
+      expect(err).toBeInstanceOf(MeshesValidationError);
+      expect(err).toBeInstanceOf(MeshesApiError);
+      expect(err.issues).toEqual([
+        { path: ["email"], message: "Invalid email" },
+      ]);
+      expect(err.data.index).toBeUndefined();
+    }
+
+    // other events are not validated
+    await client.emit({ event: "other", payload: { email: "nope" } });
+    await client.emit({
+      event: "user.signed_up",
+      payload: { email: "a@b.com" },
+    });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports the failing index for bulk validation", () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      validators: { x: { parse: (v: any) => v, validate: () => false } },
+    });
+
+    try {
+      client.emitBatch([
+        { event: "y", payload: { email: "a@b.com" } },
+        { event: "x", payload: { email: "a@b.com" } },
+      ]);
+      throw new Error("Expected to throw");
+    } catch (err: any) {
+      expect(err).toBeInstanceOf(MeshesValidationError);
+      expect(err.data.index).toBe(1);
+    }
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it("waits for async validators", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"ok":true}' })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY, {
+      validators: {
+        x: {
+          "~standard": {
+            validate: async (value: any) =>
+              value.ok ? { value } : { issues: [{ message: "not ok" }] },
+          },
+        },
+      },
+    });
+
+    await expect(
+      client.emit({ event: "x", payload: { ok: false, email: "a@b.com" } })
+    ).rejects.toBeInstanceOf(MeshesValidationError);
+    await expect(
+      client.emitMany([{ event: "x", payload: { ok: false } }])
+    ).rejects.toBeInstanceOf(MeshesValidationError);
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+
+    await client.emit({ event: "x", payload: { ok: true } });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("validates enqueued events", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      validators: { x: () => false },
+    });
+
+    expect(() => client.enqueue({ event: "x", payload: { a: 1 } })).toThrow(
+      MeshesValidationError
+    );
+    await client.close();
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it("throws on invalid validators", () => {
+    expect(
+      () =>
+        new MeshesEventsClient(VALID_KEY, {
+          validators: { x: "nope" as any },
+        })
+    ).toThrow(MeshesApiError);
+  });
+
+  it("runs middleware around each request", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"id":"evt_1"}' })
+    );
+
+    const calls: string[] = [];
+    const client = new MeshesEventsClient(VALID_KEY)
+      .use(async (request, next) => {
+        calls.push("first");
+        request.headers["X-Trace"] = "abc";
+        const response = await next(request);
+        calls.push("first done");
+        return response;
+      })
+      .use((request, next) => {
+        calls.push("second");
+        // built-in steps run after user middleware
+        expect(request.headers["X-Meshes-Publishable-Key"]).toBeUndefined();
+        expect(request.body).toEqual({
+          event: "x",
+          payload: { email: "a@b.com" },
+        });
+        return next({
+          ...request,
+          body: {
+            ...(request.body as object),
+            payload: { email: "[redacted]" },
+          },
+        }).then((response) => ({
+          ...response,
+          data: { ...(response.data as object), seen: true },
+        }));
+      });
+
+    const result = await client.emit(
+      { event: "x", payload: { email: "a@b.com" } },
+      { idempotencyKey: false }
+    );
+
+    expect(calls).toEqual(["first", "second", "first done"]);
+    expect(result).toEqual({ id: "evt_1", seen: true });
+
+    const [url, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(url).toBe("https://events.meshes.io/api/v1/events");
+    expect(init.headers["X-Trace"]).toBe("abc");
+    expect(init.headers["X-Meshes-Publishable-Key"]).toBe(VALID_KEY);
+    expect(JSON.parse(init.body)).toEqual({
+      event: "x",
+      payload: { email: "[redacted]" },
+    });
+  });
+
+  it("lets middleware short-circuit the request", async () => {
+    const client = new MeshesEventsClient(VALID_KEY).use(() => ({
+      ok: false,
+      status: 503,
+      statusText: "Service Unavailable",
+      data: { message: "offline" },
+    }));
+
+    await expect(
+      client.emit({ event: "x", payload: { email: "a@b.com" } })
+    ).rejects.toMatchObject({
+      message: "Meshes API request failed",
+      data: { status: 503, data: { message: "offline" }, attempts: 1 },
+    });
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it("runs middleware once per attempt", async () => {
+    (globalThis.fetch as any)
+      .mockResolvedValueOnce(mockResponse({ ok: false, status: 503 }))
+      .mockResolvedValueOnce(mockResponse({ ok: true, bodyText: "{}" }));
+
+    const attempts: number[] = [];
+    const client = new MeshesEventsClient(VALID_KEY, {
+      retry: { baseDelay: 10, jitter: false },
+    }).use((request, next) => {
+      attempts.push(request.attempt);
+      expect(request.headers["X-Attempt"]).toBeUndefined();
+      request.headers["X-Attempt"] = String(request.attempt);
+      return next(request);
+    });
+
+    const promise = client.emit({ event: "x", payload: { email: "a@b.com" } });
+    await vi.advanceTimersByTimeAsync(10);
+    await promise;
+
+    expect(attempts).toEqual([1, 2]);
+    expect(
+      (globalThis.fetch as any).mock.calls.map(
+        ([, init]: any) => init.headers["X-Attempt"]
+      )
+    ).toEqual(["1", "2"]);
+  });
+
+  it("does not retry errors thrown by middleware", async () => {
+    const boom = new Error("boom");
+    const middleware = vi.fn(() => {
+      throw boom;
+    });
+    const client = new MeshesEventsClient(VALID_KEY, { retry: true }).use(
+      middleware
+    );
+
+    await expect(
+      client.emit({ event: "x", payload: { email: "a@b.com" } })
+    ).rejects.toMatchObject({
+      message: "Middleware Error",
+      data: { error: boom, attempts: 1 },
+    });
+    expect(middleware).toHaveBeenCalledTimes(1);
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+
+    const custom = new MeshesApiError("Blocked");
+    const blocked = new MeshesEventsClient(VALID_KEY).use(async () => {
+      throw custom;
+    });
+    await expect(
+      blocked.emit({ event: "x", payload: { email: "a@b.com" } })
+    ).rejects.toBe(custom);
+  });
+
+  it("runs transport middleware with the serialized request", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"id":"evt_1"}' })
+    );
+
+    const calls: string[] = [];
+    const client = new MeshesEventsClient(VALID_KEY)
+      .use(
+        (request, next) => {
+          calls.push("transport");
+          expect(request.headers["X-Meshes-Publishable-Key"]).toBe(VALID_KEY);
+          expect(request.body).toBe(
+            JSON.stringify({ event: "x", payload: { email: "[redacted]" } })
+          );
+          request.headers["X-Signature"] = `sig:${request.body}`;
+          return next(request).then((response) => {
+            expect(response.data).toEqual({ id: "evt_1" });
+            return response;
+          });
+        },
+        { stage: "transport" }
+      )
+      .use((request, next) => {
+        calls.push("request");
+        return next({
+          ...request,
+          body: { event: "x", payload: { email: "[redacted]" } },
+        });
+      });
+
+    await client.emit({ event: "x", payload: { email: "a@b.com" } });
+
+    expect(calls).toEqual(["request", "transport"]);
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(init.headers["X-Signature"]).toBe(`sig:${init.body}`);
+  });
+
+  it("throws on invalid middleware", () => {
+    const client = new MeshesEventsClient(VALID_KEY);
+    expect(() => client.use("nope" as any)).toThrow(MeshesApiError);
+    expect(() =>
+      client.use((request, next) => next(request), { stage: "send" as any })
+    ).toThrow("Unsupported middleware stage: send");
+  });
+
+  it("reports requests and responses to lifecycle hooks", async () => {
+    (globalThis.fetch as any).mockImplementation(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 25));
+      return mockResponse({
+        ok: true,
+        bodyText: '{"count":2,"records":[{},{}]}',
+      });
+    });
+
+    const onRequest = vi.fn();
+    const onResponse = vi.fn();
+    const onSuccess = vi.fn();
+    const onError = vi.fn();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      hooks: { onRequest, onResponse, onSuccess, onError },
+    });
+
+    const events = [
+      { event: "x", payload: { email: "a@b.com" } },
+      { event: "y", payload: { email: "é@b.com" } },
+    ];
+    const promise = client.emitBatch(events, { idempotencyKey: "key-1" });
+    await vi.advanceTimersByTimeAsync(25);
+    await promise;
+
+    const info = {
+      method: "POST",
+      path: "/events/bulk",
+      url: "https://events.meshes.io/api/v1/events/bulk",
+      idempotencyKey: "key-1",
+      eventCount: 2,
+      attempt: 1,
+      bytes: new TextEncoder().encode(JSON.stringify(events)).length,
+    };
+    expect(onRequest).toHaveBeenCalledWith(info);
+    expect(onResponse).toHaveBeenCalledWith({
+      ...info,
+      ok: true,
+      status: 200,
+      duration: 25,
+    });
+    expect(onSuccess).toHaveBeenCalledWith({
+      method: "POST",
+      path: "/events/bulk",
+      url: "https://events.meshes.io/api/v1/events/bulk",
+      idempotencyKey: "key-1",
+      eventCount: 2,
+      attempts: 1,
+      duration: 25,
+      status: 200,
+    });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("reports success once, after retries, to onSuccess", async () => {
+    (globalThis.fetch as any)
+      .mockResolvedValueOnce(mockResponse({ ok: false, status: 503 }))
+      .mockResolvedValueOnce(mockResponse({ ok: true, bodyText: "{}" }));
+
+    const onSuccess = vi.fn();
+    const onError = vi.fn();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      retry: { maxAttempts: 2, baseDelay: 100, jitter: false },
+      hooks: { onSuccess, onError },
+    });
+
+    const promise = client.emit(
+      { event: "x", payload: { email: "a@b.com" } },
+      { idempotencyKey: "key-2" }
+    );
+    await vi.advanceTimersByTimeAsync(100);
+    await promise;
+
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+    expect(onSuccess.mock.calls[0][0]).toMatchObject({
+      path: "/events",
+      idempotencyKey: "key-2",
+      attempts: 2,
+      duration: 100,
+      status: 200,
+    });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("reports retries and final errors to lifecycle hooks", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: false, status: 503 })
+    );
+
+    const onResponse = vi.fn();
+    const onRetry = vi.fn();
+    const onError = vi.fn();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      retry: { maxAttempts: 2, baseDelay: 100, jitter: false },
+      hooks: { onResponse, onRetry, onError },
+    });
+
+    const promise = client.emit(
+      { event: "x", payload: { email: "a@b.com" } },
+      { idempotencyKey: false }
+    );
+    const assertion = expect(promise).rejects.toBeInstanceOf(MeshesApiError);
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+
+    expect(onResponse).toHaveBeenCalledTimes(2);
+    expect(onResponse.mock.calls[1][0]).toMatchObject({
+      attempt: 2,
+      ok: false,
+      status: 503,
+    });
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onRetry.mock.calls[0][0]).toMatchObject({
+      path: "/events",
+      eventCount: 1,
+      attempt: 1,
+      delay: 100,
+      error: expect.any(MeshesApiError),
+    });
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toMatchObject({
+      path: "/events",
+      attempts: 2,
+      duration: 100,
+      error: expect.any(MeshesApiError),
+    });
+    expect(onError.mock.calls[0][0].idempotencyKey).toBeUndefined();
+  });
+
+  it("ignores errors thrown by lifecycle hooks", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"ok":true}' })
+    );
+
+    const client = new MeshesEventsClient(VALID_KEY, {
+      hooks: {
+        onRequest: () => {
+          throw new Error("boom");
+        },
+      },
+    });
+
+    await expect(
+      client.emit({ event: "x", payload: { email: "a@b.com" } })
+    ).resolves.toMatchObject({ ok: true });
+  });
+
+  it("throws on invalid hooks", () => {
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { hooks: "nope" as any })
+    ).toThrow(MeshesApiError);
+    expect(
+      () =>
+        new MeshesEventsClient(VALID_KEY, {
+          hooks: { onRequest: "nope" as any },
+        })
+    ).toThrow(MeshesApiError);
+  });
+
+  it("writes structured, redacted logs to the logger", async () => {
+    (globalThis.fetch as any).mockRejectedValue(new Error("NetworkDown"));
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const client = new MeshesEventsClient(VALID_KEY, {
+      logger,
+      logLevel: "debug",
+    });
+
+    await expect(
+      client.emit({
+        event: "x",
+        payload: { email: "a@b.com", phone: "555", tier: "pro" },
+      })
+    ).rejects.toBeInstanceOf(MeshesApiError);
+
+    const [fields] = logger.debug.mock.calls.find(
+      ([, message]) => message === "Request Options"
+    )!;
+    expect(fields.body).toEqual({
+      event: "x",
+      payload: { email: "[REDACTED]", phone: "[REDACTED]", tier: "pro" },
+    });
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 1, error: expect.any(Object) }),
+      "Request Failure"
+    );
+    expect(JSON.stringify(logger.debug.mock.calls)).not.toContain("a@b.com");
+    expect(JSON.stringify(logger.error.mock.calls)).not.toContain("a@b.com");
+  });
+
+  it("throws on an invalid logger", () => {
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { logger: {} as any })
+    ).toThrow(MeshesApiError);
+  });
+
+  it("rejects without sending when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort("shutdown");
+    const client = new MeshesEventsClient(VALID_KEY);
+
+    await expect(
+      client.emit(
+        { event: "x", payload: { email: "a@b.com" } },
+        { signal: controller.signal }
+      )
+    ).rejects.toMatchObject({
+      message: "Request Cancelled",
+      data: { reason: "shutdown", attempts: 0 },
+    });
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it("cancels an in-flight request separately from a timeout", async () => {
+    (globalThis.fetch as any).mockImplementation((_url: any, init: any) => {
+      return new Promise((_resolve, reject) => {
+        init.signal.addEventListener("abort", () =>
+          reject(new Error("AbortError"))
+        );
+      });
+    });
+    const client = new MeshesEventsClient(VALID_KEY, {
+      timeout: 5000,
+      retry: { maxAttempts: 3, baseDelay: 10, jitter: false },
+    });
+
+    const controller = new AbortController();
+    const cancelled = client.emit(
+      { event: "x", payload: { email: "a@b.com" } },
+      { signal: controller.signal }
+    );
+    const cancelledAssertion = expect(cancelled).rejects.toMatchObject({
+      message: "Request Cancelled",
+      data: { attempts: 1 },
+    });
+    controller.abort();
+    await cancelledAssertion;
+    // cancellations are never retried
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+
+    const timedOut = client.emit(
+      { event: "x", payload: { email: "a@b.com" } },
+      { signal: new AbortController().signal, retry: false }
+    );
+    const timedOutAssertion = expect(timedOut).rejects.toMatchObject({
+      message: "Request Failure",
+    });
+    await vi.advanceTimersByTimeAsync(5000);
+    await timedOutAssertion;
+  });
+
+  it("cancels a request waiting to be retried", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: false, status: 503 })
+    );
+    const client = new MeshesEventsClient(VALID_KEY, {
+      retry: { maxAttempts: 3, baseDelay: 10000, jitter: false },
+    });
+
+    const controller = new AbortController();
+    const p = client.emit(
+      { event: "x", payload: { email: "a@b.com" } },
+      { signal: controller.signal }
+    );
+    const assertion = expect(p).rejects.toMatchObject({
+      message: "Request Cancelled",
+      data: { attempts: 1 },
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await assertion;
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels a request waiting for the rate limiter", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"ok":1}' })
+    );
+    const client = new MeshesEventsClient(VALID_KEY, {
+      rateLimit: { requestsPerSecond: 1 },
+    });
+
+    await client.emit({ event: "x", payload: { email: "a@b.com" } });
+    const controller = new AbortController();
+    const p = client.emit(
+      { event: "x", payload: { email: "a@b.com" } },
+      { signal: controller.signal }
+    );
+    const assertion = expect(p).rejects.toMatchObject({
+      message: "Request Cancelled",
+      data: { attempts: 0 },
+    });
+    controller.abort();
+    await assertion;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+
+    // the cancelled request didn't use up the capacity
+    await client.emit({ event: "x", payload: { email: "a@b.com" } });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("emitMany() rejects once cancelled instead of failing each chunk", async () => {
+    const controller = new AbortController();
+    (globalThis.fetch as any).mockImplementation(async () => {
+      controller.abort();
+      return mockResponse({
+        ok: true,
+        bodyText: JSON.stringify({ count: 100, records: [], error_count: 0 }),
+      });
+    });
+    const client = new MeshesEventsClient(VALID_KEY);
+    const events = Array.from({ length: 250 }, (_, n) => ({
+      event: "x",
+      payload: { n },
+    }));
+
+    await expect(
+      client.emitMany(events, { concurrency: 1, signal: controller.signal })
+    ).rejects.toMatchObject({ message: "Request Cancelled" });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws on an invalid signal", async () => {
+    const client = new MeshesEventsClient(VALID_KEY);
+    await expect(
+      client.emit(
+        { event: "x", payload: { email: "a@b.com" } },
+        { signal: {} as any }
+      )
+    ).rejects.toThrow("Invalid request signal");
+  });
+
+  it("throws typed errors for each kind of failure", async () => {
+    expect(() => new MeshesEventsClient(VALID_KEY, { timeout: 1 })).toThrow(
+      MeshesConfigurationError
+    );
+    const client = new MeshesEventsClient(VALID_KEY);
+    expect(() => client.emit({ event: "", payload: { a: 1 } })).toThrow(
+      expect.objectContaining({
+        code: "validation",
+        issues: [{ path: ["event"], message: "missing 'event' string" }],
+      })
+    );
+    expect(() => client.emitBatch([])).toThrow(MeshesValidationError);
+
+    (globalThis.fetch as any)
+      .mockResolvedValueOnce(
+        mockResponse({ ok: false, status: 401, bodyText: '{"message":"no"}' })
+      )
+      .mockResolvedValueOnce(mockResponse({ ok: false, status: 500 }))
+      .mockRejectedValueOnce(new Error("NetworkDown"))
+      .mockResolvedValueOnce({
+        ...mockResponse({ ok: true }),
+        text: async () => {
+          throw new Error("stream error");
+        },
+      });
+    const evt = { event: "x", payload: { email: "a@b.com" } };
+
+    const auth = await client.emit(evt).catch((e) => e);
+    expect(auth).toBeInstanceOf(MeshesAuthError);
+    expect(auth).toMatchObject({
+      code: "auth",
+      retryable: false,
+      status: 401,
+      body: { message: "no" },
+    });
+
+    const http = await client.emit(evt).catch((e) => e);
+    expect(http).toBeInstanceOf(MeshesHttpError);
+    expect(http).toMatchObject({ code: "http", retryable: true, status: 500 });
+
+    const network = await client.emit(evt).catch((e) => e);
+    expect(network).toBeInstanceOf(MeshesNetworkError);
+    expect(network.retryable).toBe(true);
+
+    const parse = await client.emit(evt).catch((e) => e);
+    expect(parse).toBeInstanceOf(MeshesParseError);
+    expect(parse.retryable).toBe(false);
+  });
+
+  it("throws a MeshesTimeoutError on timeout and MeshesCancelledError on cancel", async () => {
+    (globalThis.fetch as any).mockImplementation((_url: any, init: any) => {
+      return new Promise((_resolve, reject) => {
+        init.signal.addEventListener("abort", () =>
+          reject(new Error("AbortError"))
+        );
+      });
+    });
+    const client = new MeshesEventsClient(VALID_KEY, { timeout: 1000 });
+    const evt = { event: "x", payload: { email: "a@b.com" } };
+
+    const timedOut = client.emit(evt).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await timedOut).toBeInstanceOf(MeshesTimeoutError);
+
+    const controller = new AbortController();
+    const cancelled = client
+      .emit(evt, { signal: controller.signal })
+      .catch((e) => e);
+    controller.abort();
+    expect(await cancelled).toMatchObject({
+      code: "cancelled",
+      retryable: false,
+    });
+    expect(await cancelled).toBeInstanceOf(MeshesCancelledError);
+  });
 });
@@ -0,0 +1,284 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHash } from "node:crypto";
+import {
+  hashIdentity,
+  normalizeEmail,
+  normalizeIdentity,
+  normalizeIpAddress,
+  normalizeName,
+  normalizePhone,
+  resolveNormalizeOptions,
+} from "../src/lib/normalize";
+import {
+  MeshesConfigurationError,
+  MeshesValidationError,
+} from "../src/lib/errors";
+import { MeshesFakeServer } from "../src/testing";
+import MeshesEventsClient, { MeshesMemoryOutboxStorage } from "../src/client";
+import { VALID_KEY } from "./helpers";
+
+const sha256 = (value: string) =>
+  createHash("sha256").update(value).digest("hex");
+
+describe("identity normalizers", () => {
+  it("normalizes emails", () => {
+    expect(normalizeEmail(" A@B.com ")).toBe("a@b.com");
+    expect(normalizeEmail("a@b")).toBeUndefined();
+    expect(normalizeEmail(42)).toBeUndefined();
+  });
+
+  it("formats phone numbers as E.164", () => {
+    expect(normalizePhone("+1 (415) 555-0123")).toBe("+14155550123");
+    expect(normalizePhone("0044 20 7946 0958")).toBe("+442079460958");
+    expect(normalizePhone("(415) 555-0123", "US")).toBe("+14155550123");
+    expect(normalizePhone("1-415-555-0123", "us")).toBe("+14155550123");
+    expect(normalizePhone("020 7946 0958", "GB")).toBe("+442079460958");
+    expect(normalizePhone("06 1234 5678", "IT")).toBe("+390612345678");
+  });
+
+  it("rejects phone numbers that can't be formatted", () => {
+    expect(normalizePhone("(415) 555-0123")).toBeUndefined();
+    expect(normalizePhone("call me")).toBeUndefined();
+    expect(normalizePhone("+1 555")).toBeUndefined();
+    expect(normalizePhone("+1234567890123456")).toBeUndefined();
+  });
+
+  it("normalizes names", () => {
+    expect(normalizeName("  Ada   King ")).toBe("Ada King");
+    expect(normalizeName("   ")).toBeUndefined();
+  });
+
+  it("validates IP addresses", () => {
+    expect(normalizeIpAddress(" 203.0.113.7 ")).toBe("203.0.113.7");
+    expect(normalizeIpAddress("2001:DB8::1")).toBe("2001:db8::1");
+    expect(normalizeIpAddress("::ffff:192.0.2.1")).toBe("::ffff:192.0.2.1");
+    expect(normalizeIpAddress("::")).toBe("::");
+    expect(normalizeIpAddress("256.0.0.1")).toBeUndefined();
+    expect(normalizeIpAddress("01.2.3.4")).toBeUndefined();
+    expect(normalizeIpAddress("1:2:3:4:5:6:7")).toBeUndefined();
+    expect(normalizeIpAddress("1::2::3")).toBeUndefined();
+    expect(normalizeIpAddress("localhost")).toBeUndefined();
+  });
+});
+
+describe("hashIdentity", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("hashes with the Web Crypto API", async () => {
+    await expect(hashIdentity("a@b.com")).resolves.toBe(sha256("a@b.com"));
+  });
+
+  it("falls back to node:crypto", async () => {
+    vi.stubGlobal("crypto", undefined);
+    await expect(hashIdentity("a@b.com")).resolves.toBe(sha256("a@b.com"));
+  });
+});
+
+describe("resolveNormalizeOptions", () => {
+  it("resolves the options", () => {
+    expect(resolveNormalizeOptions(undefined)).toBeUndefined();
+    expect(resolveNormalizeOptions(false)).toBeUndefined();
+    expect(resolveNormalizeOptions(true)).toEqual({
+      hash: [],
+      invalid: "keep",
+    });
+  });
+
+  it("validates the options", () => {
+    expect(() => resolveNormalizeOptions("email")).toThrow(
+      MeshesConfigurationError
+    );
+    expect(() => resolveNormalizeOptions({ defaultCountry: "XX" })).toThrow(
+      "Unsupported default country: XX"
+    );
+    expect(() => resolveNormalizeOptions({ hash: ["plan"] })).toThrow(
+      "Invalid hashed fields: plan"
+    );
+    expect(() => resolveNormalizeOptions({ invalid: "drop" })).toThrow(
+      "Unsupported invalid value handling: drop"
+    );
+    expect(() => resolveNormalizeOptions({ onNormalize: 1 })).toThrow(
+      MeshesConfigurationError
+    );
+  });
+});
+
+describe("normalizeIdentity", () => {
+  it("normalizes identity fields and reports each field", async () => {
+    const payload = {
+      email: " A@B.com",
+      phone: "(415) 555-0123",
+      first_name: "Ada",
+      last_name: "",
+      ip_address: "999.1.1.1",
+      plan: " Pro ",
+    };
+
+    await expect(
+      normalizeIdentity(payload, { defaultCountry: "US" })
+    ).resolves.toEqual({
+      payload: { ...payload, email: "a@b.com", phone: "+14155550123" },
+      fields: {
+        email: "normalized",
+        phone: "normalized",
+        first_name: "unchanged",
+        ip_address: "invalid",
+      },
+    });
+    expect(payload.email).toBe(" A@B.com");
+  });
+
+  it("hashes the normalized value of selected fields", async () => {
+    const result = await normalizeIdentity(
+      { email: "A@B.com ", phone: "+14155550123", ip_address: "bad" },
+      { hash: ["email", "phone", "ip_address"] }
+    );
+
+    expect(result.payload).toEqual({
+      email: sha256("a@b.com"),
+      phone: sha256("+14155550123"),
+      ip_address: sha256("bad"),
+    });
+    expect(result.fields).toEqual({
+      email: "hashed",
+      phone: "hashed",
+      ip_address: "invalid",
+    });
+  });
+
+  it("never keeps invalid values of selected fields in cleartext", async () => {
+    const result = await normalizeIdentity(
+      { email: "john@localhost ", phone: 5550123, n: 1 },
+      { hash: ["email", "phone"] }
+    );
+
+    expect(result.payload).toEqual({ email: sha256("john@localhost"), n: 1 });
+    expect(result.fields).toEqual({ email: "invalid", phone: "removed" });
+  });
+
+  it("removes or rejects invalid values", async () => {
+    await expect(
+      normalizeIdentity({ email: "nope", n: 1 }, { invalid: "remove" })
+    ).resolves.toEqual({ payload: { n: 1 }, fields: { email: "removed" } });
+
+    const err = await normalizeIdentity(
+      { email: "nope", phone: "555" },
+      { invalid: "reject" }
+    ).catch((e) => e);
+    expect(err).toBeInstanceOf(MeshesValidationError);
+    expect(err.issues).toEqual([
+      { path: ["email"], message: "Invalid email" },
+      { path: ["phone"], message: "Invalid phone" },
+    ]);
+  });
+});
+
+describe("MeshesEventsClient normalize", () => {
+  let server: MeshesFakeServer;
+
+  beforeEach(() => {
+    server = new MeshesFakeServer();
+  });
+
+  it("validates the option", () => {
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { normalize: "yes" as any })
+    ).toThrow(MeshesConfigurationError);
+  });
+
+  it("doesn't normalize by default", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport: server.fetch,
+    });
+
+    await client.emit({ event: "x", payload: { email: " A@B.com" } });
+    expect(server.events[0].payload).toEqual({ email: " A@B.com" });
+  });
+
+  it("normalizes and hashes events before the beforeSend hook", async () => {
+    const onNormalize = vi.fn();
+    const beforeSend = vi.fn((event: any) => event);
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport: server.fetch,
+      normalize: { defaultCountry: "US", hash: ["email"], onNormalize },
+      beforeSend,
+    });
+    const event = {
+      event: "x",
+      payload: { email: "A@B.com ", phone: "415 555 0123" },
+    };
+
+    await client.emitBatch([event]);
+    const payload = { email: sha256("a@b.com"), phone: "+14155550123" };
+    expect(server.events).toEqual([{ event: "x", payload }]);
+    expect(beforeSend).toHaveBeenCalledWith({ event: "x", payload });
+    expect(onNormalize).toHaveBeenCalledWith(
+      { payload, fields: { email: "hashed", phone: "normalized" } },
+      event
+    );
+  });
+
+  it("rejects events with invalid values", async () => {
+    const transport = vi.fn(server.fetch);
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      normalize: { invalid: "reject" },
+    });
+
+    await expect(
+      client.emit({ event: "x", payload: { email: "nope" } })
+    ).rejects.toBeInstanceOf(MeshesValidationError);
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it("hashes invalid values of selected fields", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport: server.fetch,
+      normalize: { hash: ["email"] },
+    });
+
+    await client.emit({ event: "x", payload: { email: "john@localhost " } });
+    expect(server.events[0].payload).toEqual({
+      email: sha256("john@localhost"),
+    });
+  });
+
+  it("validates events again after removing invalid values", async () => {
+    const transport = vi.fn(server.fetch);
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport,
+      normalize: { invalid: "remove" },
+    });
+
+    await expect(
+      client.emit({ event: "x", payload: { email: "nope" } })
+    ).rejects.toThrow("payload must contain at least one value");
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it("stores the normalized events in the outbox and doesn't hash them again", async () => {
+    server.fail({ type: "http", status: 503 }, 1);
+    const storage = new MeshesMemoryOutboxStorage();
+    const onNormalize = vi.fn();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport: server.fetch,
+      retry: { maxAttempts: 1 },
+      outbox: { storage, drainInterval: 0 },
+      normalize: { hash: ["email"], onNormalize },
+    });
+    const hashed = { event: "x", payload: { email: sha256("a@b.com") } };
+
+    await expect(
+      client.emit({ event: "x", payload: { email: "a@b.com" } })
+    ).rejects.toThrow();
+    const stored = await storage.read();
+    expect(stored.map((e: any) => e.event)).toEqual([hashed]);
+
+    await client.outbox!.drain();
+    expect(server.events).toEqual([hashed]);
+    expect(onNormalize).toHaveBeenCalledTimes(1);
+    await client.close();
+  });
+});
@@ -0,0 +1,316 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MeshesApiError } from "../src/lib/errors";
+import MeshesEventsClient, {
+  MeshesFileOutboxStorage,
+  MeshesMemoryOutboxStorage,
+  MeshesOutbox,
+} from "../src/client";
+import { VALID_KEY, evt, mockResponse } from "./helpers";
+
+const bulkOk = (count: number) =>
+  mockResponse({
+    ok: true,
+    bodyText: JSON.stringify({
+      count,
+      records: Array.from({ length: count }, (_, i) => ({ id: `evt_${i}` })),
+      error_count: 0,
+    }),
+  });
+
+describe("MeshesOutbox", () => {
+  const originalFetch = globalThis.fetch;
+  let storage: MeshesMemoryOutboxStorage;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    globalThis.fetch = vi.fn();
+    storage = new MeshesMemoryOutboxStorage();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it("stores events when sending fails with a retryable error", async () => {
+    (globalThis.fetch as any).mockRejectedValue(new Error("NetworkDown"));
+    const client = new MeshesEventsClient(VALID_KEY, { outbox: { storage } });
+
+    await expect(client.emit(evt(1))).rejects.toMatchObject({
+      message: "Request Failure",
+      data: { outboxed: true },
+    });
+    await expect(client.emitBatch([evt(2), evt(3)])).rejects.toBeInstanceOf(
+      MeshesApiError
+    );
+
+    expect(await client.outbox!.size()).toBe(3);
+    expect((await storage.read()).map((e) => e.event)).toEqual([
+      evt(1),
+      evt(2),
+      evt(3),
+    ]);
+  });
+
+  it("does not store events for other errors or when disabled", async () => {
+    (globalThis.fetch as any)
+      .mockResolvedValueOnce(mockResponse({ ok: false, status: 400 }))
+      .mockRejectedValueOnce(new Error("NetworkDown"));
+    const client = new MeshesEventsClient(VALID_KEY, { outbox: { storage } });
+
+    const rejected = await client.emit(evt(1))!.catch((err) => err);
+    expect(rejected.data.outboxed).toBeUndefined();
+    await expect(client.emit(evt(2), { outbox: false })).rejects.toBeInstanceOf(
+      MeshesApiError
+    );
+
+    expect(await client.outbox!.size()).toBe(0);
+    expect(new MeshesEventsClient(VALID_KEY).outbox).toBeUndefined();
+  });
+
+  it("stores failed emitMany chunks", async () => {
+    (globalThis.fetch as any)
+      .mockResolvedValueOnce(bulkOk(100))
+      .mockResolvedValueOnce(mockResponse({ ok: false, status: 503 }));
+    const client = new MeshesEventsClient(VALID_KEY, { outbox: { storage } });
+
+    const events = Array.from({ length: 150 }, (_, i) => evt(i));
+    const result = await client.emitMany(events, { concurrency: 1 });
+
+    expect(result!.error_count).toBe(50);
+    expect((await storage.read()).map((e) => e.event)).toEqual(
+      events.slice(100)
+    );
+  });
+
+  it("replays stored events in order with emitBatch", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      outbox: { storage, batchSize: 2 },
+    });
+    await client.outbox!.add([evt(1), evt(2), evt(3)]);
+    (globalThis.fetch as any).mockImplementation(async (_: string, init: any) =>
+      bulkOk(JSON.parse(init.body).length)
+    );
+
+    await expect(client.outbox!.drain()).resolves.toBe(3);
+
+    const calls = (globalThis.fetch as any).mock.calls;
+    expect(calls.map(([url]: any) => url)).toEqual([
+      "https://events.meshes.io/api/v1/events/bulk",
+      "https://events.meshes.io/api/v1/events/bulk",
+    ]);
+    expect(calls.map(([, init]: any) => JSON.parse(init.body))).toEqual([
+      [evt(1), evt(2)],
+      [evt(3)],
+    ]);
+    expect(await client.outbox!.size()).toBe(0);
+  });
+
+  it("keeps events and reports the error when replaying fails", async () => {
+    const onError = vi.fn();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      outbox: { storage, onError, drainInterval: 1000 },
+    });
+    await client.outbox!.add([evt(1)]);
+    (globalThis.fetch as any).mockRejectedValue(new Error("NetworkDown"));
+
+    await expect(client.outbox!.drain()).resolves.toBe(0);
+    expect(onError).toHaveBeenCalledWith(expect.any(MeshesApiError), [evt(1)]);
+    // the replayed events are not stored twice
+    expect(await client.outbox!.size()).toBe(1);
+
+    // replayed again automatically, with the same idempotency key
+    (globalThis.fetch as any).mockResolvedValue(bulkOk(1));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await client.outbox!.size()).toBe(0);
+    const [first, second] = (globalThis.fetch as any).mock.calls.map(
+      ([, init]: any) => init.headers["Idempotency-Key"]
+    );
+    expect(second).toBe(first);
+  });
+
+  it("keeps replaying when onError throws", async () => {
+    const onError = vi.fn(() => {
+      throw new Error("Callback failed");
+    });
+    const client = new MeshesEventsClient(VALID_KEY, {
+      outbox: { storage, onError, drainInterval: 1000 },
+    });
+    await client.outbox!.add([evt(1)]);
+    (globalThis.fetch as any).mockRejectedValue(new Error("NetworkDown"));
+
+    await expect(client.outbox!.drain()).resolves.toBe(0);
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    (globalThis.fetch as any).mockResolvedValue(bulkOk(1));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await client.outbox!.size()).toBe(0);
+    await client.close();
+  });
+
+  it("replays failed requests as they were sent, with their idempotency key", async () => {
+    (globalThis.fetch as any).mockRejectedValue(new Error("Timeout"));
+    const client = new MeshesEventsClient(VALID_KEY, {
+      outbox: { storage, batchSize: 1, drainInterval: 0 },
+    });
+    await client.emit(evt(1), { idempotencyKey: "single" })!.catch(() => {});
+    await client
+      .emitBatch([evt(2), evt(3)], { idempotencyKey: "bulk" })!
+      .catch(() => {});
+    expect((await storage.read()).map((e) => e.idempotencyKey)).toEqual([
+      "single",
+      "bulk",
+      "bulk",
+    ]);
+
+    (globalThis.fetch as any).mockReset();
+    (globalThis.fetch as any).mockImplementation(
+      async (url: string, init: any) =>
+        url.endsWith("/bulk")
+          ? bulkOk(JSON.parse(init.body).length)
+          : mockResponse({ ok: true, bodyText: '{"event":{}}' })
+    );
+    await expect(client.outbox!.drain()).resolves.toBe(3);
+
+    const calls = (globalThis.fetch as any).mock.calls;
+    expect(
+      calls.map(([url, init]: any) => [
+        url,
+        init.headers["Idempotency-Key"],
+        JSON.parse(init.body),
+      ])
+    ).toEqual([
+      ["https://events.meshes.io/api/v1/events", "single", evt(1)],
+      ["https://events.meshes.io/api/v1/events/bulk", "bulk", [evt(2), evt(3)]],
+    ]);
+  });
+
+  it("drops events that are rejected when replayed", async () => {
+    const onDrop = vi.fn();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      outbox: { storage, onDrop },
+    });
+    await client.outbox!.add([evt(1)]);
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: false, status: 400 })
+    );
+
+    await expect(client.outbox!.drain()).resolves.toBe(0);
+    expect(onDrop).toHaveBeenCalledWith([evt(1)], "rejected");
+    expect(await client.outbox!.size()).toBe(0);
+  });
+
+  it("evicts the oldest events when full", async () => {
+    const onDrop = vi.fn();
+    const outbox = new MeshesOutbox(new MeshesEventsClient(VALID_KEY), {
+      storage,
+      maxSize: 2,
+      onDrop,
+    });
+    await outbox.add([evt(1), evt(2)]);
+    await outbox.add([evt(3)]);
+
+    expect(onDrop).toHaveBeenCalledWith([evt(1)], "max-size");
+    expect((await storage.read()).map((e) => e.event)).toEqual([
+      evt(2),
+      evt(3),
+    ]);
+  });
+
+  it("evicts events older than the max age", async () => {
+    const onDrop = vi.fn();
+    const outbox = new MeshesOutbox(new MeshesEventsClient(VALID_KEY), {
+      storage,
+      maxAge: 1000,
+      drainInterval: 0,
+      onDrop,
+    });
+    await outbox.add([evt(1)]);
+    vi.advanceTimersByTime(500);
+    await outbox.add([evt(2)]);
+    vi.advanceTimersByTime(501);
+
+    expect(await outbox.size()).toBe(1);
+    expect(onDrop).toHaveBeenCalledWith([evt(1)], "max-age");
+  });
+
+  it("validates options", () => {
+    const client = new MeshesEventsClient(VALID_KEY);
+    expect(() => new MeshesOutbox(null as any)).toThrow(MeshesApiError);
+    expect(() => new MeshesOutbox(client, { batchSize: 101 })).toThrow(
+      MeshesApiError
+    );
+    expect(() => new MeshesOutbox(client, { maxSize: 0 })).toThrow(
+      MeshesApiError
+    );
+    expect(() => new MeshesOutbox(client, { maxAge: -1 })).toThrow(
+      MeshesApiError
+    );
+    expect(() => new MeshesOutbox(client, { storage: {} as any })).toThrow(
+      MeshesApiError
+    );
+    expect(
+      () =>
+        new MeshesOutbox(client, {
+          requestOptions: { headers: { "Idempotency-Key": "import-1" } },
+        })
+    ).toThrow("Outbox requestOptions can't set a fixed idempotency key");
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { outbox: "nope" as any })
+    ).toThrow(MeshesApiError);
+  });
+});
+
+describe("MeshesFileOutboxStorage", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "meshes-outbox-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("stores entries as JSONL that survive a new instance", async () => {
+    const path = join(dir, "outbox.jsonl");
+    const entry = (n: number) => ({
+      id: `id-${n}`,
+      createdAt: n,
+      event: evt(n),
+    });
+
+    const storage = new MeshesFileOutboxStorage(path);
+    expect(await storage.read()).toEqual([]);
+    await storage.append([entry(1), entry(2)]);
+    await storage.append([entry(3)]);
+
+    expect((await readFile(path, "utf8")).trim().split("\n")).toHaveLength(3);
+    expect(await new MeshesFileOutboxStorage(path).read()).toEqual([
+      entry(1),
+      entry(2),
+      entry(3),
+    ]);
+
+    await storage.write([entry(3)]);
+    expect(await new MeshesFileOutboxStorage(path).read()).toEqual([entry(3)]);
+  });
+
+  it("skips lines that can't be parsed", async () => {
+    const path = join(dir, "outbox.jsonl");
+    const entry = { id: "a", createdAt: 1, event: evt(1) };
+    await writeFile(path, `${JSON.stringify(entry)}\n{"id":"b","crea\n`);
+
+    expect(await new MeshesFileOutboxStorage(path).read()).toEqual([entry]);
+  });
+
+  it("validates the path", () => {
+    expect(() => new MeshesFileOutboxStorage("" as any)).toThrow(
+      MeshesApiError
+    );
+  });
+});
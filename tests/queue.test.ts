@@ -0,0 +1,290 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { MeshesApiError, MeshesConfigurationError } from "../src/lib/errors";
+import MeshesEventsClient, { MeshesEventsQueue } from "../src/client";
+import { VALID_KEY, evt } from "./helpers";
+
+describe("MeshesEventsQueue", () => {
+  let client: MeshesEventsClient;
+  let emitBatch: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    client = new MeshesEventsClient(VALID_KEY);
+    emitBatch = vi.fn(async (events: unknown[]) => ({
+      count: events.length,
+      records: [],
+    }));
+    (client as any).emitBatch = emitBatch;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("validates options", () => {
+    expect(() => new MeshesEventsQueue(null as any)).toThrow(MeshesApiError);
+    expect(() => new MeshesEventsQueue(client, { batchSize: 101 })).toThrow(
+      MeshesApiError
+    );
+    expect(() => new MeshesEventsQueue(client, { batchSize: 0 })).toThrow(
+      MeshesApiError
+    );
+    expect(
+      () => new MeshesEventsQueue(client, { batchSize: 10, maxQueueSize: 5 })
+    ).toThrow(MeshesApiError);
+    expect(
+      () => new MeshesEventsQueue(client, { overflow: "nope" as any })
+    ).toThrow(MeshesApiError);
+    expect(
+      () => new MeshesEventsQueue(client, { onError: "nope" as any })
+    ).toThrow(MeshesApiError);
+  });
+
+  it("rejects a fixed idempotency key for every flush", () => {
+    expect(
+      () =>
+        new MeshesEventsQueue(client, {
+          requestOptions: { idempotencyKey: "import-1" },
+        })
+    ).toThrow("Queue requestOptions can't set a fixed idempotency key");
+    expect(
+      () =>
+        new MeshesEventsQueue(client, {
+          requestOptions: { headers: { "idempotency-key": "import-1" } },
+        })
+    ).toThrow(MeshesConfigurationError);
+    expect(
+      () =>
+        new MeshesEventsQueue(client, {
+          requestOptions: { idempotencyKey: false },
+        })
+    ).not.toThrow();
+  });
+
+  it("validates events on enqueue", () => {
+    const queue = new MeshesEventsQueue(client);
+    expect(() => queue.enqueue({ event: "x", payload: {} })).toThrow(
+      MeshesApiError
+    );
+    expect(queue.size).toBe(0);
+  });
+
+  it("flushes when the batch size is reached", async () => {
+    const queue = new MeshesEventsQueue(client, { batchSize: 2 });
+
+    await queue.enqueue(evt(1));
+    expect(emitBatch).not.toHaveBeenCalled();
+    await queue.enqueue(evt(2));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(emitBatch).toHaveBeenCalledTimes(1);
+    expect(emitBatch.mock.calls[0][0]).toEqual([evt(1), evt(2)]);
+    expect(queue.size).toBe(0);
+  });
+
+  it("flushes after the flush interval", async () => {
+    const queue = new MeshesEventsQueue(client, { flushInterval: 500 });
+
+    await queue.enqueue(evt(1));
+    await vi.advanceTimersByTimeAsync(499);
+    expect(emitBatch).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(emitBatch).toHaveBeenCalledTimes(1);
+    expect(emitBatch.mock.calls[0][0]).toEqual([evt(1)]);
+  });
+
+  it("flush() drains the buffer in batches", async () => {
+    const queue = new MeshesEventsQueue(client, { batchSize: 2 });
+    for (let i = 0; i < 5; i++) {
+      await queue.enqueue(evt(i));
+    }
+    await queue.flush();
+
+    expect(emitBatch.mock.calls.map(([events]) => events.length)).toEqual([
+      2, 2, 1,
+    ]);
+    expect(queue.size).toBe(0);
+  });
+
+  it("passes request options to emitBatch", async () => {
+    const queue = new MeshesEventsQueue(client, {
+      requestOptions: { timeout: 2000 },
+    });
+    await queue.enqueue(evt(1));
+    await queue.flush();
+
+    expect(emitBatch).toHaveBeenCalledWith([evt(1)], { timeout: 2000 });
+  });
+
+  it("close() drains and rejects new events", async () => {
+    const queue = new MeshesEventsQueue(client);
+    await queue.enqueue(evt(1));
+    await queue.close();
+
+    expect(emitBatch).toHaveBeenCalledTimes(1);
+    expect(() => queue.enqueue(evt(2))).toThrow(MeshesConfigurationError);
+  });
+
+  it("reports failed batches to onError", async () => {
+    const onError = vi.fn();
+    const failure = new MeshesApiError("Request Failure");
+    emitBatch.mockRejectedValue(failure);
+
+    const queue = new MeshesEventsQueue(client, { onError });
+    await queue.enqueue(evt(1));
+    await queue.flush();
+
+    expect(onError).toHaveBeenCalledWith(failure, [evt(1)]);
+  });
+
+  it("wraps other errors reported to onError", async () => {
+    const onError = vi.fn();
+    const failure = new Error("Hook failed");
+    emitBatch.mockRejectedValue(failure);
+
+    const queue = new MeshesEventsQueue(client, { onError });
+    await queue.enqueue(evt(1));
+    await queue.flush();
+
+    const [err] = onError.mock.calls[0];
+    expect(err).toBeInstanceOf(MeshesApiError);
+    expect(err.data).toEqual({ error: failure });
+  });
+
+  it("keeps draining when onError throws", async () => {
+    const onError = vi.fn(() => {
+      throw new Error("Callback failed");
+    });
+    emitBatch.mockRejectedValueOnce(new MeshesApiError("Request Failure"));
+
+    const queue = new MeshesEventsQueue(client, {
+      flushInterval: 500,
+      onError,
+    });
+    await queue.enqueue(evt(1));
+    await vi.advanceTimersByTimeAsync(500);
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    await queue.enqueue(evt(2));
+    await expect(queue.flush()).resolves.toBeUndefined();
+    await expect(queue.close()).resolves.toBeUndefined();
+    expect(emitBatch).toHaveBeenLastCalledWith([evt(2)], undefined);
+  });
+
+  it("drops the oldest events on overflow", async () => {
+    const onDrop = vi.fn();
+    const queue = new MeshesEventsQueue(client, {
+      batchSize: 2,
+      maxQueueSize: 2,
+      onDrop,
+    });
+    emitBatch.mockImplementation(() => new Promise(() => {}));
+
+    // the first two events are in flight, the next two fill the buffer
+    for (let i = 1; i <= 5; i++) {
+      await queue.enqueue(evt(i));
+    }
+
+    expect(onDrop).toHaveBeenCalledWith([evt(3)], "overflow");
+    expect(queue.size).toBe(2);
+  });
+
+  it("drops the newest events on overflow", async () => {
+    const onDrop = vi.fn();
+    const queue = new MeshesEventsQueue(client, {
+      batchSize: 2,
+      maxQueueSize: 2,
+      overflow: "drop-newest",
+      onDrop,
+    });
+    emitBatch.mockImplementation(() => new Promise(() => {}));
+
+    for (let i = 1; i <= 5; i++) {
+      await queue.enqueue(evt(i));
+    }
+
+    expect(onDrop).toHaveBeenCalledWith([evt(5)], "overflow");
+    expect(queue.size).toBe(2);
+  });
+
+  it("blocks enqueue on overflow until there is space", async () => {
+    let release: () => void = () => {};
+    emitBatch.mockImplementationOnce(
+      () => new Promise<void>((resolve) => (release = resolve))
+    );
+
+    const queue = new MeshesEventsQueue(client, {
+      batchSize: 2,
+      maxQueueSize: 2,
+      overflow: "block",
+    });
+
+    for (let i = 1; i <= 4; i++) {
+      await queue.enqueue(evt(i));
+    }
+    let accepted = false;
+    const blocked = queue.enqueue(evt(5)).then(() => {
+      accepted = true;
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(accepted).toBe(false);
+    expect(queue.size).toBe(3);
+
+    release();
+    await blocked;
+    expect(accepted).toBe(true);
+
+    await queue.close();
+    expect(emitBatch.mock.calls.map(([events]) => events)).toEqual([
+      [evt(1), evt(2)],
+      [evt(3), evt(4)],
+      [evt(5)],
+    ]);
+  });
+
+  it("take() removes and returns the buffered events", async () => {
+    const queue = new MeshesEventsQueue(client, { flushInterval: 500 });
+
+    await queue.enqueue(evt(1));
+    await queue.enqueue(evt(2));
+    expect(queue.take()).toEqual([evt(1), evt(2)]);
+    expect(queue.size).toBe(0);
+
+    // the flush timer is cleared
+    await vi.advanceTimersByTimeAsync(500);
+    expect(emitBatch).not.toHaveBeenCalled();
+  });
+
+  it("client.enqueue() uses the client queue options", async () => {
+    const queued = new MeshesEventsClient(VALID_KEY, {
+      queue: { batchSize: 2 },
+    });
+    const batch = vi.fn(async () => ({ count: 2, records: [] }));
+    (queued as any).emitBatch = batch;
+
+    await queued.enqueue(evt(1));
+    await queued.enqueue(evt(2));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(batch).toHaveBeenCalledTimes(1);
+
+    await queued.enqueue(evt(3));
+    await queued.close();
+    expect(batch).toHaveBeenCalledTimes(2);
+  });
+
+  it("client.flush() and client.close() resolve without a queue", async () => {
+    await expect(client.flush()).resolves.toBeUndefined();
+    await expect(client.close()).resolves.toBeUndefined();
+  });
+
+  it("throws on invalid client queue options", () => {
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { queue: "nope" as any })
+    ).toThrow(MeshesApiError);
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { queue: { batchSize: 0 } })
+    ).toThrow(MeshesConfigurationError);
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { RateLimiter } from "../src/lib/rate-limiter";
+import { MeshesApiError, MeshesRateLimitError } from "../src/lib/errors";
+import MeshesEventsClient, { MeshesMemoryOutboxStorage } from "../src/client";
+import { VALID_KEY, mockResponse } from "./helpers";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("validates options", () => {
+    expect(() => new RateLimiter(null as any)).toThrow(MeshesApiError);
+    expect(() => new RateLimiter({})).toThrow(
+      "Invalid rate limit options: requestsPerSecond or eventsPerSecond is required"
+    );
+    expect(() => new RateLimiter({ requestsPerSecond: 0 })).toThrow(
+      "Unsupported rate limit requestsPerSecond: 0"
+    );
+    expect(() => new RateLimiter({ eventsPerSecond: "10" as any })).toThrow(
+      MeshesApiError
+    );
+    expect(
+      () => new RateLimiter({ requestsPerSecond: 1, overflow: "drop" as any })
+    ).toThrow("Unsupported rate limit overflow policy: drop");
+  });
+
+  it("queues requests over the limit in order", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2 });
+    const released: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      limiter.acquire(1).then(() => released.push(i));
+    }
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(released).toEqual([0, 1]);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(released).toEqual([0, 1, 2]);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(released).toEqual([0, 1, 2, 3]);
+  });
+
+  it("limits events per second", async () => {
+    const limiter = new RateLimiter({ eventsPerSecond: 10 });
+    let released = false;
+
+    await limiter.acquire(8);
+    limiter.acquire(5).then(() => (released = true));
+    await vi.advanceTimersByTimeAsync(299);
+    expect(released).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(released).toBe(true);
+  });
+
+  it("lets batches larger than the limit through a full bucket", async () => {
+    const limiter = new RateLimiter({ eventsPerSecond: 10 });
+    let released = false;
+
+    await limiter.acquire(30);
+    // the bucket is 20 events in debt
+    limiter.acquire(1).then(() => (released = true));
+    await vi.advanceTimersByTimeAsync(2099);
+    expect(released).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(released).toBe(true);
+  });
+
+  it("rejects requests over the limit with the reject policy", async () => {
+    const limiter = new RateLimiter({
+      requestsPerSecond: 1,
+      eventsPerSecond: 100,
+      overflow: "reject",
+    });
+
+    await limiter.acquire(1);
+    const err = await limiter.acquire(1).catch((e) => e);
+    expect(err).toBeInstanceOf(MeshesRateLimitError);
+    expect(err.retryAfterMs).toBe(1000);
+    expect(err.data).toEqual({ retryAfterMs: 1000, limit: "requests" });
+
+    vi.advanceTimersByTime(1000);
+    await expect(limiter.acquire(1)).resolves.toBeUndefined();
+  });
+});
+
+describe("MeshesEventsClient rate limiting", () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    globalThis.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it("parses 429 responses into a MeshesRateLimitError", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({
+        ok: false,
+        status: 429,
+        bodyText: '{"message":"Too Many Requests"}',
+        headers: { "Retry-After": "3" },
+      })
+    );
+    const client = new MeshesEventsClient(VALID_KEY);
+
+    const err = await client
+      .emit({ event: "x", payload: { n: 1 } })
+      .catch((e) => e);
+    expect(err).toBeInstanceOf(MeshesRateLimitError);
+    expect(err.message).toBe("Meshes API rate limit exceeded");
+    expect(err.retryAfterMs).toBe(3000);
+    expect(err.data).toMatchObject({
+      status: 429,
+      data: { message: "Too Many Requests" },
+      retryAfterMs: 3000,
+      attempts: 1,
+    });
+  });
+
+  it("uses rate limit headers when Retry-After is missing", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({
+        ok: false,
+        status: 429,
+        headers: { "X-RateLimit-Reset": "7" },
+      })
+    );
+    const client = new MeshesEventsClient(VALID_KEY);
+
+    const err = await client
+      .emit({ event: "x", payload: { n: 1 } })
+      .catch((e) => e);
+    expect(err.retryAfterMs).toBe(7000);
+  });
+
+  it("leaves retryAfterMs undefined without rate limit headers", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: false, status: 429 })
+    );
+    const client = new MeshesEventsClient(VALID_KEY);
+
+    const err = await client
+      .emit({ event: "x", payload: { n: 1 } })
+      .catch((e) => e);
+    expect(err).toBeInstanceOf(MeshesRateLimitError);
+    expect(err.retryAfterMs).toBeUndefined();
+  });
+
+  it("delays requests over the client-side limit", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"ok":1}' })
+    );
+    const client = new MeshesEventsClient(VALID_KEY, {
+      rateLimit: { requestsPerSecond: 1 },
+    });
+
+    const first = client.emit({ event: "x", payload: { n: 1 } });
+    const second = client.emit({ event: "x", payload: { n: 2 } });
+
+    await vi.advanceTimersByTimeAsync(0);
+    await expect(first).resolves.toMatchObject({ ok: 1 });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(second).resolves.toMatchObject({ ok: 1 });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("cancels requests waiting for the limiter without storing them", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"ok":1}' })
+    );
+    const storage = new MeshesMemoryOutboxStorage();
+    const client = new MeshesEventsClient(VALID_KEY, {
+      rateLimit: { requestsPerSecond: 1 },
+      outbox: { storage, drainInterval: 0 },
+    });
+    const controller = new AbortController();
+
+    await client.emit({ event: "x", payload: { n: 1 } });
+    const blocked = client.emit(
+      { event: "x", payload: { n: 2 } },
+      { signal: controller.signal }
+    );
+    const assertion = expect(blocked).rejects.toMatchObject({
+      message: "Request Cancelled",
+      code: "cancelled",
+    });
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+    await assertion;
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    expect(await storage.read()).toEqual([]);
+    await client.close();
+  });
+
+  it("counts bulk events against the events limit", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"count":0,"records":[]}' })
+    );
+    const client = new MeshesEventsClient(VALID_KEY, {
+      rateLimit: { eventsPerSecond: 2, overflow: "reject" },
+    });
+
+    await client.emitBatch([
+      { event: "x", payload: { n: 1 } },
+      { event: "x", payload: { n: 2 } },
+    ]);
+    await expect(
+      client.emit({ event: "x", payload: { n: 3 } })
+    ).rejects.toMatchObject({
+      message: "Meshes client rate limit exceeded",
+      data: { limit: "events", retryAfterMs: 500 },
+    });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  defaultRetryOptions,
+  getBackoffDelay,
+  isRetryable,
+  parseRateLimitReset,
+  parseRetryAfter,
+  resolveRetryOptions,
+} from "../src/lib/retry.js";
+
+describe("retry helpers", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("resolves disabled and default policies", () => {
+    expect(resolveRetryOptions(undefined)).toBeUndefined();
+    expect(resolveRetryOptions(false)).toBeUndefined();
+    expect(resolveRetryOptions(true)).toEqual(defaultRetryOptions);
+    expect(resolveRetryOptions({ maxAttempts: 5 })).toEqual({
+      ...defaultRetryOptions,
+      maxAttempts: 5,
+    });
+  });
+
+  it("retries 408, 429 and 5xx by default", () => {
+    const retry = resolveRetryOptions(true)!;
+    expect(isRetryable(retry, { kind: "status", status: 408 })).toBe(true);
+    expect(isRetryable(retry, { kind: "status", status: 429 })).toBe(true);
+    expect(isRetryable(retry, { kind: "status", status: 502 })).toBe(true);
+    expect(isRetryable(retry, { kind: "status", status: 400 })).toBe(false);
+    expect(isRetryable(retry, { kind: "timeout" })).toBe(true);
+    expect(isRetryable(retry, { kind: "network" })).toBe(true);
+    expect(isRetryable(retry, { kind: "parse" })).toBe(false);
+  });
+
+  it("uses the configured statuses", () => {
+    const retry = resolveRetryOptions({ statuses: [409] })!;
+    expect(isRetryable(retry, { kind: "status", status: 409 })).toBe(true);
+    expect(isRetryable(retry, { kind: "status", status: 503 })).toBe(false);
+  });
+
+  it("computes capped exponential backoff", () => {
+    const retry = resolveRetryOptions({
+      baseDelay: 100,
+      maxDelay: 350,
+      jitter: false,
+    })!;
+    expect(getBackoffDelay(retry, 1)).toBe(100);
+    expect(getBackoffDelay(retry, 2)).toBe(200);
+    expect(getBackoffDelay(retry, 3)).toBe(350);
+  });
+
+  it("applies full jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const retry = resolveRetryOptions({ baseDelay: 100 })!;
+    expect(getBackoffDelay(retry, 2)).toBe(100);
+  });
+
+  it("parses Retry-After seconds and dates", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("nope")).toBeUndefined();
+    expect(parseRetryAfter("3")).toBe(3000);
+
+    const date = new Date(Date.now() + 60000).toUTCString();
+    const ms = parseRetryAfter(date)!;
+    expect(ms).toBeGreaterThan(58000);
+    expect(ms).toBeLessThanOrEqual(60000);
+  });
+
+  it("parses rate limit reset headers", () => {
+    expect(parseRateLimitReset(undefined)).toBeUndefined();
+    expect(parseRateLimitReset(new Headers())).toBeUndefined();
+    expect(parseRateLimitReset(new Headers({ "RateLimit-Reset": "5" }))).toBe(
+      5000
+    );
+    expect(
+      parseRateLimitReset(new Headers({ "X-RateLimit-Reset": "1.5" }))
+    ).toBe(1500);
+    // Retry-After takes precedence
+    expect(
+      parseRateLimitReset(
+        new Headers({ "Retry-After": "2", "RateLimit-Reset": "5" })
+      )
+    ).toBe(2000);
+
+    vi.spyOn(Date, "now").mockReturnValue(1_700_000_000_000);
+    expect(
+      parseRateLimitReset(new Headers({ "X-RateLimit-Reset": "1700000030" }))
+    ).toBe(30000);
+  });
+});
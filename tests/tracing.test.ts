@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { MeshesApiError } from "../src/lib/errors";
+import MeshesEventsClient from "../src/client";
+import { VALID_KEY, mockResponse } from "./helpers";
+
+describe("tracing", () => {
+  const originalFetch = globalThis.fetch;
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  const tracer = provider.getTracer("meshes-test");
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    globalThis.fetch = vi.fn();
+    exporter.reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it("creates a client span per emit and sends traceparent", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: '{"ok":true}' })
+    );
+    const client = new MeshesEventsClient(VALID_KEY, {
+      tracer,
+      headers: { traceparent: "00-stale" },
+    });
+
+    await client.emit(
+      { event: "user.signed_up", payload: { email: "a@b.com" } },
+      { idempotencyKey: "key-1" }
+    );
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("POST /events");
+    expect(span.kind).toBe(SpanKind.CLIENT);
+    expect(span.attributes).toEqual({
+      "http.request.method": "POST",
+      "url.full": "https://events.meshes.io/api/v1/events",
+      "meshes.batch.size": 1,
+      "meshes.event.name": "user.signed_up",
+      "meshes.idempotency_key": "key-1",
+      "http.request.resend_count": 0,
+      "http.response.status_code": 200,
+    });
+    expect(span.status.code).toBe(SpanStatusCode.UNSET);
+
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    const { traceId, spanId } = span.spanContext();
+    expect(init.headers.traceparent).toBe(`00-${traceId}-${spanId}-01`);
+  });
+
+  it("records batch size, retries and errors", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: false, status: 503 })
+    );
+    const client = new MeshesEventsClient(VALID_KEY, {
+      tracer,
+      retry: { maxAttempts: 2, baseDelay: 10, jitter: false },
+    });
+
+    const promise = client.emitBatch([
+      { event: "a", payload: { email: "a@b.com" } },
+      { event: "b", payload: { email: "a@b.com" } },
+      { event: "a", payload: { email: "c@d.com" } },
+    ]);
+    const assertion = expect(promise).rejects.toBeInstanceOf(MeshesApiError);
+    await vi.advanceTimersByTimeAsync(10);
+    await assertion;
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans).toHaveLength(1);
+    const [span] = spans;
+    expect(span.name).toBe("POST /events/bulk");
+    expect(span.attributes).toMatchObject({
+      "meshes.batch.size": 3,
+      "meshes.event.names": ["a", "b"],
+      "http.request.resend_count": 1,
+      "http.response.status_code": 503,
+    });
+    expect(span.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: "Meshes API request failed",
+    });
+    expect(span.events.map((e) => e.name)).toEqual(["exception"]);
+
+    // the same trace context is sent on every attempt
+    const [first, second] = (globalThis.fetch as any).mock.calls.map(
+      ([, init]: any) => init.headers.traceparent
+    );
+    expect(first).toBeDefined();
+    expect(second).toBe(first);
+  });
+
+  it("does not send traceparent for invalid span contexts", async () => {
+    (globalThis.fetch as any).mockResolvedValue(
+      mockResponse({ ok: true, bodyText: "{}" })
+    );
+    const span = {
+      spanContext: () => ({
+        traceId: "0".repeat(32),
+        spanId: "0".repeat(16),
+        traceFlags: 0,
+      }),
+      setAttribute: vi.fn(),
+      setStatus: vi.fn(),
+      recordException: vi.fn(),
+      end: vi.fn(),
+    };
+    const client = new MeshesEventsClient(VALID_KEY, {
+      tracer: { startSpan: () => span },
+    });
+
+    await client.emit({ event: "x", payload: { email: "a@b.com" } });
+
+    const [, init] = (globalThis.fetch as any).mock.calls[0];
+    expect(init.headers.traceparent).toBeUndefined();
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws on an invalid tracer", () => {
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { tracer: {} as any })
+    ).toThrow(MeshesApiError);
+  });
+});
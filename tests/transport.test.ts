@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { resolveFetchOptions, resolveTransport } from "../src/lib/transport";
+import {
+  MeshesConfigurationError,
+  MeshesNetworkError,
+} from "../src/lib/errors";
+import { MeshesFakeServer } from "../src/testing";
+import MeshesEventsClient from "../src/client";
+import { VALID_KEY, evt, mockResponse } from "./helpers";
+
+describe("resolveTransport", () => {
+  it("validates the transport", () => {
+    expect(() => resolveTransport(null)).toThrow(MeshesConfigurationError);
+    expect(() => resolveTransport({})).toThrow("Invalid transport: object");
+    expect(() => resolveTransport("fetch")).toThrow(MeshesConfigurationError);
+  });
+
+  it("adapts a transport object to a fetch function", async () => {
+    const send = vi.fn().mockResolvedValue(mockResponse({ ok: true }));
+    const fetchFn = resolveTransport({ send });
+
+    await fetchFn("https://example.com", {
+      method: "POST",
+      headers: {},
+      body: "{}",
+    });
+    expect(send).toHaveBeenCalledWith({
+      url: "https://example.com",
+      method: "POST",
+      headers: {},
+      body: "{}",
+    });
+  });
+
+  it("validates fetch options", () => {
+    expect(resolveFetchOptions(undefined)).toEqual({});
+    expect(() => resolveFetchOptions([])).toThrow(MeshesConfigurationError);
+    expect(() => resolveFetchOptions("keep-alive")).toThrow(
+      "Invalid fetch options: string"
+    );
+  });
+});
+
+describe("MeshesEventsClient transport", () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    globalThis.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it("validates the transport options", () => {
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { transport: {} as any })
+    ).toThrow(MeshesConfigurationError);
+    expect(
+      () => new MeshesEventsClient(VALID_KEY, { fetchOptions: null as any })
+    ).toThrow(MeshesConfigurationError);
+  });
+
+  it("uses the global fetch by default, looked up per request", async () => {
+    const client = new MeshesEventsClient(VALID_KEY);
+    const replaced = vi
+      .fn()
+      .mockResolvedValue(
+        mockResponse({ ok: true, bodyText: JSON.stringify({ id: "evt_1" }) })
+      );
+    globalThis.fetch = replaced;
+
+    await expect(client.emit(evt(1))).resolves.toMatchObject({ id: "evt_1" });
+    expect(replaced).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends requests with a custom fetch function and fetch options", async () => {
+    const dispatcher = { name: "agent" };
+    const customFetch = vi
+      .fn()
+      .mockResolvedValue(
+        mockResponse({ ok: true, bodyText: JSON.stringify({ id: "evt_1" }) })
+      );
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport: customFetch,
+      fetchOptions: { dispatcher, method: "GET" },
+    });
+
+    await client.emit(evt(1));
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+    expect(customFetch).toHaveBeenCalledWith(
+      "https://events.meshes.io/api/v1/events",
+      expect.objectContaining({
+        dispatcher,
+        // fetch options can't override the request itself
+        method: "POST",
+        body: JSON.stringify(evt(1)),
+        headers: expect.objectContaining({
+          "X-Meshes-Publishable-Key": VALID_KEY,
+        }),
+      })
+    );
+  });
+
+  it("lets clients in one process use different transports", async () => {
+    const first = new MeshesFakeServer();
+    const second = new MeshesFakeServer();
+    const a = new MeshesEventsClient(VALID_KEY, { transport: first.fetch });
+    const b = new MeshesEventsClient(VALID_KEY, {
+      transport: { send: ({ url, ...init }) => second.fetch(url, init) },
+    });
+
+    await a.emit(evt(1));
+    await b.emitBatch([evt(2), evt(3)]);
+    expect(first.events).toEqual([evt(1)]);
+    expect(second.events).toEqual([evt(2), evt(3)]);
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
+
+  it("fails like a network error when the transport throws", async () => {
+    const client = new MeshesEventsClient(VALID_KEY, {
+      transport: () => {
+        throw new Error("No socket");
+      },
+    });
+
+    await expect(client.emit(evt(1))).rejects.toBeInstanceOf(
+      MeshesNetworkError
+    );
+  });
+});
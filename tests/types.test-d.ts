@@ -0,0 +1,66 @@
+import { describe, it, expectTypeOf } from "vitest";
+import {
+  MeshesEventsClient,
+  type BulkCreateEventsResult,
+  type CreateEventResponseSingle,
+  type MeshesDroppedRecord,
+  type MeshesErrorResponse,
+  type MeshesEvent,
+  type MeshesMiddlewareStage,
+} from "../src/index.js";
+
+type Events = {
+  "user.signed_up": { email: string; plan: "free" | "pro" };
+  "order.placed": { email: string; total: number };
+};
+
+declare const client: MeshesEventsClient<Events>;
+
+describe("MeshesEventsClient types", () => {
+  it("checks events against the event catalog", () => {
+    client.emit({
+      event: "user.signed_up",
+      payload: { email: "a@b.com", plan: "pro" },
+    });
+    client.emitBatch([
+      { event: "order.placed", payload: { email: "a@b.com", total: 10 } },
+    ]);
+
+    // @ts-expect-error -- unknown event names do not type-check
+    client.emit({ event: "user.signedup", payload: {} });
+    client.emit({
+      event: "user.signed_up",
+      // @ts-expect-error -- payloads must match the event
+      payload: { email: "a@b.com", plan: "enterprise" },
+    });
+  });
+
+  it("returns a promise unless a callback is given", () => {
+    expectTypeOf(
+      client.emit({ event: "order.placed", payload: { email: "", total: 1 } })
+    ).toEqualTypeOf<Promise<CreateEventResponseSingle> | undefined>();
+  });
+
+  it("narrows dropped single responses", () => {
+    const response = {} as CreateEventResponseSingle;
+    if (response.dropped) {
+      expectTypeOf(response.event).toEqualTypeOf<undefined>();
+    } else {
+      expectTypeOf(response.event).toEqualTypeOf<MeshesEvent>();
+    }
+  });
+
+  it("types bulk records as events, errors or dropped records", () => {
+    expectTypeOf<BulkCreateEventsResult["records"][number]>().toEqualTypeOf<
+      MeshesEvent | MeshesErrorResponse | MeshesDroppedRecord
+    >();
+  });
+
+  it("only accepts known middleware stages", () => {
+    expectTypeOf<MeshesMiddlewareStage>().toEqualTypeOf<
+      "request" | "transport"
+    >();
+    // @ts-expect-error -- unknown stages do not type-check
+    client.use((request, next) => next(request), { stage: "send" });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { MeshesApiError } from "../src/lib/errors";
+import {
+  resolveValidators,
+  runValidator,
+  validateEvent,
+} from "../src/lib/validate.js";
+
+const event = { event: "x", payload: { email: "nope" } };
+
+describe("validateEvent", () => {
+  it("accepts valid events", () => {
+    expect(() => validateEvent(event)).not.toThrow();
+  });
+
+  it("rejects invalid events", () => {
+    expect(() => validateEvent({ event: "x", payload: {} })).toThrow(
+      MeshesApiError
+    );
+  });
+});
+
+describe("resolveValidators", () => {
+  it("accepts functions and schema objects", () => {
+    expect(resolveValidators(undefined)).toBeUndefined();
+    const validators = {
+      a: () => true,
+      b: { "~standard": { validate: () => ({ value: {} }) } },
+      c: { validate: () => true },
+      d: { parse: () => ({}) },
+    };
+    expect(resolveValidators(validators)).toBe(validators);
+  });
+
+  it("rejects invalid validators", () => {
+    expect(() => resolveValidators([])).toThrow(MeshesApiError);
+    expect(() => resolveValidators({ a: "nope" })).toThrow(MeshesApiError);
+    expect(() => resolveValidators({ a: {} })).toThrow(MeshesApiError);
+  });
+});
+
+describe("runValidator", () => {
+  it("supports validator functions", () => {
+    expect(runValidator(() => true, event)).toEqual([]);
+    expect(runValidator(() => undefined, event)).toEqual([]);
+    expect(runValidator(() => false, event)).toEqual([
+      { path: [], message: "Invalid value" },
+    ]);
+    expect(
+      runValidator(() => [{ path: ["email"], message: "bad email" }], event)
+    ).toEqual([{ path: ["email"], message: "bad email" }]);
+    expect(
+      runValidator(() => {
+        throw new Error("boom");
+      }, event)
+    ).toEqual([{ path: [], message: "boom" }]);
+  });
+
+  it("passes the payload and event to validator functions", () => {
+    let args: unknown[] = [];
+    runValidator((...a: unknown[]) => {
+      args = a;
+      return true;
+    }, event);
+    expect(args).toEqual([event.payload, event]);
+  });
+
+  it("supports Standard Schema validators", async () => {
+    const schema = {
+      "~standard": {
+        validate: (value: any) =>
+          value.email.includes("@")
+            ? { value }
+            : {
+                issues: [
+                  { message: "Invalid email", path: [{ key: "email" }] },
+                ],
+              },
+      },
+    };
+    expect(runValidator(schema, event)).toEqual([
+      { path: ["email"], message: "Invalid email" },
+    ]);
+
+    const asyncSchema = {
+      "~standard": { validate: async (value: any) => ({ value }) },
+    };
+    await expect(runValidator(asyncSchema, event)).resolves.toEqual([]);
+  });
+
+  it("supports parse() schemas that throw", () => {
+    const schema = {
+      parse: () => {
+        const err: any = new Error("invalid");
+        err.issues = [{ path: ["email"], message: "Invalid email" }];
+        throw err;
+      },
+    };
+    expect(runValidator(schema, event)).toEqual([
+      { path: ["email"], message: "Invalid email" },
+    ]);
+    expect(runValidator({ parse: (v: unknown) => v }, event)).toEqual([]);
+  });
+
+  it("supports validate() schemas returning an error", () => {
+    const schema = {
+      validate: (value: unknown) => ({
+        value,
+        error: {
+          message: "invalid",
+          details: [{ path: ["email"], message: '"email" must be valid' }],
+        },
+      }),
+    };
+    expect(runValidator(schema, event)).toEqual([
+      { path: ["email"], message: '"email" must be valid' },
+    ]);
+  });
+
+  it("supports async validate() schemas that reject", async () => {
+    const schema = {
+      validate: async () => {
+        const err: any = new Error("invalid");
+        err.path = "email";
+        err.inner = [];
+        err.errors = ["email must be a valid email"];
+        throw err;
+      },
+    };
+    await expect(runValidator(schema, event)).resolves.toEqual([
+      { path: ["email"], message: "email must be a valid email" },
+    ]);
+  });
+});